@@ -0,0 +1,509 @@
+/**
+ * Dummy QA App - offline fixture
+ *
+ * Reproduces every data-testid the page objects rely on. Users come from
+ * /api/users when something serves it (tests mock it with page.route); the
+ * fixture server answers 404, so otherwise they live in memory and a full
+ * page reload resets them. Applied UI changes live in memory too, like in
+ * the Angular app: a reload goes back to the ones the server was started
+ * with (APP_UI_CHANGES).
+ * The login session lives in localStorage; /dashboard and /profile redirect
+ * to /login without one.
+ */
+(function () {
+  'use strict';
+
+  var SEED_USERS = [
+    { id: 1, name: 'John Doe', email: 'john.doe@example.com', role: 'Admin', department: 'IT' },
+    { id: 2, name: 'Jane Smith', email: 'jane.smith@example.com', role: 'User', department: 'Marketing' },
+    { id: 3, name: 'Bob Johnson', email: 'bob.johnson@example.com', role: 'Manager', department: 'Sales' },
+  ];
+
+  var ROLES = ['Admin', 'User', 'Manager'];
+
+  // Keep in sync with tests/helpers/ui-scenarios.ts. Changes 1-3 mirror the
+  // Angular app; 4-9 only exist in this fixture.
+  var CHANGES = [
+    { id: 1, label: 'Login Button Text', log: 'Change #1 applied: Login button text changed to "Log In Now"' },
+    { id: 2, label: 'Add Department Column', log: 'Change #2 applied: Department column added to user table' },
+    { id: 3, label: 'Modal Title', log: 'Change #3 applied: Modal title changed to "Edit Team Member"' },
+    { id: 4, label: 'Rename Add User Test Id', log: 'Change #4 applied: add-user-button renamed to create-user-button' },
+    { id: 5, label: 'Logout In Menu', log: 'Change #5 applied: Logout moved into the account menu' },
+    { id: 6, label: 'Cancel As Link', log: 'Change #6 applied: Modal cancel button rendered as a link' },
+    { id: 7, label: 'Reorder Columns', log: 'Change #7 applied: Role column moved in front of Name' },
+    { id: 8, label: 'Split Name Field', log: 'Change #8 applied: Name split into first and last name' },
+    { id: 9, label: 'Delayed Rendering', log: 'Change #9 applied: User table renders after 1.5s' },
+  ];
+
+  var TABLE_DELAY_MS = 1500;
+
+  var SESSION_KEY = 'dummy-qa-session';
+
+  var PROTECTED_ROUTES = ['/dashboard', '/profile'];
+
+  function readSession() {
+    try {
+      return JSON.parse(localStorage.getItem(SESSION_KEY) || 'null');
+    } catch (error) {
+      return null;
+    }
+  }
+
+  var state = {
+    users: SEED_USERS.map(function (user) { return Object.assign({}, user); }),
+    currentUser: readSession(),
+    changes: ((window.FIXTURE_CONFIG && window.FIXTURE_CONFIG.changes) || []).slice(),
+    modal: null,
+    menuOpen: false,
+    renderedPath: null,
+    tableReadyAt: 0,
+    usersLoaded: false,
+    api: false,
+    error: null,
+  };
+
+  // ---------------------------------------------------------------------------
+  // UI changes
+  // ---------------------------------------------------------------------------
+
+  function activeChanges() {
+    return state.changes;
+  }
+
+  function isActive(id) {
+    return activeChanges().indexOf(id) !== -1;
+  }
+
+  function setChanges(ids) {
+    state.changes = ids;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Users API
+  // ---------------------------------------------------------------------------
+
+  function api(method, path, body) {
+    return fetch(path, {
+      method: method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    }).then(function (response) {
+      return response.json().catch(function () { return null; }).then(function (data) {
+        return { ok: response.ok, status: response.status, data: data };
+      });
+    });
+  }
+
+  // A null result means the request never got a response.
+  function apiError(action, result) {
+    if (!result) return 'Could not ' + action + ': network error';
+
+    var data = result.data || {};
+    if (data.errors) {
+      return Object.keys(data.errors).map(function (field) { return data.errors[field]; }).join('. ');
+    }
+    return data.error || 'Could not ' + action + ' (HTTP ' + result.status + ')';
+  }
+
+  function loadUsers() {
+    api('GET', '/api/users').then(function (result) {
+      if (result.status === 404) return;
+      state.api = true;
+      state.users = result.ok ? result.data : [];
+      state.error = result.ok ? null : apiError('load users', result);
+    }, function () {
+      state.api = true;
+      state.users = [];
+      state.error = apiError('load users', null);
+    }).then(function () {
+      state.usersLoaded = true;
+      render();
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // DOM helpers
+  // ---------------------------------------------------------------------------
+
+  function h(tag, attrs) {
+    var element = document.createElement(tag);
+    var children = Array.prototype.slice.call(arguments, 2);
+
+    Object.keys(attrs || {}).forEach(function (key) {
+      var value = attrs[key];
+      if (value === undefined || value === null || value === false) return;
+
+      if (key === 'testid') {
+        element.setAttribute('data-testid', value);
+      } else if (key.indexOf('on') === 0) {
+        element.addEventListener(key.slice(2).toLowerCase(), value);
+      } else if (key === 'value') {
+        element.value = value;
+      } else {
+        element.setAttribute(key, value === true ? '' : value);
+      }
+    });
+
+    children.forEach(function append(child) {
+      if (Array.isArray(child)) return child.forEach(append);
+      if (child === null || child === undefined || child === false) return;
+      element.appendChild(typeof child === 'string' ? document.createTextNode(child) : child);
+    });
+
+    return element;
+  }
+
+  function link(path, testid, text) {
+    return h('a', {
+      href: path,
+      testid: testid,
+      onClick: function (event) {
+        event.preventDefault();
+        navigate(path);
+      },
+    }, text);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Pages
+  // ---------------------------------------------------------------------------
+
+  function renderLogin() {
+    function submit(event) {
+      event.preventDefault();
+      var email = document.getElementById('login-email').value;
+      state.currentUser = { name: 'Test User', email: email || 'test@example.com' };
+      localStorage.setItem(SESSION_KEY, JSON.stringify(state.currentUser));
+      navigate('/dashboard');
+    }
+
+    return h('main', { class: 'page login-page' },
+      h('form', { class: 'card', onSubmit: submit },
+        h('h1', { testid: 'login-title' }, 'Login'),
+        h('label', { for: 'login-email' }, 'Email'),
+        h('input', { id: 'login-email', type: 'email', name: 'email', testid: 'email-input' }),
+        h('label', { for: 'login-password' }, 'Password'),
+        h('input', { id: 'login-password', type: 'password', name: 'password', testid: 'password-input' }),
+        h('button', { type: 'submit', class: 'primary', testid: 'login-submit' },
+          isActive(1) ? 'Log In Now' : 'Sign In')
+      )
+    );
+  }
+
+  function userColumns() {
+    var columns = [
+      { key: 'name', header: 'Name' },
+      { key: 'email', header: 'Email' },
+      { key: 'role', header: 'Role' },
+    ];
+
+    if (isActive(7)) {
+      columns.unshift(columns.pop());
+    }
+
+    if (isActive(2)) {
+      columns.push({ key: 'department', header: 'Department' });
+    }
+
+    return columns;
+  }
+
+  function renderUserTable() {
+    var remaining = state.tableReadyAt - Date.now();
+    if (remaining > 0) {
+      setTimeout(render, remaining);
+    }
+    if (remaining > 0 || !state.usersLoaded) {
+      return h('p', { testid: 'table-loading' }, 'Loading users...');
+    }
+
+    var columns = userColumns();
+
+    var headers = columns.map(function (column) {
+      return h('th', { testid: 'header-' + column.key }, column.header);
+    }).concat(h('th', { testid: 'header-actions' }, 'Actions'));
+
+    var rows = state.users.map(function (user) {
+      return h('tr', { testid: 'user-row-' + user.id },
+        columns.map(function (column) { return h('td', null, user[column.key] || ''); }),
+        h('td', null,
+          h('button', { type: 'button', testid: 'edit-user-' + user.id, onClick: function () { openModal(user); } }, 'Edit'),
+          h('button', { type: 'button', testid: 'delete-user-' + user.id, onClick: function () { deleteUser(user); } }, 'Delete')
+        )
+      );
+    });
+
+    return h('table', { testid: 'user-table' },
+      h('thead', null, h('tr', null, headers)),
+      h('tbody', null, rows)
+    );
+  }
+
+  function renderAccountNav() {
+    var logoutButton = h('button', { type: 'button', testid: 'logout-button', onClick: logout }, 'Logout');
+
+    if (!isActive(5)) {
+      return logoutButton;
+    }
+
+    function toggle() {
+      state.menuOpen = !state.menuOpen;
+      render();
+    }
+
+    return h('div', { class: 'menu' },
+      h('button', {
+        type: 'button',
+        testid: 'user-menu-button',
+        'aria-haspopup': 'menu',
+        'aria-expanded': String(state.menuOpen),
+        onClick: toggle,
+      }, 'Account'),
+      state.menuOpen && h('div', { role: 'menu', testid: 'user-menu' }, logoutButton)
+    );
+  }
+
+  function renderDashboard() {
+    return h('main', { class: 'page dashboard-page' },
+      h('header', { class: 'toolbar' },
+        h('h1', { testid: 'dashboard-title' }, 'User Dashboard'),
+        h('nav', null,
+          link('/profile', 'profile-link', 'Profile'),
+          renderAccountNav()
+        )
+      ),
+      h('button', {
+        type: 'button',
+        class: 'primary',
+        testid: isActive(4) ? 'create-user-button' : 'add-user-button',
+        onClick: function () { openModal(null); },
+      }, 'Add User'),
+      state.error && h('p', { class: 'error', role: 'alert', testid: 'users-error' }, state.error),
+      renderUserTable(),
+      state.modal && renderModal()
+    );
+  }
+
+  function renderModal() {
+    var user = state.modal.draft || state.modal.user || {};
+    var splitName = isActive(8);
+    var nameParts = (user.name || '').split(' ');
+
+    function readName() {
+      if (!splitName) return document.getElementById('user-name').value.trim();
+      return [
+        document.getElementById('user-first-name').value.trim(),
+        document.getElementById('user-last-name').value.trim(),
+      ].filter(Boolean).join(' ');
+    }
+
+    function cancel(event) {
+      event.preventDefault();
+      closeModal();
+    }
+
+    function save(event) {
+      event.preventDefault();
+      var data = {
+        name: readName(),
+        email: document.getElementById('user-email').value.trim(),
+        department: document.getElementById('user-department').value.trim(),
+        role: document.getElementById('user-role').value,
+      };
+
+      var modal = state.modal;
+      modal.draft = data;
+
+      if (!data.name || !data.email) {
+        modal.error = 'Name and email are required';
+        return render();
+      }
+
+      modal.saving = true;
+      modal.error = null;
+      render();
+
+      saveUser(modal.user, data).then(function (error) {
+        if (state.modal !== modal) return;
+        if (!error) return closeModal();
+        modal.saving = false;
+        modal.error = error;
+        render();
+      });
+    }
+
+    return h('div', { class: 'modal-backdrop', testid: 'modal-backdrop' },
+      h('form', { class: 'modal card', role: 'dialog', 'aria-labelledby': 'modal-title', onSubmit: save },
+        h('h2', { id: 'modal-title', testid: 'modal-title' }, isActive(3) ? 'Edit Team Member' : 'User Information'),
+        splitName ? [
+          h('label', { for: 'user-first-name' }, 'First Name'),
+          h('input', { id: 'user-first-name', name: 'firstName', testid: 'first-name-input', value: nameParts[0] || '' }),
+          h('label', { for: 'user-last-name' }, 'Last Name'),
+          h('input', { id: 'user-last-name', name: 'lastName', testid: 'last-name-input', value: nameParts.slice(1).join(' ') }),
+        ] : [
+          h('label', { for: 'user-name' }, 'Name'),
+          h('input', { id: 'user-name', name: 'name', testid: 'name-input', value: user.name || '' }),
+        ],
+        h('label', { for: 'user-email' }, 'Email'),
+        h('input', { id: 'user-email', name: 'email', type: 'email', testid: 'email-input', value: user.email || '' }),
+        h('label', { for: 'user-department' }, 'Department'),
+        h('input', { id: 'user-department', name: 'department', testid: 'department-input', value: user.department || '' }),
+        h('label', { for: 'user-role' }, 'Role'),
+        h('select', { id: 'user-role', name: 'role', testid: 'role-select' },
+          ROLES.map(function (role) {
+            return h('option', { value: role, selected: (user.role || 'User') === role }, role);
+          })
+        ),
+        state.modal.error && h('p', { class: 'error', role: 'alert', testid: 'form-error' }, state.modal.error),
+        h('div', { class: 'actions' },
+          h('button', { type: 'submit', class: 'primary', testid: 'save-button', disabled: state.modal.saving }, 'Save'),
+          isActive(6)
+            ? h('a', { href: '#', testid: 'cancel-button', onClick: cancel }, 'Cancel')
+            : h('button', { type: 'button', testid: 'cancel-button', onClick: cancel }, 'Cancel')
+        )
+      )
+    );
+  }
+
+  function renderProfile() {
+    var user = state.currentUser || { name: 'Test User', email: 'test@example.com' };
+
+    return h('main', { class: 'page profile-page' },
+      h('div', { class: 'card' },
+        h('h1', { testid: 'profile-title' }, 'User Profile'),
+        h('p', null, 'Name: ', h('span', { testid: 'profile-name' }, user.name)),
+        h('p', null, 'Email: ', h('span', { testid: 'profile-email' }, user.email)),
+        h('nav', null,
+          link('/dashboard', 'dashboard-link', 'Back to Dashboard'),
+          h('button', { type: 'button', testid: 'logout-button', onClick: logout }, 'Logout')
+        )
+      )
+    );
+  }
+
+  function renderDevTools() {
+    var active = activeChanges();
+
+    function apply(id) {
+      if (!isActive(id)) setChanges(activeChanges().concat(id));
+      render();
+    }
+
+    return h('main', { class: 'page dev-page' },
+      h('h1', { testid: 'dev-tools-title' }, 'Dev Tools'),
+      h('div', { class: 'actions' },
+        CHANGES.map(function (change) {
+          return h('button', { type: 'button', testid: 'apply-change-' + change.id, onClick: function () { apply(change.id); } },
+            'Apply Change #' + change.id + ': ' + change.label);
+        }),
+        h('button', { type: 'button', testid: 'reset-changes', onClick: function () { setChanges([]); render(); } }, 'Reset All Changes')
+      ),
+      h('ul', { testid: 'change-log' },
+        active.length
+          ? CHANGES.filter(function (change) { return active.indexOf(change.id) !== -1; })
+            .map(function (change) { return h('li', null, change.log); })
+          : h('li', null, 'No changes applied')
+      ),
+      h('nav', null,
+        link('/login', 'nav-to-login', 'Go to Login'),
+        link('/dashboard', 'nav-to-dashboard', 'Go to Dashboard')
+      )
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Actions and routing
+  // ---------------------------------------------------------------------------
+
+  function openModal(user) {
+    state.modal = { user: user, draft: null, error: null, saving: false };
+    render();
+  }
+
+  function closeModal() {
+    state.modal = null;
+    render();
+  }
+
+  // Resolves to an error message, or null once the user is saved.
+  function saveUser(user, data) {
+    if (!state.api) {
+      if (user) {
+        Object.assign(user, data);
+      } else {
+        var nextId = state.users.reduce(function (max, item) { return Math.max(max, item.id); }, 0) + 1;
+        state.users.push(Object.assign({ id: nextId }, data));
+      }
+      return Promise.resolve(null);
+    }
+
+    var request = user ? api('PUT', '/api/users/' + user.id, data) : api('POST', '/api/users', data);
+    return request.then(function (result) {
+      if (!result.ok) return apiError('save user', result);
+      if (user) {
+        Object.assign(user, result.data);
+      } else {
+        state.users.push(result.data);
+      }
+      return null;
+    }, function () {
+      return apiError('save user', null);
+    });
+  }
+
+  function deleteUser(user) {
+    if (!window.confirm('Are you sure you want to delete ' + user.name + '?')) return;
+
+    var request = state.api ? api('DELETE', '/api/users/' + user.id) : Promise.resolve({ ok: true });
+    request.then(function (result) {
+      state.error = result.ok ? null : apiError('delete ' + user.name, result);
+      if (result.ok) {
+        state.users = state.users.filter(function (item) { return item.id !== user.id; });
+      }
+      render();
+    }, function () {
+      state.error = apiError('delete ' + user.name, null);
+      render();
+    });
+  }
+
+  function logout() {
+    state.currentUser = null;
+    localStorage.removeItem(SESSION_KEY);
+    navigate('/login');
+  }
+
+  var ROUTES = {
+    '/login': renderLogin,
+    '/dashboard': renderDashboard,
+    '/profile': renderProfile,
+    '/dev': renderDevTools,
+  };
+
+  function navigate(path) {
+    state.modal = null;
+    state.menuOpen = false;
+    history.pushState(null, '', path);
+    render();
+  }
+
+  function render() {
+    var page = ROUTES[location.pathname];
+    if (!page || (PROTECTED_ROUTES.indexOf(location.pathname) !== -1 && !state.currentUser)) {
+      history.replaceState(null, '', '/login');
+      page = renderLogin;
+    }
+
+    if (state.renderedPath !== location.pathname) {
+      state.renderedPath = location.pathname;
+      state.tableReadyAt = isActive(9) ? Date.now() + TABLE_DELAY_MS : 0;
+    }
+
+    var root = document.getElementById('app');
+    root.replaceChildren(page());
+  }
+
+  window.addEventListener('popstate', render);
+  render();
+  loadUsers();
+})();
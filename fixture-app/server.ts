@@ -0,0 +1,71 @@
+/**
+ * Fixture App Server
+ *
+ * Serves a lightweight stand-in of the Dummy QA app so the suite can run
+ * without the Angular app or the network. Every path that is not a static
+ * asset gets index.html, like the real SPA.
+ *
+ * There is no users API: /api/* answers 404 and the app keeps users in
+ * memory, unless a test serves it (tests/helpers/users-api.ts).
+ *
+ * UI change scenarios listed in APP_UI_CHANGES (default: UI_CHANGES) are
+ * active by default in every new browser session, as if someone had applied
+ * them on /dev.
+ *
+ *   npm run fixture-app              # http://localhost:4300
+ *   PORT=5000 npm run fixture-app
+ */
+
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { UI_CHANGE_SCENARIOS, parseScenarioIds } from '../tests/helpers/ui-scenarios';
+
+export const FIXTURE_APP_PORT = 4300;
+
+const PUBLIC_DIR = path.join(__dirname, 'public');
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+};
+
+export function createFixtureServer(uiChanges = process.env.APP_UI_CHANGES ?? process.env.UI_CHANGES): http.Server {
+  const config = {
+    changes: parseScenarioIds(uiChanges).map(id => UI_CHANGE_SCENARIOS[id].mutation.change),
+  };
+
+  return http.createServer((request, response) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+
+    if (url.pathname === '/config.js') {
+      response.writeHead(200, { 'Content-Type': CONTENT_TYPES['.js'], 'Cache-Control': 'no-store' });
+      response.end(`window.FIXTURE_CONFIG = ${JSON.stringify(config)};\n`);
+      return;
+    }
+
+    if (url.pathname.startsWith('/api/')) {
+      response.writeHead(404, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+      response.end(JSON.stringify({ error: 'Not found' }));
+      return;
+    }
+
+    const asset = path.normalize(path.join(PUBLIC_DIR, url.pathname));
+    const isAsset = asset.startsWith(PUBLIC_DIR) && path.extname(asset) && fs.existsSync(asset);
+    const file = isAsset ? asset : path.join(PUBLIC_DIR, 'index.html');
+
+    response.writeHead(200, {
+      'Content-Type': CONTENT_TYPES[path.extname(file)] || 'application/octet-stream',
+      'Cache-Control': 'no-store',
+    });
+    fs.createReadStream(file).pipe(response);
+  });
+}
+
+if (require.main === module) {
+  const port = Number(process.env.PORT || FIXTURE_APP_PORT);
+  createFixtureServer().listen(port, () => {
+    console.log(`Fixture app running at http://localhost:${port}`);
+  });
+}
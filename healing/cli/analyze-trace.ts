@@ -0,0 +1,76 @@
+/**
+ * Analyze Trace CLI
+ *
+ * Turns trace archives into FailureContext JSON (see trace-analyzer.ts): the
+ * failing action and locator, the expected value, the last DOM snapshot, and
+ * console errors and failed requests. Without arguments, analyzes the trace
+ * of every failure in the triage report, named after its test.
+ *
+ *   npm run analyze-trace
+ *   npm run analyze-trace -- test-results/login-should-have-correct-button-text-chromium-retry1/trace.zip
+ *   npm run analyze-trace -- path/to/trace.zip --project firefox --out failure.json
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { FailureContext } from '../strategy';
+import { analyzeTrace } from '../trace-analyzer';
+import { TriageReport } from '../triage-reporter';
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    triage: { type: 'string', default: 'test-results/healing-triage.json' },
+    out: { type: 'string', default: 'test-results/healing/trace-contexts.json' },
+    /** Test title and project for traces given as arguments. */
+    title: { type: 'string' },
+    project: { type: 'string' },
+  },
+});
+
+/** Trace archives to analyze, with what is known about their test. */
+function traces(): { file: string; test: Partial<FailureContext['test']> }[] {
+  if (positionals.length) {
+    return positionals.map(file => ({ file, test: { title: values.title, project: values.project } }));
+  }
+
+  const triagePath = path.resolve(values.triage!);
+  if (!fs.existsSync(triagePath)) {
+    console.error(`Triage report not found: ${triagePath}. Run the suite first, or pass trace files.`);
+    process.exit(1);
+  }
+
+  const report = JSON.parse(fs.readFileSync(triagePath, 'utf-8')) as TriageReport;
+  return report.failures.flatMap(failure => {
+    const trace = failure.attachments.find(attachment => attachment.name === 'trace')?.path;
+    return trace ? [{ file: trace, test: { title: failure.title, file: failure.file, line: failure.line, project: failure.project } }] : [];
+  });
+}
+
+const contexts: FailureContext[] = [];
+let failed = 0;
+
+for (const { file, test } of traces()) {
+  try {
+    const context = analyzeTrace(file, test);
+    contexts.push(context);
+
+    console.log(`  [${context.test.project}] ${context.test.title}: ${context.category}`);
+    console.log(`    ${context.trace?.action ? `${context.trace.action.title} on ${context.locator.selector ?? 'the page'}` : context.error.split('\n')[0]}`);
+    if (context.expected) console.log(`    expected ${JSON.stringify(context.expected.value)}${context.expected.source ? ` (${context.expected.source})` : ''}`);
+    if (context.trace?.url) console.log(`    page ${context.trace.url}${context.snapshot ? `, ${context.snapshot.nodes.length} elements` : ''}`);
+    const { consoleErrors = [], networkFailures = [] } = context.trace || {};
+    if (consoleErrors.length || networkFailures.length) {
+      console.log(`    ${consoleErrors.length} console error(s), ${networkFailures.length} failed request(s)`);
+    }
+  } catch (error) {
+    failed++;
+    console.error(`  ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+fs.mkdirSync(path.dirname(values.out!), { recursive: true });
+fs.writeFileSync(values.out!, JSON.stringify(contexts, null, 2));
+console.log(`${contexts.length} trace(s) analyzed${failed ? `, ${failed} failed` : ''}; written to ${values.out}`);
+if (failed) process.exitCode = 1;
@@ -0,0 +1,92 @@
+/**
+ * Page Object Generator CLI
+ *
+ * Logs in, visits every view in POM_VIEWS (see healing/pom-generator.ts) and
+ * rewrites the generated regions of its class in tests/helpers/page-objects.ts.
+ * With --check nothing is written and the exit code says whether any class is
+ * out of date.
+ *
+ *   npm run generate:poms -- --fixture                 # against the bundled fixture app
+ *   npm run generate:poms -- --base-url http://localhost:4200 --view LoginPage
+ *   npm run generate:poms -- --fixture --check
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { parseArgs } from 'util';
+import { chromium } from '@playwright/test';
+import { createFixtureServer } from '../../fixture-app/server';
+import { LoginPage } from '../../tests/helpers/page-objects';
+import { TEST_USERS } from '../../tests/helpers/test-data';
+import { DEFAULT_PAGE_OBJECTS_FILE } from '../patcher';
+import { collectView, POM_VIEWS, updatePageObject } from '../pom-generator';
+
+const { values } = parseArgs({
+  options: {
+    'base-url': { type: 'string', default: process.env.BASE_URL || 'http://localhost:4200' },
+    fixture: { type: 'boolean', default: false },
+    view: { type: 'string', multiple: true },
+    file: { type: 'string', default: DEFAULT_PAGE_OBJECTS_FILE },
+    check: { type: 'boolean', default: false },
+  },
+});
+
+async function main() {
+  const views = values.view?.length
+    ? POM_VIEWS.filter(view => values.view!.includes(view.className))
+    : POM_VIEWS;
+
+  const server = values.fixture ? createFixtureServer('') : undefined;
+  if (server) {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  }
+  const baseURL = server
+    ? `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    : values['base-url']!;
+
+  const browser = await chromium.launch();
+  const outdated: string[] = [];
+
+  try {
+    const page = await browser.newPage({ baseURL });
+    const loginPage = new LoginPage(page);
+    await loginPage.goto();
+    await loginPage.login(TEST_USERS.login.email, TEST_USERS.login.password);
+    await page.waitForURL(/dashboard/);
+
+    const original = fs.readFileSync(values.file!, 'utf-8');
+    let source = original;
+
+    for (const view of views) {
+      const elements = await collectView(page, view);
+      const updated = updatePageObject(source, view, elements);
+
+      if (updated === source) {
+        console.log(`  ${view.className.padEnd(16)} up to date`);
+        continue;
+      }
+
+      outdated.push(view.className);
+      console.log(`  ${view.className.padEnd(16)} ${values.check ? 'out of date' : `updated from ${elements.length} test ids`}`);
+      source = updated;
+    }
+
+    if (!values.check && source !== original) {
+      fs.writeFileSync(values.file!, source);
+    }
+  } finally {
+    await browser.close();
+    server?.close();
+  }
+
+  if (values.check && outdated.length) {
+    console.error(`${outdated.length} page object(s) out of date in ${values.file}; run npm run generate:poms to update them.`);
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
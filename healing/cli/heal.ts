@@ -0,0 +1,87 @@
+/**
+ * Heal CLI
+ *
+ * Reads the triage report, plans source edits and writes a unified diff plus
+ * a markdown rationale. DOM diffs attached to failures (`dom-diff`) are passed
+ * to the planner as context. Dry run by default; pass --apply to edit the files.
+ *
+ * With --review, plans only the proposals accepted in `npm run review`
+ * instead of reading the triage report.
+ *
+ *   npm run heal
+ *   npm run heal -- --triage test-results/healing-triage.json --out test-results/healing --apply
+ *   npm run heal -- --review test-results/healing/review.json --apply
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { FingerprintStore } from '../../tests/helpers/fingerprint';
+import { HEALING_CONFIG } from '../../tests/helpers/healing-config';
+import { SnapshotDiff } from '../../tests/helpers/dom-snapshot';
+import { TriageEntry, TriageReport } from '../triage-reporter';
+import { HealPlan, patchedFiles, planHeals, planReviewedHeals, renderDiff, renderRationale } from '../patcher';
+import { ReviewFile } from '../review';
+
+const { values } = parseArgs({
+  options: {
+    triage: { type: 'string', default: 'test-results/healing-triage.json' },
+    out: { type: 'string', default: 'test-results/healing' },
+    review: { type: 'string' },
+    apply: { type: 'boolean', default: false },
+  },
+});
+
+const rootDir = path.resolve(__dirname, '..', '..');
+const inputPath = path.resolve(values.review ?? values.triage!);
+
+if (!fs.existsSync(inputPath)) {
+  console.error(values.review
+    ? `Review not found: ${inputPath}. Run npm run review first.`
+    : `Triage report not found: ${inputPath}. Run the suite first.`);
+  process.exit(1);
+}
+
+function domDiffOf(failure: TriageEntry): SnapshotDiff | undefined {
+  const attachment = failure.attachments.find(candidate => candidate.name === 'dom-diff');
+  return attachment?.path && fs.existsSync(attachment.path)
+    ? JSON.parse(fs.readFileSync(attachment.path, 'utf-8')) as SnapshotDiff
+    : undefined;
+}
+
+function planFromTriage(): HealPlan {
+  const report = JSON.parse(fs.readFileSync(inputPath, 'utf-8')) as TriageReport;
+  const failures = report.failures
+    .filter(failure => failure.needsHealing)
+    .map(failure => ({ ...failure, domDiff: domDiffOf(failure) }));
+
+  return planHeals(failures, {
+    rootDir,
+    fingerprints: new FingerprintStore(HEALING_CONFIG.fingerprintStore).load(),
+  });
+}
+
+const plan = values.review
+  ? planReviewedHeals((JSON.parse(fs.readFileSync(inputPath, 'utf-8')) as ReviewFile).decisions, { rootDir })
+  : planFromTriage();
+
+const files = patchedFiles(plan, rootDir);
+const diff = renderDiff(files);
+const rationale = renderRationale(plan);
+
+fs.mkdirSync(values.out!, { recursive: true });
+fs.writeFileSync(path.join(values.out!, 'heal.patch'), diff);
+fs.writeFileSync(path.join(values.out!, 'heal-rationale.md'), rationale);
+
+console.log(diff || 'No changes.');
+console.log(`${plan.patches.length} heal(s) planned, ${plan.skipped.length} need manual review.`);
+console.log(`Diff and rationale written to ${values.out}`);
+
+if (values.apply) {
+  for (const file of files) {
+    fs.writeFileSync(path.join(rootDir, file.file), file.after);
+  }
+  console.log(`Applied changes to ${files.length} file(s).`);
+} else if (files.length) {
+  console.log('Dry run: re-run with --apply to write these changes.');
+}
@@ -0,0 +1,62 @@
+/**
+ * Fragility Lint CLI
+ *
+ * Scores every test in tests/**\/*.spec.ts for fragile selectors and waits
+ * (see fragility.ts) and writes fragility.json plus fragility.md. Pass
+ * --max-score to fail when any test scores higher, e.g. in CI.
+ *
+ *   npm run lint:fragility
+ *   npm run lint:fragility -- --out test-results/fragility --max-score 6
+ */
+
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { parseArgs } from 'util';
+import { FragilityAnalyzer, findSpecFiles, renderMarkdown } from '../fragility';
+
+const { values } = parseArgs({
+  options: {
+    tests: { type: 'string', default: 'tests' },
+    out: { type: 'string', default: 'test-results/fragility' },
+    'max-score': { type: 'string' },
+  },
+});
+
+const rootDir = path.resolve(__dirname, '..', '..');
+const configFile = path.join(rootDir, 'tsconfig.json');
+const { config } = ts.readConfigFile(configFile, ts.sys.readFile);
+const parsed = ts.parseJsonConfigFileContent(config, ts.sys, rootDir);
+
+const program = ts.createProgram(parsed.fileNames, { ...parsed.options, noEmit: true });
+const specFiles = findSpecFiles(program, path.resolve(values.tests!));
+
+if (!specFiles.length) {
+  console.error(`No spec files found under ${values.tests}.`);
+  process.exit(1);
+}
+
+const report = new FragilityAnalyzer(program, rootDir).analyze(specFiles);
+
+fs.mkdirSync(values.out!, { recursive: true });
+fs.writeFileSync(path.join(values.out!, 'fragility.json'), JSON.stringify(report, null, 2));
+fs.writeFileSync(path.join(values.out!, 'fragility.md'), renderMarkdown(report));
+
+console.log(`${report.summary.fragileTests} of ${report.summary.tests} test(s) use fragile patterns `
+  + `(total score ${report.summary.totalScore}).`);
+
+for (const test of report.tests.filter(test => test.score > 0)) {
+  console.log(`  ${String(test.score).padStart(3)}  ${test.title}  (${test.file}:${test.line})`);
+}
+
+console.log(`Report written to ${values.out}`);
+
+if (values['max-score'] !== undefined) {
+  const maxScore = Number(values['max-score']);
+  const over = report.tests.filter(test => test.score > maxScore);
+
+  if (over.length) {
+    console.error(`${over.length} test(s) score above --max-score ${maxScore}.`);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Mutation Testing CLI
+ *
+ * Runs the browser projects against the offline fixture app once without
+ * mutations and once per DOM mutation (see tests/helpers/mutations.ts), then
+ * writes the robustness matrix (mutation × test → survived/killed) as
+ * robustness-matrix.json and robustness-matrix.md. The `unit` project is
+ * left out: no page, nothing to mutate.
+ *
+ *   npm run mutate
+ *   npm run mutate -- --mutation button-text --mutation wrap-fields+table-column --project chromium
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { spawnSync } from 'child_process';
+import { parseArgs } from 'util';
+import { BROWSER_PROJECTS } from '../../playwright.config';
+import { MUTATIONS, parseMutationIds } from '../../tests/helpers/mutations';
+import { buildMatrix, MutationRun, renderMatrixMarkdown } from '../mutation-matrix';
+
+const { values } = parseArgs({
+  options: {
+    mutation: { type: 'string', multiple: true },
+    project: { type: 'string', multiple: true },
+    out: { type: 'string', default: 'test-results/mutations' },
+  },
+});
+
+const rootDir = path.resolve(__dirname, '..', '..');
+const outDir = path.resolve(values.out!);
+const mutations = values.mutation?.length ? values.mutation : Object.keys(MUTATIONS);
+const browserProjects = BROWSER_PROJECTS.map(project => project.name);
+const projects = values.project?.length ? values.project : browserProjects;
+
+const notBrowsers = projects.filter(project => !browserProjects.includes(project));
+if (notBrowsers.length) {
+  console.error(`Not a browser project: ${notBrowsers.join(', ')}. Choose from ${browserProjects.join(', ')}.`);
+  process.exit(1);
+}
+
+function run(mutation: string): MutationRun {
+  const ids = parseMutationIds(mutation.replace(/\+/g, ','));
+  const outputFile = path.join(outDir, 'runs', `${mutation.replace(/[^\w-]+/g, '_') || 'none'}.json`);
+
+  console.log(`\n=== ${mutation || 'no mutations'} ===`);
+  fs.rmSync(outputFile, { force: true });
+
+  spawnSync('npx', [
+    'playwright', 'test',
+    '--reporter=dot,./healing/mutation-reporter.ts',
+    ...projects.map(project => `--project=${project}`),
+  ], {
+    cwd: rootDir,
+    stdio: 'inherit',
+    env: {
+      ...process.env,
+      TEST_APP: 'fixture',
+      APP_UI_CHANGES: '',
+      UI_CHANGES: '',
+      MUTATIONS: ids.join(','),
+      MUTATION_OUTPUT: outputFile,
+    },
+  });
+
+  if (!fs.existsSync(outputFile)) {
+    console.error(`No results written for ${mutation || 'the unmutated run'}; the run did not complete.`);
+    process.exit(1);
+  }
+
+  return JSON.parse(fs.readFileSync(outputFile, 'utf-8')) as MutationRun;
+}
+
+const baseline = run('');
+const matrix = buildMatrix(baseline, mutations.map(run));
+
+fs.mkdirSync(outDir, { recursive: true });
+fs.writeFileSync(path.join(outDir, 'robustness-matrix.json'), JSON.stringify(matrix, null, 2));
+fs.writeFileSync(path.join(outDir, 'robustness-matrix.md'), renderMatrixMarkdown(matrix));
+
+console.log('\nRobustness matrix:');
+for (const mutation of matrix.mutations) {
+  const { killed, survived, score } = matrix.summary[mutation];
+  console.log(`  ${mutation.padEnd(30)} ${String(killed).padStart(3)} killed  ${String(survived).padStart(3)} survived  ${Math.round(score * 100)}%`);
+}
+if (matrix.brokenWithoutMutations.length) {
+  console.log(`  ${matrix.brokenWithoutMutations.length} test(s) fail without mutations and are left out.`);
+}
+console.log(`Written to ${values.out}`);
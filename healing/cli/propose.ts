@@ -0,0 +1,96 @@
+/**
+ * Propose CLI
+ *
+ * Builds a FailureContext for every failure in the triage report that needs
+ * healing and asks the configured HealingStrategy for proposals. Writes
+ * proposals.json (context + proposals per failure, with the screenshot, DOM
+ * diff and trace paths for review) to the output directory. A failure's
+ * trace archive, when one was kept, adds the failing action, final DOM,
+ * console errors and failed requests to its context (see trace-analyzer.ts).
+ * Proposals rejected in an earlier review are dropped.
+ *
+ *   npm run propose
+ *   npm run propose -- --strategy http --endpoint http://localhost:4310/propose
+ *   npm run propose -- --strategy offline --strategy http
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { HEALING_CONFIG } from '../../tests/helpers/healing-config';
+import { RejectionStore } from '../review';
+import { TriageEntry, TriageReport } from '../triage-reporter';
+import { buildFailureContext, createStrategy, ProposalEntry } from '../strategy';
+import { analyzeTrace } from '../trace-analyzer';
+
+const { values } = parseArgs({
+  options: {
+    triage: { type: 'string', default: 'test-results/healing-triage.json' },
+    out: { type: 'string', default: 'test-results/healing' },
+    strategy: { type: 'string', multiple: true },
+    endpoint: { type: 'string', default: HEALING_CONFIG.strategyEndpoint },
+  },
+});
+
+function evidenceOf(failure: TriageEntry): ProposalEntry['evidence'] {
+  const pathOf = (name: string) => failure.attachments.find(attachment => attachment.name === name)?.path;
+  return { screenshot: pathOf('screenshot'), domDiff: pathOf('dom-diff'), trace: pathOf('trace') };
+}
+
+async function main() {
+  const triagePath = path.resolve(values.triage!);
+  if (!fs.existsSync(triagePath)) {
+    console.error(`Triage report not found: ${triagePath}. Run the suite first.`);
+    process.exit(1);
+  }
+
+  const strategies = (values.strategy?.length ? values.strategy : [HEALING_CONFIG.strategy])
+    .map(name => createStrategy(name, { endpoint: values.endpoint! }));
+
+  const report = JSON.parse(fs.readFileSync(triagePath, 'utf-8')) as TriageReport;
+  const rejections = new RejectionStore(HEALING_CONFIG.rejectedProposals);
+  const entries: ProposalEntry[] = [];
+
+  for (const failure of report.failures.filter(candidate => candidate.needsHealing)) {
+    const context = buildFailureContext(failure);
+    const entry: ProposalEntry = { context, proposals: [], errors: {}, evidence: evidenceOf(failure) };
+
+    if (entry.evidence?.trace && fs.existsSync(entry.evidence.trace)) {
+      try {
+        const fromTrace = analyzeTrace(entry.evidence.trace, context.test);
+        context.trace = fromTrace.trace;
+        context.snapshot ??= fromTrace.snapshot;
+      } catch (error) {
+        entry.errors.trace = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    for (const strategy of strategies) {
+      try {
+        entry.proposals.push(...(await strategy.propose(context)).filter(proposal => !rejections.has(proposal)));
+      } catch (error) {
+        entry.errors[strategy.name] = error instanceof Error ? error.message : String(error);
+      }
+    }
+    entry.proposals.sort((a, b) => b.confidence - a.confidence);
+    entries.push(entry);
+  }
+
+  fs.mkdirSync(values.out!, { recursive: true });
+  fs.writeFileSync(path.join(values.out!, 'proposals.json'), JSON.stringify(entries, null, 2));
+
+  console.log(`Strategies: ${strategies.map(strategy => strategy.name).join(', ')}`);
+  for (const { context, proposals, errors } of entries) {
+    const best = proposals[0];
+    console.log(`  [${context.test.project}] ${context.test.title}`);
+    console.log(best
+      ? `    ${best.target}: ${best.before} -> ${best.after} (${Math.round(best.confidence * 100)}%, ${best.strategy})`
+      : '    no proposal');
+    for (const [name, message] of Object.entries(errors)) {
+      console.log(`    ${name} failed: ${message}`);
+    }
+  }
+  console.log(`${entries.length} failure(s); written to ${path.join(values.out!, 'proposals.json')}`);
+}
+
+main();
@@ -0,0 +1,149 @@
+/**
+ * Review CLI
+ *
+ * Lists the pending heal proposals from `npm run propose` (original and
+ * proposed locator or text, confidence, the failing tests, and the DOM diff,
+ * screenshot and trace paths) and records a decision for each (see
+ * review.ts). A policy file decides what it can; in a terminal the reviewer is
+ * asked about the rest (accept, reject, edit or skip), otherwise they stay
+ * pending. Writes review.json for `npm run heal -- --review` and remembers
+ * rejected proposals in healing/rejected-proposals.json.
+ *
+ *   npm run review
+ *   npm run review -- --policy healing/review-policy.yaml --batch
+ *   npm run review -- --list
+ */
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline/promises';
+import { parseArgs } from 'util';
+import { HEALING_CONFIG } from '../../tests/helpers/healing-config';
+import {
+  applyPolicy, decide, loadPolicy, RejectionStore, ReviewDecision, ReviewFile, ReviewItem, ReviewPolicy, reviewItems,
+} from '../review';
+import { ProposalEntry } from '../strategy';
+
+const { values } = parseArgs({
+  options: {
+    proposals: { type: 'string', default: 'test-results/healing/proposals.json' },
+    policy: { type: 'string' },
+    out: { type: 'string', default: 'test-results/healing/review.json' },
+    /** Never prompt; whatever the policy leaves undecided stays pending. */
+    batch: { type: 'boolean', default: false },
+    list: { type: 'boolean', default: false },
+  },
+});
+
+function printItem(item: ReviewItem, index: number, total: number) {
+  const { proposal, evidence } = item;
+  console.log(`\n[${index + 1}/${total}] ${proposal.kind} ${proposal.target} (${proposal.strategy}, ${Math.round(proposal.confidence * 100)}%)`);
+  console.log(`  before: ${proposal.before}`);
+  console.log(`  after:  ${proposal.after}`);
+  console.log(`  why:    ${proposal.rationale}`);
+  item.tests.forEach(test => console.log(`  test:   [${test.project}] ${test.title} (${test.file}:${test.line})`));
+  for (const [name, file] of Object.entries(evidence)) {
+    if (file) console.log(`  ${name}: ${file}`);
+  }
+}
+
+/** Text proposals hold JSON; a reviewer may type the bare text. */
+function editedValue(item: ReviewItem, input: string): string {
+  if (item.proposal.kind !== 'text') return input;
+  try {
+    JSON.parse(input);
+    return input;
+  } catch {
+    return JSON.stringify(input);
+  }
+}
+
+async function ask(prompt: readline.Interface, item: ReviewItem): Promise<ReviewDecision | 'skip' | 'quit'> {
+  for (;;) {
+    const answer = (await prompt.question('  Accept, reject, edit, skip or quit? [a/r/e/s/q] ')).trim().toLowerCase();
+    switch (answer) {
+      case 'a':
+        return decide(item, 'accepted', 'reviewer');
+      case 'r':
+        return decide(item, 'rejected', 'reviewer');
+      case 'e': {
+        const after = (await prompt.question(`  New value (${item.proposal.after}): `)).trim();
+        if (after) return decide(item, 'accepted', 'reviewer', editedValue(item, after));
+        break;
+      }
+      case 's':
+        return 'skip';
+      case 'q':
+        return 'quit';
+    }
+  }
+}
+
+async function main() {
+  if (!fs.existsSync(values.proposals!)) {
+    console.error(`Proposals not found: ${values.proposals}. Run npm run propose first.`);
+    process.exit(1);
+  }
+
+  const entries = JSON.parse(fs.readFileSync(values.proposals!, 'utf-8')) as ProposalEntry[];
+  const rejections = new RejectionStore(HEALING_CONFIG.rejectedProposals);
+  const items = reviewItems(entries, rejections);
+  const policy: ReviewPolicy | undefined = values.policy ? loadPolicy(values.policy) : undefined;
+
+  if (values.list) {
+    items.forEach((item, index) => printItem(item, index, items.length));
+    console.log(`\n${items.length} pending proposal(s).`);
+    return;
+  }
+
+  const interactive = !values.batch && process.stdin.isTTY;
+  const prompt = interactive ? readline.createInterface({ input: process.stdin, output: process.stdout }) : undefined;
+  const decisions: ReviewDecision[] = [];
+  const pending: ReviewItem[] = [];
+  let quit = false;
+
+  try {
+    for (const [index, item] of items.entries()) {
+      printItem(item, index, items.length);
+
+      const rule = policy && applyPolicy(policy, item.proposal);
+      if (rule && rule.decision !== 'pending') {
+        const decision = decide(item, rule.decision === 'accept' ? 'accepted' : 'rejected', `policy rule ${rule.rule}`);
+        console.log(`  ${decision.verdict} by ${decision.decidedBy}`);
+        decisions.push(decision);
+        continue;
+      }
+
+      const answer = prompt && !quit ? await ask(prompt, item) : 'skip';
+      if (answer === 'quit') quit = true;
+      if (typeof answer === 'string') {
+        if (!prompt) console.log('  pending');
+        pending.push(item);
+      } else {
+        decisions.push(answer);
+      }
+    }
+  } finally {
+    prompt?.close();
+  }
+
+  const review: ReviewFile = { generatedAt: new Date().toISOString(), decisions, pending };
+  fs.mkdirSync(path.dirname(values.out!), { recursive: true });
+  fs.writeFileSync(values.out!, JSON.stringify(review, null, 2));
+
+  const rejected = decisions.filter(decision => decision.verdict === 'rejected');
+  if (rejected.length) {
+    rejections.add(rejected.map(decision => decision.proposal));
+  }
+
+  const accepted = decisions.length - rejected.length;
+  console.log(`\n${accepted} accepted, ${rejected.length} rejected, ${pending.length} pending. Review written to ${values.out}`);
+  if (accepted) {
+    console.log(`Next: npm run heal -- --review ${values.out} (add --apply to write the changes)`);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,100 @@
+/**
+ * Test Id Coverage CLI
+ *
+ * Crawls every page object view (see pom-generator.ts), collects the rendered
+ * test ids and cross-references them with the page object locators and raw
+ * `getByTestId` calls in specs (see testid-coverage.ts). Writes coverage.json
+ * and coverage.html. Pass --min-coverage to fail below a percentage.
+ *
+ *   npm run coverage:testids -- --fixture
+ *   npm run coverage:testids -- --base-url http://localhost:4200 --min-coverage 80
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { parseArgs } from 'util';
+import { chromium } from '@playwright/test';
+import { createFixtureServer } from '../../fixture-app/server';
+import { LoginPage } from '../../tests/helpers/page-objects';
+import { ROUTES, TEST_USERS } from '../../tests/helpers/test-data';
+import { collectView, POM_VIEWS } from '../pom-generator';
+import { buildCoverageReport, CrawledPage, renderCoverageHtml, scanTestIdReferences } from '../testid-coverage';
+
+const { values } = parseArgs({
+  options: {
+    'base-url': { type: 'string', default: process.env.BASE_URL || 'http://localhost:4200' },
+    fixture: { type: 'boolean', default: false },
+    tests: { type: 'string', default: 'tests' },
+    out: { type: 'string', default: 'test-results/testid-coverage' },
+    'min-coverage': { type: 'string' },
+  },
+});
+
+const rootDir = path.resolve(__dirname, '..', '..');
+
+function specFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { recursive: true, encoding: 'utf-8' })
+    .filter(file => file.endsWith('.spec.ts'))
+    .map(file => path.join(dir, file));
+}
+
+async function crawl(): Promise<CrawledPage[]> {
+  const server = values.fixture ? createFixtureServer('') : undefined;
+  if (server) {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  }
+  const baseURL = server
+    ? `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    : values['base-url']!;
+
+  const browser = await chromium.launch();
+  try {
+    const page = await browser.newPage({ baseURL });
+    const loginPage = new LoginPage(page);
+    await loginPage.goto();
+    await loginPage.login(TEST_USERS.login.email, TEST_USERS.login.password);
+    await page.waitForURL(/dashboard/);
+
+    const pages: CrawledPage[] = [];
+    for (const view of POM_VIEWS) {
+      const elements = await collectView(page, view);
+      pages.push({ name: view.className, route: ROUTES[view.route], testIds: elements.map(element => element.testId) });
+    }
+    return pages;
+  } finally {
+    await browser.close();
+    server?.close();
+  }
+}
+
+async function main() {
+  const references = [
+    ...scanTestIdReferences(path.join(rootDir, 'tests', 'helpers', 'page-objects.ts'), 'pom', rootDir),
+    ...specFiles(path.resolve(values.tests!)).flatMap(file => scanTestIdReferences(file, 'spec', rootDir)),
+  ];
+  const report = buildCoverageReport(await crawl(), references);
+
+  fs.mkdirSync(values.out!, { recursive: true });
+  fs.writeFileSync(path.join(values.out!, 'coverage.json'), JSON.stringify(report, null, 2));
+  fs.writeFileSync(path.join(values.out!, 'coverage.html'), renderCoverageHtml(report));
+
+  console.log(`Test id coverage: ${report.summary.covered}/${report.summary.testIds} (${report.summary.percent}%)`);
+  for (const page of report.pages) {
+    console.log(`  ${page.name.padEnd(16)} ${String(page.percent).padStart(3)}%  ${page.untested.length} untested`);
+  }
+  for (const reference of report.deadLocators) {
+    console.log(`  dead: ${reference.testId} (${reference.owner}, ${reference.file}:${reference.line})`);
+  }
+  console.log(`Report written to ${values.out}`);
+
+  if (values['min-coverage'] !== undefined && report.summary.percent < Number(values['min-coverage'])) {
+    console.error(`Coverage ${report.summary.percent}% is below --min-coverage ${values['min-coverage']}.`);
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
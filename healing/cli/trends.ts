@@ -0,0 +1,66 @@
+/**
+ * Heal Trends CLI
+ *
+ * Reports on the heal history the suite appends to (see history.ts): the
+ * locators and UI_TEXT values that needed healing most often, flaky tests
+ * vs consistently broken ones, and the mean time from a test's first failure
+ * to its next pass. Writes the full report as JSON.
+ *
+ *   npm run trends
+ *   npm run trends -- --window 20 --top 5 --project chromium
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { HEALING_CONFIG } from '../../tests/helpers/healing-config';
+import { buildHistoryReport, formatDuration, readHistory, TestStability } from '../history';
+
+const { values } = parseArgs({
+  options: {
+    history: { type: 'string', default: HEALING_CONFIG.historyFile },
+    window: { type: 'string', default: '10' },
+    top: { type: 'string', default: '10' },
+    project: { type: 'string' },
+    out: { type: 'string', default: 'test-results/healing/trends.json' },
+  },
+});
+
+const records = readHistory(values.history!)
+  .filter(record => !values.project || record.project === values.project);
+
+if (!records.length) {
+  console.error(`No heal history in ${values.history}${values.project ? ` for project ${values.project}` : ''}. Run the suite first.`);
+  process.exit(1);
+}
+
+const report = buildHistoryReport(records, { window: Number(values.window) });
+const top = Number(values.top);
+
+fs.mkdirSync(path.dirname(values.out!), { recursive: true });
+fs.writeFileSync(values.out!, JSON.stringify(report, null, 2));
+
+const testLine = (test: TestStability) =>
+  `  [${test.project}] ${test.test}${test.scenarios.length ? ` (with ${test.scenarios.join(' + ')})` : ''}\n`
+  + `    ${test.failures}/${test.runs} failed, ${test.flips} flip(s)`
+  + `${test.categories.length ? `, ${test.categories.join(', ')}` : ''}`;
+
+console.log(`Heal history: ${records.length} result(s) over ${report.runs} run(s), last ${report.window} run(s) per test`);
+
+console.log(`\nMost healed locators (top ${top}):`);
+if (!report.targets.length) console.log('  none');
+for (const target of report.targets.slice(0, top)) {
+  console.log(`  ${target.target.padEnd(36)} healed ${target.healed}, proposed ${target.proposed}, missed ${target.missed}`
+    + ` in ${target.tests.length} test(s)`);
+}
+
+for (const trend of ['broken', 'flaky'] as const) {
+  const tests = report.tests.filter(test => test.trend === trend);
+  console.log(`\n${trend === 'broken' ? 'Consistently broken' : 'Flaky'}: ${tests.length}`);
+  tests.slice(0, top).forEach(test => console.log(testLine(test)));
+}
+
+console.log(report.meanTimeToHealMs === undefined
+  ? '\nMean time to heal: no broken test has passed again yet'
+  : `\nMean time to heal: ${formatDuration(report.meanTimeToHealMs)} over ${report.healedStreaks} healed failure streak(s)`);
+console.log(`Report written to ${values.out}`);
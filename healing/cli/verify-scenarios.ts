@@ -0,0 +1,101 @@
+/**
+ * Scenario Verification CLI
+ *
+ * Applies UI change scenarios to the offline fixture app, runs the suite
+ * against each one and checks the results against the expected-failure
+ * manifest. Exits non-zero when any run has unexpected passes, unexpected
+ * failures or drift.
+ *
+ * Each run starts its own fixture app on a dedicated port (default 4301), so a
+ * dev server left on 4300 with other scenarios applied is never reused, and
+ * is stopped after --timeout minutes.
+ *
+ *   npm run verify:scenarios                                   # every manifest entry
+ *   npm run verify:scenarios -- --scenario login-button-text,department-column
+ *   npm run verify:scenarios -- --phase healed --project chromium
+ *   npm run verify:scenarios -- --port 4350 --timeout 10
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { spawnSync } from 'child_process';
+import { parseArgs } from 'util';
+import { FIXTURE_APP_PORT } from '../../fixture-app/server';
+import { parseScenarioIds } from '../../tests/helpers/ui-scenarios';
+import { DEFAULT_MANIFEST_FILE, loadManifest, ManifestCheck } from '../manifest';
+
+const { values } = parseArgs({
+  options: {
+    scenario: { type: 'string', multiple: true },
+    manifest: { type: 'string', default: DEFAULT_MANIFEST_FILE },
+    phase: { type: 'string', default: 'broken' },
+    project: { type: 'string', multiple: true },
+    out: { type: 'string', default: 'test-results/manifest' },
+    port: { type: 'string', default: String(FIXTURE_APP_PORT + 1) },
+    /** Minutes a single scenario run may take. */
+    timeout: { type: 'string', default: '30' },
+  },
+});
+
+if (values.phase !== 'broken' && values.phase !== 'healed') {
+  console.error(`--phase must be "broken" or "healed", got "${values.phase}"`);
+  process.exit(1);
+}
+
+if (!(Number(values.timeout) > 0)) {
+  console.error(`--timeout must be a number of minutes, got "${values.timeout}"`);
+  process.exit(1);
+}
+
+const rootDir = path.resolve(__dirname, '..', '..');
+const manifestFile = path.resolve(values.manifest!);
+const manifest = loadManifest(manifestFile);
+const scenarios = values.scenario?.length ? values.scenario : Object.keys(manifest.scenarios);
+const checks: ManifestCheck[] = [];
+
+for (const scenario of scenarios) {
+  const ids = parseScenarioIds(scenario.replace(/\+/g, ','));
+  const outputFile = path.resolve(values.out!, `${scenario.replace(/[^\w-]+/g, '_')}.json`);
+
+  console.log(`\n=== ${scenario} (${values.phase}) ===`);
+  fs.rmSync(outputFile, { force: true });
+
+  const run = spawnSync('npx', ['playwright', 'test', ...(values.project || []).map(project => `--project=${project}`)], {
+    cwd: rootDir,
+    stdio: 'inherit',
+    timeout: Number(values.timeout) * 60_000,
+    env: {
+      ...process.env,
+      TEST_APP: 'fixture',
+      FIXTURE_APP_PORT: values.port,
+      // The app changes; the tests keep expecting the initial UI.
+      APP_UI_CHANGES: ids.join(','),
+      UI_CHANGES: '',
+      MANIFEST_PHASE: values.phase,
+      FAILURE_MANIFEST: manifestFile,
+      MANIFEST_OUTPUT: outputFile,
+    },
+  });
+
+  if (run.error) {
+    console.error(`Run for ${scenario} did not finish: ${run.error.message}`);
+    process.exit(1);
+  }
+
+  if (!fs.existsSync(outputFile)) {
+    console.error(`No manifest check written for ${scenario}; the run did not complete.`);
+    process.exit(1);
+  }
+
+  checks.push(JSON.parse(fs.readFileSync(outputFile, 'utf-8')) as ManifestCheck);
+}
+
+console.log('\nScenario verification summary:');
+for (const check of checks) {
+  const mismatches = check.unexpectedPasses.length + check.unexpectedFailures.length + check.drift.length;
+  console.log(`  ${check.matches ? 'ok  ' : 'FAIL'} ${check.scenario.padEnd(40)} ${mismatches} mismatch(es)`);
+}
+
+if (checks.some(check => !check.matches)) {
+  process.exit(1);
+}
@@ -0,0 +1,465 @@
+/**
+ * Fragility Analysis
+ *
+ * Statically scans specs and their helpers with the TypeScript compiler API
+ * for selectors and waits that break when the UI changes: text matched by
+ * literal or UI text constant, positional and structural selectors, literal
+ * counts, fixed sleeps and hard-coded entity ids. Calls into page objects and
+ * other helpers are resolved with the type checker, so a test inherits the
+ * findings of every helper it calls and every page object field it uses (the
+ * primary strategy the field is constructed with, e.g.
+ * `by.css('table:has(thead)')`; fallbacks only run once it stops matching).
+ *
+ * Helpers whose result is coupled to the UI in a way no selector shows can
+ * say so with a `@fragile <rule> <reason>` JSDoc tag, e.g.
+ * `dashboardPage.getTableHeaders()`, which returns every header in display
+ * order.
+ */
+
+import path from 'path';
+import ts from 'typescript';
+import { callbackOf, calleeName, isTestCall, lineOf, propertyPath, walk } from './source-edits';
+
+export type FragilityRuleId =
+  | 'text-literal'
+  | 'nth-index'
+  | 'structural-selector'
+  | 'literal-count'
+  | 'fixed-wait'
+  | 'hard-coded-id';
+
+export const FRAGILITY_RULES: Record<FragilityRuleId, { weight: number; description: string }> = {
+  'text-literal': { weight: 3, description: 'getByText or hasText with a literal or UI text constant breaks when the copy changes' },
+  'nth-index': { weight: 3, description: '.nth(n) breaks when elements are added or reordered' },
+  'structural-selector': { weight: 3, description: 'CSS selector coupled to the DOM structure' },
+  'literal-count': { weight: 2, description: 'toHaveCount with a literal number breaks when items are added' },
+  'fixed-wait': { weight: 2, description: 'waitForTimeout sleeps instead of waiting for a condition' },
+  'hard-coded-id': { weight: 2, description: 'Hard-coded entity id depends on seed data and creation order' },
+};
+
+export interface FragilityFinding {
+  rule: FragilityRuleId;
+  /** Path relative to the repo root. */
+  file: string;
+  line: number;
+  snippet: string;
+  /** Helpers the finding was reached through, outermost first, e.g. ['DashboardPage.getTableHeaders']. */
+  via?: string[];
+}
+
+export interface TestFragility {
+  /** Describe blocks and test title, e.g. `Login › should have correct button text`. */
+  title: string;
+  file: string;
+  line: number;
+  score: number;
+  findings: FragilityFinding[];
+}
+
+export interface HelperFragility {
+  name: string;
+  file: string;
+  line: number;
+  findings: FragilityFinding[];
+}
+
+export interface FragilityReport {
+  generatedAt: string;
+  summary: {
+    tests: number;
+    fragileTests: number;
+    totalScore: number;
+    byRule: Partial<Record<FragilityRuleId, number>>;
+  };
+  tests: TestFragility[];
+  helpers: HelperFragility[];
+}
+
+type FunctionLike = ts.FunctionLikeDeclaration & { body: ts.Node };
+
+/** A function or page object field whose findings every caller or user inherits. */
+type Helper = FunctionLike | ts.PropertyDeclaration;
+
+const HOOKS = ['beforeEach', 'afterEach'];
+const DESCRIBE = /^describe(\.(serial|parallel|only|skip|fixme))?$/;
+
+export function score(findings: FragilityFinding[]): number {
+  return findings.reduce((total, finding) => total + FRAGILITY_RULES[finding.rule].weight, 0);
+}
+
+/**
+ * One finding per rule and source location: a test that uses the same field
+ * or helper five times is not five times as fragile.
+ */
+function unique(findings: FragilityFinding[]): FragilityFinding[] {
+  return [...new Map(findings.map(finding => [`${finding.rule} ${finding.file}:${finding.line}`, finding])).values()];
+}
+
+function isLiteral(node: ts.Node | undefined): boolean {
+  return !!node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)
+    || ts.isRegularExpressionLiteral(node) || ts.isNumericLiteral(node));
+}
+
+/**
+ * A literal, or a UI text constant (`EXPECTED_UI.loginButton`,
+ * `UI_TEXT.initial.modalTitle`): either way the locator depends on the copy.
+ */
+function isCopy(node: ts.Node | undefined): boolean {
+  const root = node && propertyPath(node)?.[0];
+  return isLiteral(node) || root === 'EXPECTED_UI' || root === 'UI_TEXT';
+}
+
+/** `{ hasText: ... }` options of `locator(...)` and `filter(...)`. */
+function hasTextOption(call: ts.CallExpression): boolean {
+  return call.arguments.some(argument => ts.isObjectLiteralExpression(argument) && argument.properties.some(property =>
+    ts.isPropertyAssignment(property) && property.name.getText() === 'hasText' && isCopy(property.initializer)));
+}
+
+/** Every page has them, so selecting them says nothing about the structure. */
+const ROOT_TAGS = new Set(['html', 'body']);
+
+function isStructuralSelector(selector: string): boolean {
+  if (/data-testid|^#[\w-]+$/.test(selector)) return false;
+  const tags = [...selector.matchAll(/(?<=^|[\s>+~])[a-z][a-z0-9]*(?=[\s>+~.:[]|$)/gi)];
+  return tags.some(([tag]) => !ROOT_TAGS.has(tag.toLowerCase()));
+}
+
+/** `by.css(...)`, the CSS strategy of a HealingLocator. */
+function isCssStrategy(call: ts.CallExpression): boolean {
+  const callee = call.expression;
+  return ts.isPropertyAccessExpression(callee) && callee.name.text === 'css'
+    && ts.isIdentifier(callee.expression) && callee.expression.text === 'by';
+}
+
+/**
+ * A strategy after the first in a strategy list. Fallbacks are only tried
+ * once the primary stops matching, so they do not make the test fragile.
+ */
+function isFallbackStrategy(call: ts.CallExpression): boolean {
+  return ts.isArrayLiteralExpression(call.parent) && call.parent.elements.indexOf(call) > 0;
+}
+
+/**
+ * `test.describe` title path segment; template titles keep their source text.
+ * Anonymous describes (`test.describe(() => ...)`) add none.
+ */
+function titleOf(call: ts.CallExpression, sourceFile: ts.SourceFile): string | undefined {
+  const [title] = call.arguments;
+  if (!title || ts.isFunctionLike(title)) return undefined;
+  return ts.isStringLiteralLike(title) ? title.text : title.getText(sourceFile);
+}
+
+/** `test.describe(...)`, `test.beforeEach(...)` -> 'describe', 'beforeEach' */
+function testMember(call: ts.CallExpression): string | undefined {
+  const callee = call.expression;
+  if (!ts.isPropertyAccessExpression(callee)) return undefined;
+
+  const segments: string[] = [callee.name.text];
+  let target = callee.expression;
+  while (ts.isPropertyAccessExpression(target)) {
+    segments.unshift(target.name.text);
+    target = target.expression;
+  }
+
+  return ts.isIdentifier(target) && target.text === 'test' ? segments.join('.') : undefined;
+}
+
+export class FragilityAnalyzer {
+  private readonly checker: ts.TypeChecker;
+  private readonly helperFindings = new Map<Helper, FragilityFinding[]>();
+  private readonly inProgress = new Set<Helper>();
+
+  constructor(private readonly program: ts.Program, private readonly rootDir: string) {
+    this.checker = program.getTypeChecker();
+  }
+
+  analyze(specFiles: string[]): FragilityReport {
+    const tests = specFiles.flatMap(file => this.analyzeSpec(file));
+    const byRule: FragilityReport['summary']['byRule'] = {};
+
+    for (const finding of tests.flatMap(test => test.findings)) {
+      byRule[finding.rule] = (byRule[finding.rule] || 0) + 1;
+    }
+
+    return {
+      generatedAt: new Date().toISOString(),
+      summary: {
+        tests: tests.length,
+        fragileTests: tests.filter(test => test.score > 0).length,
+        totalScore: tests.reduce((total, test) => total + test.score, 0),
+        byRule,
+      },
+      tests: [...tests].sort((a, b) => b.score - a.score),
+      helpers: this.helpers(),
+    };
+  }
+
+  private analyzeSpec(file: string): TestFragility[] {
+    const sourceFile = this.program.getSourceFile(file);
+    if (!sourceFile) {
+      throw new Error(`Not part of the program: ${file}`);
+    }
+
+    const results: TestFragility[] = [];
+
+    const visitBlock = (block: ts.SourceFile | ts.Block, titles: string[], inherited: FragilityFinding[]) => {
+      const calls = block.statements
+        .filter(ts.isExpressionStatement)
+        .map(statement => statement.expression)
+        .filter(ts.isCallExpression);
+
+      // Hooks apply to every test in their describe block, wherever they are declared.
+      const hooks = calls.filter(call => HOOKS.includes(testMember(call) || ''));
+      const scope = [...inherited, ...hooks.flatMap(hook => this.findingsIn(callbackOf(hook)?.body, sourceFile))];
+
+      for (const call of calls) {
+        const member = testMember(call);
+        const callback = callbackOf(call);
+
+        if (member && DESCRIBE.test(member) && callback && ts.isBlock(callback.body)) {
+          const title = titleOf(call, sourceFile);
+          visitBlock(callback.body, title === undefined ? titles : [...titles, title], scope);
+        } else if (isTestCall(call) && callback) {
+          const findings = unique([...scope, ...this.findingsIn(callback.body, sourceFile)]);
+          results.push({
+            title: [...titles, titleOf(call, sourceFile) ?? ''].join(' › '),
+            file: this.relative(sourceFile),
+            line: lineOf(sourceFile, call),
+            score: score(findings),
+            findings,
+          });
+        }
+      }
+
+      // `for (...) { test.describe(...) }` loops generate tests too.
+      for (const statement of block.statements) {
+        if (ts.isIterationStatement(statement, false) && ts.isBlock(statement.statement)) {
+          visitBlock(statement.statement, titles, scope);
+        }
+      }
+    };
+
+    visitBlock(sourceFile, [], []);
+    return results;
+  }
+
+  /** Findings in `node`, including everything reached through project helpers and page object fields. */
+  private findingsIn(node: ts.Node | undefined, sourceFile: ts.SourceFile): FragilityFinding[] {
+    if (!node) return [];
+
+    const findings: FragilityFinding[] = [];
+    const visit = (child: ts.Node) => {
+      if (ts.isCallExpression(child)) {
+        findings.push(...this.directFindings(child, sourceFile));
+      }
+
+      const helper = ts.isCallExpression(child) ? this.resolveHelper(child)
+        : ts.isPropertyAccessExpression(child) ? this.resolveField(child)
+        : undefined;
+      if (helper) {
+        const name = this.helperName(helper);
+        findings.push(...this.analyzeHelper(helper).map(finding => ({ ...finding, via: [name, ...(finding.via || [])] })));
+      }
+    };
+
+    visit(node);
+    walk(node, visit);
+    return findings;
+  }
+
+  private directFindings(call: ts.CallExpression, sourceFile: ts.SourceFile): FragilityFinding[] {
+    const name = calleeName(call);
+    const [first] = call.arguments;
+    const found = (rule: FragilityRuleId): FragilityFinding => ({
+      rule,
+      file: this.relative(sourceFile),
+      line: lineOf(sourceFile, call),
+      snippet: call.getText(sourceFile).replace(/\s+/g, ' ').slice(0, 120),
+    });
+
+    const copy = hasTextOption(call) ? [found('text-literal')] : [];
+
+    switch (name) {
+      case 'getByText':
+        return isCopy(first) ? [found('text-literal')] : [];
+      case 'nth':
+        return [found('nth-index')];
+      case 'locator': {
+        const structural = first && ts.isStringLiteralLike(first) && isStructuralSelector(first.text);
+        return structural ? [...copy, found('structural-selector')] : copy;
+      }
+      case 'css':
+        return isCssStrategy(call) && !isFallbackStrategy(call) && first && ts.isStringLiteralLike(first) && isStructuralSelector(first.text)
+          ? [found('structural-selector')] : [];
+      case 'toHaveCount':
+        // toHaveCount(0) asserts absence, which no added item can break.
+        return first && ts.isNumericLiteral(first) && first.text !== '0' ? [found('literal-count')] : [];
+      case 'waitForTimeout':
+        return [found('fixed-wait')];
+      case 'getByTestId':
+        return first && ts.isStringLiteralLike(first) && /-\d+$/.test(first.text) ? [found('hard-coded-id')] : [];
+    }
+
+    return this.hasHardCodedId(call) ? [...copy, found('hard-coded-id')] : copy;
+  }
+
+  /** A numeric literal passed to a project helper parameter named `id`, `userId`, ... */
+  private hasHardCodedId(call: ts.CallExpression): boolean {
+    const helper = this.resolveHelper(call);
+    if (!helper) return false;
+
+    return call.arguments.some((arg, index) => {
+      const parameter = helper.parameters[index];
+      return ts.isNumericLiteral(arg) && !!parameter && ts.isIdentifier(parameter.name) && /(^id|Id)$/.test(parameter.name.text);
+    });
+  }
+
+  private analyzeHelper(helper: Helper): FragilityFinding[] {
+    const cached = this.helperFindings.get(helper);
+    if (cached) return cached;
+    if (this.inProgress.has(helper)) return [];
+
+    this.inProgress.add(helper);
+    const sourceFile = helper.getSourceFile();
+    const findings = [
+      ...this.taggedFindings(helper),
+      ...(ts.isPropertyDeclaration(helper)
+        ? this.fieldInitializers(helper).flatMap(initializer => this.findingsIn(initializer, sourceFile))
+        : this.findingsIn(helper.body, sourceFile)),
+    ];
+    this.inProgress.delete(helper);
+
+    this.helperFindings.set(helper, findings);
+    return findings;
+  }
+
+  /** Findings declared with `@fragile <rule> <reason>` tags. */
+  private taggedFindings(helper: Helper): FragilityFinding[] {
+    const sourceFile = helper.getSourceFile();
+    return ts.getJSDocTags(helper)
+      .filter(tag => tag.tagName.text === 'fragile')
+      .map(tag => {
+        const [rule, ...reason] = (ts.getTextOfJSDocComment(tag.comment) || '').trim().split(/\s+/);
+        if (!(rule in FRAGILITY_RULES)) {
+          throw new Error(`${this.relative(sourceFile)}:${lineOf(sourceFile, tag)}: unknown rule "${rule}" in @fragile tag`);
+        }
+        return {
+          rule: rule as FragilityRuleId,
+          file: this.relative(sourceFile),
+          line: lineOf(sourceFile, helper),
+          snippet: reason.join(' ') || this.helperName(helper),
+        };
+      });
+  }
+
+  /** The expressions a field is set to: its initializer and `this.<field> = ...` in the constructor. */
+  private fieldInitializers(field: ts.PropertyDeclaration): ts.Expression[] {
+    const name = field.name.getText();
+    const constructor = field.parent.members.find(ts.isConstructorDeclaration);
+    const assignments: ts.Expression[] = [];
+
+    if (constructor?.body) {
+      walk(constructor.body, node => {
+        if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.EqualsToken
+          && ts.isPropertyAccessExpression(node.left) && node.left.expression.kind === ts.SyntaxKind.ThisKeyword
+          && node.left.name.text === name) {
+          assignments.push(node.right);
+        }
+      });
+    }
+
+    return field.initializer ? [field.initializer, ...assignments] : assignments;
+  }
+
+  /** The project class field `access` reads; library and non-field members are ignored. */
+  private resolveField(access: ts.PropertyAccessExpression): ts.PropertyDeclaration | undefined {
+    const declaration = this.checker.getSymbolAtLocation(access.name)?.valueDeclaration;
+    if (!declaration || !ts.isPropertyDeclaration(declaration) || !ts.isClassLike(declaration.parent)) return undefined;
+
+    const file = declaration.getSourceFile();
+    if (file.isDeclarationFile || this.program.isSourceFileFromExternalLibrary(file)) return undefined;
+
+    return declaration;
+  }
+
+  /** The project function or method `call` invokes; library code is ignored. */
+  private resolveHelper(call: ts.CallExpression): FunctionLike | undefined {
+    const declaration = this.checker.getResolvedSignature(call)?.getDeclaration();
+    if (!declaration || !ts.isFunctionLike(declaration)) return undefined;
+
+    const body = (declaration as ts.FunctionLikeDeclaration).body;
+    const file = declaration.getSourceFile();
+    if (!body || file.isDeclarationFile || this.program.isSourceFileFromExternalLibrary(file)) return undefined;
+
+    return declaration as FunctionLike;
+  }
+
+  private helperName(helper: Helper): string {
+    const name = helper.name ? helper.name.getText() : '<anonymous>';
+    const owner = ts.isClassLike(helper.parent) && helper.parent.name ? `${helper.parent.name.text}.` : '';
+    return `${owner}${name}`;
+  }
+
+  private helpers(): HelperFragility[] {
+    return [...this.helperFindings.entries()]
+      .filter(([, findings]) => findings.length)
+      .map(([helper, findings]) => {
+        const sourceFile = helper.getSourceFile();
+        return {
+          name: this.helperName(helper),
+          file: this.relative(sourceFile),
+          line: lineOf(sourceFile, helper),
+          findings,
+        };
+      })
+      .sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+  }
+
+  private relative(sourceFile: ts.SourceFile): string {
+    return path.relative(this.rootDir, sourceFile.fileName);
+  }
+}
+
+export function renderMarkdown(report: FragilityReport): string {
+  const lines = [
+    '# Test Fragility Report',
+    '',
+    `${report.summary.fragileTests} of ${report.summary.tests} test(s) use fragile patterns `
+      + `(total score ${report.summary.totalScore}).`,
+    '',
+    '| Rule | Weight | Findings | Why |',
+    '|------|--------|----------|-----|',
+    ...(Object.keys(FRAGILITY_RULES) as FragilityRuleId[]).map(rule =>
+      `| \`${rule}\` | ${FRAGILITY_RULES[rule].weight} | ${report.summary.byRule[rule] || 0} | ${FRAGILITY_RULES[rule].description} |`),
+    '',
+    '## Tests',
+    '',
+    '| Score | Test | Location |',
+    '|-------|------|----------|',
+    ...report.tests.map(test => `| ${test.score} | ${test.title} | \`${test.file}:${test.line}\` |`),
+  ];
+
+  for (const test of report.tests.filter(test => test.findings.length)) {
+    lines.push('', `### ${test.title} (${test.score})`, '');
+    for (const finding of test.findings) {
+      const via = finding.via ? ` via ${finding.via.join(' → ')}` : '';
+      lines.push(`- \`${finding.rule}\`${via}: \`${finding.snippet}\` (\`${finding.file}:${finding.line}\`)`);
+    }
+  }
+
+  if (report.helpers.length) {
+    lines.push('', '## Helpers', '');
+    for (const helper of report.helpers) {
+      const rules = [...new Set(helper.findings.map(finding => finding.rule))].join(', ');
+      lines.push(`- \`${helper.name}\` (\`${helper.file}:${helper.line}\`): ${rules}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/** Every `.spec.ts` file under `dir`. */
+export function findSpecFiles(program: ts.Program, dir: string): string[] {
+  return program.getRootFileNames()
+    .filter(file => file.endsWith('.spec.ts') && path.resolve(file).startsWith(path.resolve(dir) + path.sep));
+}
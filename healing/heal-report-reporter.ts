@@ -0,0 +1,136 @@
+/**
+ * Heal Report Reporter
+ *
+ * Custom Playwright reporter that writes the heal report (see heal-report.ts)
+ * to `test-results/healing-report/`: `index.html`, the dashboard by scenario
+ * and browser project, and one standalone page per failed or in-run healed
+ * test under `tests/`, built from the `heal-proposals` and `heal-highlight`
+ * attachments (see tests/helpers/heal-attachments.ts). `report.json` holds the
+ * same data.
+ *
+ * Scenarios are read from APP_UI_CHANGES and UI_CHANGES, and failures are
+ * attributed to them through the expected-failure manifest.
+ *
+ * Usage in playwright.config.ts:
+ *   ['./healing/heal-report-reporter.ts', { outputDir: 'test-results/healing-report' }]
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { FullResult, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import type { HealProposalsAttachment } from '../tests/helpers/heal-attachments';
+import { parseScenarioIds } from '../tests/helpers/ui-scenarios';
+import { attributeScenarios, buildHealReport, HealReportTest, renderDashboard, renderTestPage, testPageName, TestPageImages } from './heal-report';
+import { DEFAULT_MANIFEST_FILE, FailureManifest, loadManifest } from './manifest';
+import { manifestKey } from './manifest-reporter';
+import { classifyFailure, stripAnsi } from './triage';
+import { testTitle } from './triage-reporter';
+
+export interface HealReportReporterOptions {
+  outputDir?: string;
+  manifest?: string;
+}
+
+type Attachment = TestResult['attachments'][number];
+
+function attachmentData(attachment: Attachment | undefined): Buffer | undefined {
+  if (attachment?.body) return attachment.body;
+  return attachment?.path && fs.existsSync(attachment.path) ? fs.readFileSync(attachment.path) : undefined;
+}
+
+function dataUri(attachment: Attachment | undefined): string | undefined {
+  const data = attachmentData(attachment);
+  return data && `data:${attachment!.contentType};base64,${data.toString('base64')}`;
+}
+
+export default class HealReportReporter implements Reporter {
+  private readonly outputDir: string;
+  private readonly manifestFile: string;
+  private readonly activeScenarios = [
+    ...new Set([...parseScenarioIds(process.env.APP_UI_CHANGES), ...parseScenarioIds(process.env.UI_CHANGES)]),
+  ];
+  private readonly tests = new Map<string, { test: HealReportTest; images: TestPageImages }>();
+  private readonly testsPerProject: Record<string, Set<string>> = {};
+  /** Loaded on first use; null until then. */
+  private manifest: FailureManifest | undefined | null = null;
+
+  constructor(options: HealReportReporterOptions = {}) {
+    this.outputDir = options.outputDir || 'test-results/healing-report';
+    this.manifestFile = options.manifest || process.env.FAILURE_MANIFEST || DEFAULT_MANIFEST_FILE;
+  }
+
+  onTestEnd(test: TestCase, result: TestResult) {
+    const project = test.parent.project()?.name || '';
+    (this.testsPerProject[project] ??= new Set()).add(test.id);
+
+    const annotations = [...test.annotations, ...result.annotations];
+    const heals = annotations.filter(annotation => annotation.type === 'healed').map(annotation => annotation.description || '');
+    const failed = test.outcome() === 'unexpected' && result.status !== 'skipped';
+
+    // The final attempt wins; a passing retry without heals has nothing to report.
+    if (!failed && !heals.length) {
+      this.tests.delete(test.id);
+      return;
+    }
+
+    const find = (name: string) => result.attachments.find(attachment => attachment.name === name);
+    const proposals = attachmentData(find('heal-proposals'));
+    const attached = proposals ? JSON.parse(proposals.toString('utf-8')) as HealProposalsAttachment : undefined;
+    const message = stripAnsi(result.errors.map(error => error.message || error.value || '').join('\n\n'));
+    const classification = failed ? classifyFailure({ message, annotations }) : undefined;
+    const trace = find('trace')?.path;
+    const key = manifestKey(test);
+
+    this.tests.set(test.id, {
+      test: {
+        key,
+        title: testTitle(test),
+        file: path.relative(process.cwd(), test.location.file),
+        line: test.location.line,
+        project,
+        status: failed ? 'failed' : 'healed',
+        category: classification?.category,
+        reason: classification?.reason,
+        needsHealing: classification?.needsHealing,
+        proposals: attached?.proposals ?? [],
+        heals,
+        highlighted: attached?.highlighted,
+        trace: trace && path.relative(this.outputDir, trace),
+        scenarios: attributeScenarios(this.loadManifest(), this.activeScenarios, key, project),
+        page: testPageName(key, project),
+      },
+      images: { highlight: dataUri(find('heal-highlight')), screenshot: dataUri(find('screenshot')) },
+    });
+  }
+
+  onEnd(_result: FullResult) {
+    const tests = [...this.tests.values()];
+    const report = buildHealReport(tests.map(({ test }) => test), {
+      activeScenarios: this.activeScenarios,
+      testsPerProject: Object.fromEntries(Object.entries(this.testsPerProject).map(([project, ids]) => [project, ids.size])),
+    });
+
+    fs.rmSync(this.outputDir, { recursive: true, force: true });
+    fs.mkdirSync(path.join(this.outputDir, 'tests'), { recursive: true });
+    for (const { test, images } of tests) {
+      fs.writeFileSync(path.join(this.outputDir, test.page), renderTestPage(test, images));
+    }
+    fs.writeFileSync(path.join(this.outputDir, 'index.html'), renderDashboard(report));
+    fs.writeFileSync(path.join(this.outputDir, 'report.json'), JSON.stringify(report, null, 2));
+
+    if (tests.length) {
+      console.log(`\nHeal report: ${tests.length} failed or healed test(s), see ${path.join(this.outputDir, 'index.html')}`);
+    }
+  }
+
+  private loadManifest(): FailureManifest | undefined {
+    if (this.manifest === null) {
+      this.manifest = fs.existsSync(this.manifestFile) ? loadManifest(this.manifestFile) : undefined;
+    }
+    return this.manifest;
+  }
+
+  printsToStdio() {
+    return false;
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * Heal Report
+ *
+ * Standalone HTML pages on the healing side of a run, next to Playwright's
+ * own report: one page per failed or in-run healed test (classification,
+ * proposed heals with before/after and confidence, the failure screenshot
+ * with the proposed element outlined, and the trace), and a dashboard that
+ * sums the run up by UI change scenario and by browser project.
+ *
+ * Failures are attributed to the active scenarios whose entry in the
+ * expected-failure manifest lists them; the rest are `unexplained`, the
+ * ones to look at first.
+ */
+
+import crypto from 'crypto';
+import { UI_CHANGE_SCENARIOS, UiScenarioId } from '../tests/helpers/ui-scenarios';
+import { expectedFailures, FailureManifest } from './manifest';
+import { HealProposal } from './strategy';
+import { FailureCategory } from './triage';
+
+export const UNEXPLAINED = 'unexplained';
+
+export interface HealReportTest {
+  /** `file › describe › title`, as in the failure manifest. */
+  key: string;
+  title: string;
+  file: string;
+  line: number;
+  project: string;
+  /** `healed`: passed only because a step was healed in-run. */
+  status: 'failed' | 'healed';
+  category?: FailureCategory;
+  reason?: string;
+  needsHealing?: boolean;
+  proposals: HealProposal[];
+  /** `healed` annotation descriptions. */
+  heals: string[];
+  /** What the outlined element on the highlight screenshot is. */
+  highlighted?: string;
+  /** Trace archive, relative to the report directory. */
+  trace?: string;
+  /** Active scenarios that explain the result, or `unexplained`. */
+  scenarios: string[];
+  /** The test's page, relative to the report directory. */
+  page: string;
+}
+
+export interface ScenarioSummary {
+  scenario: string;
+  label: string;
+  failed: number;
+  healed: number;
+  proposals: number;
+  /** Failed tests per project. */
+  byProject: Record<string, number>;
+}
+
+export interface ProjectSummary {
+  project: string;
+  tests: number;
+  failed: number;
+  needsHealing: number;
+  appBugs: number;
+  healed: number;
+  proposals: number;
+}
+
+export interface HealReport {
+  generatedAt: string;
+  activeScenarios: UiScenarioId[];
+  byScenario: ScenarioSummary[];
+  byProject: ProjectSummary[];
+  tests: HealReportTest[];
+}
+
+/** Images embedded in a test page, as data URIs, so the page stands alone. */
+export interface TestPageImages {
+  highlight?: string;
+  screenshot?: string;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** File name for a test's page: readable, and unique per project and title. */
+export function testPageName(key: string, project: string): string {
+  const slug = `${project}-${key}`.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+  const hash = crypto.createHash('sha1').update(`${project}\n${key}`).digest('hex').slice(0, 8);
+  return `tests/${slug}-${hash}.html`;
+}
+
+/** The active scenarios whose manifest entry lists the test, or `unexplained`. */
+export function attributeScenarios(
+  manifest: FailureManifest | undefined,
+  activeScenarios: UiScenarioId[],
+  key: string,
+  project: string
+): string[] {
+  const explaining = manifest
+    ? activeScenarios.filter(id => expectedFailures(manifest, [id], project).has(key))
+    : [];
+  return explaining.length ? explaining : [UNEXPLAINED];
+}
+
+export function scenarioLabel(scenario: string): string {
+  const known = UI_CHANGE_SCENARIOS[scenario as UiScenarioId];
+  return known ? `Change #${known.mutation.change}: ${known.description}` : 'Not explained by an active scenario';
+}
+
+export function buildHealReport(
+  tests: HealReportTest[],
+  options: { activeScenarios: UiScenarioId[]; testsPerProject: Record<string, number> }
+): HealReport {
+  const byScenario = new Map<string, ScenarioSummary>();
+  for (const scenario of [...options.activeScenarios, UNEXPLAINED]) {
+    byScenario.set(scenario, { scenario, label: scenarioLabel(scenario), failed: 0, healed: 0, proposals: 0, byProject: {} });
+  }
+
+  for (const test of tests) {
+    for (const scenario of test.scenarios) {
+      const summary = byScenario.get(scenario)!;
+      summary.proposals += test.proposals.length;
+      if (test.status === 'healed') {
+        summary.healed++;
+      } else {
+        summary.failed++;
+        summary.byProject[test.project] = (summary.byProject[test.project] || 0) + 1;
+      }
+    }
+  }
+
+  const byProject = Object.entries(options.testsPerProject).map(([project, count]): ProjectSummary => {
+    const own = tests.filter(test => test.project === project);
+    const failed = own.filter(test => test.status === 'failed');
+    return {
+      project,
+      tests: count,
+      failed: failed.length,
+      needsHealing: failed.filter(test => test.needsHealing).length,
+      appBugs: failed.filter(test => test.category === 'app-bug').length,
+      healed: own.length - failed.length,
+      proposals: own.reduce((sum, test) => sum + test.proposals.length, 0),
+    };
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    activeScenarios: options.activeScenarios,
+    // A scenario nothing failed under still belongs on the dashboard; an empty `unexplained` row does not.
+    byScenario: [...byScenario.values()].filter(summary => summary.scenario !== UNEXPLAINED || summary.failed + summary.healed > 0),
+    byProject,
+    tests,
+  };
+}
+
+const STYLE = `
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 2rem; }
+  th, td { border-bottom: 1px solid #ddd; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+  code { background: #f3f3f3; padding: 0 0.2rem; }
+  img { max-width: 100%; border: 1px solid #ddd; }
+  .failed { color: #c62828; } .healed { color: #2e7d32; }
+  .confidence { display: inline-block; width: 6rem; height: 0.6rem; background: #eee; vertical-align: middle; }
+  .confidence div { height: 100%; background: #1565c0; }`;
+
+function page(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function proposalRows(proposals: HealProposal[]): string {
+  return proposals.map(proposal => `
+    <tr>
+      <td>${proposal.kind}</td>
+      <td><code>${escapeHtml(proposal.target)}</code></td>
+      <td><code>${escapeHtml(proposal.before)}</code></td>
+      <td><code>${escapeHtml(proposal.after)}</code></td>
+      <td><span class="confidence"><div style="width:${Math.round(proposal.confidence * 100)}%"></div></span> ${Math.round(proposal.confidence * 100)}%</td>
+      <td>${escapeHtml(proposal.strategy)}: ${escapeHtml(proposal.rationale)}</td>
+    </tr>`).join('');
+}
+
+/** One test's page; `images` are embedded, the trace is linked relative to the page. */
+export function renderTestPage(test: HealReportTest, images: TestPageImages = {}): string {
+  const trace = test.trace
+    ? `<p>Trace: <a href="../${escapeHtml(test.trace)}">${escapeHtml(test.trace)}</a>
+(open with <code>npx playwright show-trace ${escapeHtml(test.trace)}</code> from the report directory, or drop it on trace.playwright.dev)</p>`
+    : '<p>No trace recorded (traces are kept on the first retry).</p>';
+
+  const image = images.highlight
+    ? `<h2>Failure screenshot</h2>
+<p>Outlined: <code>${escapeHtml(test.highlighted || 'the proposed element')}</code></p>
+<img src="${images.highlight}" alt="Failure screenshot with the proposed element outlined">`
+    : images.screenshot
+      ? `<h2>Failure screenshot</h2>\n<img src="${images.screenshot}" alt="Failure screenshot">`
+      : '';
+
+  return page(test.title, `<p><a href="../index.html">&larr; Heal report</a></p>
+<h1>${escapeHtml(test.title)}</h1>
+<p class="${test.status}"><strong>${test.status === 'healed' ? 'Passed after in-run healing' : 'Failed'}</strong>
+in ${escapeHtml(test.project)} &middot; <code>${escapeHtml(test.file)}:${test.line}</code></p>
+${test.category ? `<p>Classification: <strong>${test.category}</strong>${test.reason ? ` &mdash; ${escapeHtml(test.reason)}` : ''}</p>` : ''}
+<p>Scenarios: ${test.scenarios.map(scenario => escapeHtml(scenarioLabel(scenario))).join('; ')}</p>
+${test.heals.length ? `<h2>Healed in-run</h2>\n<ul>${test.heals.map(heal => `<li><code>${escapeHtml(heal)}</code></li>`).join('')}</ul>` : ''}
+<h2>Proposed heals</h2>
+${test.proposals.length ? `<table>
+  <thead><tr><th>Kind</th><th>Target</th><th>Before</th><th>After</th><th>Confidence</th><th>Rationale</th></tr></thead>
+  <tbody>${proposalRows(test.proposals)}
+  </tbody>
+</table>` : '<p>None.</p>'}
+${image}
+${trace}`);
+}
+
+export function renderDashboard(report: HealReport): string {
+  const projects = report.byProject.map(summary => summary.project);
+
+  const scenarios = report.byScenario.map(summary => `
+    <tr>
+      <td>${escapeHtml(summary.label)}</td>
+      <td>${summary.failed}</td>
+      ${projects.map(project => `<td>${summary.byProject[project] || 0}</td>`).join('')}
+      <td>${summary.healed}</td>
+      <td>${summary.proposals}</td>
+    </tr>`).join('');
+
+  const byProject = report.byProject.map(summary => `
+    <tr>
+      <td>${escapeHtml(summary.project)}</td>
+      <td>${summary.tests}</td>
+      <td>${summary.failed}</td>
+      <td>${summary.needsHealing}</td>
+      <td>${summary.appBugs}</td>
+      <td>${summary.healed}</td>
+      <td>${summary.proposals}</td>
+    </tr>`).join('');
+
+  const tests = report.tests.map(test => `
+    <tr>
+      <td class="${test.status}">${test.status}</td>
+      <td><a href="${escapeHtml(test.page)}">${escapeHtml(test.title)}</a></td>
+      <td>${escapeHtml(test.project)}</td>
+      <td>${test.category || '&mdash;'}</td>
+      <td>${test.proposals[0] ? `<code>${escapeHtml(test.proposals[0].after)}</code> (${Math.round(test.proposals[0].confidence * 100)}%)` : '&mdash;'}</td>
+    </tr>`).join('');
+
+  const active = report.activeScenarios.length
+    ? report.activeScenarios.map(id => escapeHtml(scenarioLabel(id))).join('; ')
+    : 'none (baseline run)';
+
+  return page('Heal Report', `<h1>Heal Report</h1>
+<p>Active UI change scenarios: ${active}. Generated ${escapeHtml(report.generatedAt)}.</p>
+
+<h2>By scenario</h2>
+<table>
+  <thead><tr><th>Scenario</th><th>Failed</th>${projects.map(project => `<th>${escapeHtml(project)}</th>`).join('')}<th>Healed in-run</th><th>Proposals</th></tr></thead>
+  <tbody>${scenarios || `\n    <tr><td colspan="${projects.length + 4}">No failures</td></tr>`}
+  </tbody>
+</table>
+
+<h2>By project</h2>
+<table>
+  <thead><tr><th>Project</th><th>Tests</th><th>Failed</th><th>Need healing</th><th>App bugs</th><th>Healed in-run</th><th>Proposals</th></tr></thead>
+  <tbody>${byProject}
+  </tbody>
+</table>
+
+<h2>Tests</h2>
+<table>
+  <thead><tr><th>Status</th><th>Test</th><th>Project</th><th>Classification</th><th>Top proposal</th></tr></thead>
+  <tbody>${tests || '\n    <tr><td colspan="5">No failed or healed tests</td></tr>'}
+  </tbody>
+</table>`);
+}
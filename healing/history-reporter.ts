@@ -0,0 +1,74 @@
+/**
+ * Heal History Reporter
+ *
+ * Custom Playwright reporter that appends one line per test and browser
+ * project to the heal history (see history.ts) when the run ends. Skipped
+ * tests are not recorded. A test's scenarios are the ones the run applied
+ * (APP_UI_CHANGES, UI_CHANGES) plus the ones it applied through `uiChanges`. The history lives outside test-results/ so it
+ * survives between runs; `npm run trends` reports on it.
+ *
+ * Usage in playwright.config.ts:
+ *   ['./healing/history-reporter.ts', { historyFile: 'healing/history/runs.jsonl' }]
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { FullResult, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { HEALING_CONFIG } from '../tests/helpers/healing-config';
+import { parseScenarioIds, UI_CHANGE_ANNOTATION } from '../tests/helpers/ui-scenarios';
+import { appendHistory, healCounts, HistoryRecord, targetEvents } from './history';
+import { manifestKey } from './manifest-reporter';
+import { classifyFailure } from './triage';
+
+export interface HistoryReporterOptions {
+  historyFile?: string;
+}
+
+export default class HistoryReporter implements Reporter {
+  private readonly historyFile: string;
+  private readonly startedAt = new Date().toISOString();
+  private readonly runId = `${Date.now().toString(36)}-${process.pid}`;
+  private readonly records = new Map<string, HistoryRecord>();
+
+  constructor(options: HistoryReporterOptions = {}) {
+    this.historyFile = options.historyFile || HEALING_CONFIG.historyFile;
+  }
+
+  onTestEnd(test: TestCase, result: TestResult) {
+    // The final attempt wins; earlier attempts only tell a flaky pass apart.
+    if (result.status === 'skipped') {
+      this.records.delete(test.id);
+      return;
+    }
+
+    const annotations = [...test.annotations, ...result.annotations];
+    const outcome = test.outcome();
+    const targets = targetEvents(annotations);
+    const message = result.errors.map(error => error.message || error.value || '').join('\n\n') || result.status;
+
+    this.records.set(test.id, {
+      runId: this.runId,
+      startedAt: this.startedAt,
+      test: manifestKey(test),
+      project: test.parent.project()?.name || '',
+      status: outcome === 'flaky' ? 'flaky' : outcome === 'unexpected' ? 'failed' : 'passed',
+      ...(outcome === 'unexpected' && { category: classifyFailure({ message, annotations }).category }),
+      scenarios: [...new Set([
+        ...parseScenarioIds(process.env.APP_UI_CHANGES),
+        ...parseScenarioIds(process.env.UI_CHANGES),
+        ...annotations.flatMap(annotation => annotation.type === UI_CHANGE_ANNOTATION && annotation.description ? [annotation.description] : []),
+      ])],
+      heals: healCounts(targets),
+      targets,
+    });
+  }
+
+  onEnd(_result: FullResult) {
+    fs.mkdirSync(path.dirname(this.historyFile), { recursive: true });
+    appendHistory(this.historyFile, [...this.records.values()]);
+  }
+
+  printsToStdio() {
+    return false;
+  }
+}
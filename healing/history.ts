@@ -0,0 +1,261 @@
+/**
+ * Heal History
+ *
+ * A local, append-only history of test outcomes: one JSON line per test,
+ * browser project and run (see history-reporter.ts), with the failure
+ * category, the heals proposed and accepted, the POM fields and `UI_TEXT`
+ * values involved, and the UI change scenarios the app had applied.
+ *
+ * Trends over the history tell which tests are flaky and which are
+ * consistently broken, which locators need healing most often (the POM
+ * fields worth hardening), and how long a broken test takes to pass again.
+ * Trends are judged per scenario set: a test that fails only while a UI
+ * change is applied is broken under that change, not flaky.
+ */
+
+import fs from 'fs';
+import { FailureCategory } from './triage';
+
+export type HistoryStatus = 'passed' | 'failed' | 'flaky';
+
+/**
+ * What happened to a heal target during a test:
+ * - `missed`: no strategy matched
+ * - `proposed`: a replacement was proposed but not used
+ * - `healed`: a fallback, baseline match or step heal was used and the run went on
+ */
+export type TargetEventKind = 'missed' | 'proposed' | 'healed';
+
+export interface TargetEvent {
+  /** POM field (`DashboardPage.addUserButton`) or `UI_TEXT` path. */
+  target: string;
+  event: TargetEventKind;
+}
+
+export interface HistoryRecord {
+  runId: string;
+  /** ISO time the run started. */
+  startedAt: string;
+  /** `file › describe › title`, as in the failure manifest. */
+  test: string;
+  project: string;
+  /** Final outcome; `flaky` passed on a retry. */
+  status: HistoryStatus;
+  category?: FailureCategory;
+  /** UI change scenarios applied to the app during the test, by the run or by the test itself. */
+  scenarios: string[];
+  heals: { proposed: number; accepted: number };
+  targets: TargetEvent[];
+}
+
+export type TestTrend = 'stable' | 'flaky' | 'broken';
+
+export interface TestStability {
+  test: string;
+  project: string;
+  /** The scenario set the trend is for; empty for the unchanged app. */
+  scenarios: string[];
+  trend: TestTrend;
+  runs: number;
+  failures: number;
+  /** Pass/fail changes between consecutive runs. */
+  flips: number;
+  /** Failure categories seen, most recent first. */
+  categories: FailureCategory[];
+  lastStatus: HistoryStatus;
+}
+
+export interface TargetStats {
+  target: string;
+  healed: number;
+  proposed: number;
+  missed: number;
+  /** Tests (`[project] key`) that touched the target. */
+  tests: string[];
+}
+
+export interface HistoryReport {
+  generatedAt: string;
+  runs: number;
+  /** Runs considered per test for its trend. */
+  window: number;
+  tests: TestStability[];
+  /** Sorted by heals needed, most first. */
+  targets: TargetStats[];
+  /** From a test's first failure to its next pass; undefined before any test was healed. */
+  meanTimeToHealMs?: number;
+  /** Failure streaks that ended in a pass. */
+  healedStreaks: number;
+}
+
+export interface HistoryReportOptions {
+  /** Most recent runs per test to judge its trend by (default 10). */
+  window?: number;
+  /** Trailing failed runs for a test to count as broken (default 2). */
+  brokenAfter?: number;
+}
+
+const ANNOTATION_EVENTS: Record<string, TargetEventKind> = {
+  'healing-miss': 'missed',
+  'healing-proposal': 'proposed',
+  'healing-locator': 'healed',
+  healed: 'healed',
+};
+
+/**
+ * The POM field or `UI_TEXT` path an annotation is about. Locator annotations
+ * start with it (`LoginPage.submitButton: ...`); step heal annotations start
+ * with the step title (`login: UI_TEXT.initial.loginButton: ...`).
+ */
+function annotationTarget(description: string): string | undefined {
+  return description.match(/(?:^|: )([A-Z]\w*(?:\.\w+)+): /)?.[1];
+}
+
+/** Heal targets and what happened to them, from a test's annotations. */
+export function targetEvents(annotations: { type: string; description?: string }[]): TargetEvent[] {
+  const events: TargetEvent[] = [];
+  for (const { type, description } of annotations) {
+    const event = ANNOTATION_EVENTS[type];
+    const target = event && description ? annotationTarget(description) : undefined;
+    if (event && target) {
+      events.push({ target, event });
+    }
+  }
+  return events;
+}
+
+/** Counts heals: every proposal, used or not, and the ones used. */
+export function healCounts(targets: TargetEvent[]): HistoryRecord['heals'] {
+  const accepted = targets.filter(target => target.event === 'healed').length;
+  const proposed = targets.filter(target => target.event === 'proposed').length + accepted;
+  return { proposed, accepted };
+}
+
+export function appendHistory(file: string, records: HistoryRecord[]) {
+  if (!records.length) return;
+  fs.appendFileSync(file, records.map(record => JSON.stringify(record)).join('\n') + '\n');
+}
+
+/** Reads the history, skipping lines that are not valid JSON (e.g. a run cut short mid-write). */
+export function readHistory(file: string): HistoryRecord[] {
+  if (!fs.existsSync(file)) return [];
+
+  const records: HistoryRecord[] = [];
+  for (const line of fs.readFileSync(file, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as HistoryRecord);
+    } catch {
+      // Partial line; the rest of the history is still good.
+    }
+  }
+  return records;
+}
+
+const testId = (record: Pick<HistoryRecord, 'test' | 'project'>) => `[${record.project}] ${record.test}`;
+const failed = (record: HistoryRecord) => record.status === 'failed';
+const scenarioSet = (scenarios: string[]) => [...new Set(scenarios)].sort();
+
+/** Runs per test and scenario set, oldest first. */
+function groupByTest(records: HistoryRecord[]): Map<string, HistoryRecord[]> {
+  const byTest = new Map<string, HistoryRecord[]>();
+  for (const record of [...records].sort((a, b) => a.startedAt.localeCompare(b.startedAt))) {
+    const key = `${testId(record)} {${scenarioSet(record.scenarios).join('+')}}`;
+    const runs = byTest.get(key) ?? [];
+    runs.push(record);
+    byTest.set(key, runs);
+  }
+  return byTest;
+}
+
+function stabilityOf(runs: HistoryRecord[], window: number, brokenAfter: number): TestStability {
+  const recent = runs.slice(-window);
+  const flips = recent.slice(1).filter((record, index) => failed(record) !== failed(recent[index])).length;
+
+  let trailingFailures = 0;
+  for (let index = recent.length - 1; index >= 0 && failed(recent[index]); index--) {
+    trailingFailures++;
+  }
+
+  const trend: TestTrend = recent.some(record => record.status === 'flaky') || flips >= 2
+    ? 'flaky'
+    : trailingFailures >= brokenAfter ? 'broken' : 'stable';
+
+  const last = recent[recent.length - 1];
+  return {
+    test: last.test,
+    project: last.project,
+    scenarios: scenarioSet(last.scenarios),
+    trend,
+    runs: recent.length,
+    failures: recent.filter(failed).length,
+    flips,
+    categories: [...new Set(recent.map(record => record.category).filter((category): category is FailureCategory => !!category).reverse())],
+    lastStatus: last.status,
+  };
+}
+
+/** Durations of failure streaks that ended in a pass, in ms. */
+function timesToHeal(runs: HistoryRecord[]): number[] {
+  const durations: number[] = [];
+  let brokenSince: string | undefined;
+
+  for (const record of runs) {
+    if (failed(record)) {
+      brokenSince ??= record.startedAt;
+    } else if (brokenSince) {
+      durations.push(Date.parse(record.startedAt) - Date.parse(brokenSince));
+      brokenSince = undefined;
+    }
+  }
+  return durations;
+}
+
+function targetStats(records: HistoryRecord[]): TargetStats[] {
+  const byTarget = new Map<string, TargetStats & { testSet: Set<string> }>();
+
+  for (const record of records) {
+    for (const { target, event } of record.targets) {
+      const stats = byTarget.get(target) ?? { target, healed: 0, proposed: 0, missed: 0, tests: [], testSet: new Set<string>() };
+      stats[event]++;
+      stats.testSet.add(testId(record));
+      byTarget.set(target, stats);
+    }
+  }
+
+  return [...byTarget.values()]
+    .map(({ testSet, ...stats }) => ({ ...stats, tests: [...testSet].sort() }))
+    .sort((a, b) => (b.healed + b.proposed + b.missed) - (a.healed + a.proposed + a.missed) || a.target.localeCompare(b.target));
+}
+
+export function buildHistoryReport(records: HistoryRecord[], options: HistoryReportOptions = {}): HistoryReport {
+  const window = options.window ?? 10;
+  const byTest = groupByTest(records);
+  const durations = [...byTest.values()].flatMap(timesToHeal);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    runs: new Set(records.map(record => record.runId)).size,
+    window,
+    tests: [...byTest.values()]
+      .map(runs => stabilityOf(runs, window, options.brokenAfter ?? 2))
+      .sort((a, b) => b.failures - a.failures || testId(a).localeCompare(testId(b)) || a.scenarios.length - b.scenarios.length),
+    targets: targetStats(records),
+    meanTimeToHealMs: durations.length ? durations.reduce((sum, duration) => sum + duration, 0) / durations.length : undefined,
+    healedStreaks: durations.length,
+  };
+}
+
+/** `1d 4h`, `3h 12m`, `45s`. */
+export function formatDuration(ms: number): string {
+  const units: [string, number][] = [['d', 86_400_000], ['h', 3_600_000], ['m', 60_000], ['s', 1000]];
+  const parts: string[] = [];
+  let rest = ms;
+  for (const [unit, size] of units) {
+    if (rest >= size && parts.length < 2) {
+      parts.push(`${Math.floor(rest / size)}${unit}`);
+      rest %= size;
+    }
+  }
+  return parts.join(' ') || '0s';
+}
@@ -0,0 +1,64 @@
+/**
+ * HTTP Healing Strategy
+ *
+ * Sends the FailureContext to a proposal service and returns what it answers:
+ *
+ *   POST <endpoint>   { "context": FailureContext }
+ *   200               { "proposals": HealProposal[] }
+ *
+ * Proposals without a `strategy` are credited to this one. Non-2xx answers,
+ * timeouts and malformed bodies throw, so a broken service is never mistaken
+ * for "no proposals". See mock-heal-server.ts for a local stand-in.
+ */
+
+import type { FailureContext, HealProposal, HealingStrategy } from './strategy';
+
+export interface HttpStrategyOptions {
+  endpoint: string;
+  timeoutMs?: number;
+  headers?: Record<string, string>;
+}
+
+function isProposal(value: unknown): value is Omit<HealProposal, 'strategy'> & { strategy?: string } {
+  const proposal = value as Partial<HealProposal>;
+  return !!proposal
+    && (proposal.kind === 'locator' || proposal.kind === 'text')
+    && typeof proposal.target === 'string'
+    && typeof proposal.before === 'string'
+    && typeof proposal.after === 'string'
+    && typeof proposal.confidence === 'number'
+    && (proposal.strategy === undefined || typeof proposal.strategy === 'string');
+}
+
+export class HttpStrategy implements HealingStrategy {
+  readonly name = 'http';
+
+  constructor(private readonly options: HttpStrategyOptions) {}
+
+  async propose(context: FailureContext): Promise<HealProposal[]> {
+    const { endpoint, timeoutMs = 10_000, headers } = this.options;
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify({ context }),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`Heal endpoint ${endpoint} answered ${response.status} ${response.statusText}${body ? `: ${body}` : ''}`);
+    }
+
+    const body = await response.json() as { proposals?: unknown };
+    if (!Array.isArray(body?.proposals) || !body.proposals.every(isProposal)) {
+      throw new Error(`Heal endpoint ${endpoint} answered without a valid "proposals" array`);
+    }
+
+    return body.proposals.map(proposal => ({
+      ...proposal,
+      strategy: proposal.strategy || this.name,
+      rationale: proposal.rationale || '',
+    }));
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Failure Manifest Reporter
+ *
+ * Custom Playwright reporter that checks a run against the expected-failure
+ * manifest (see manifest.ts) and writes `test-results/manifest-check.json`:
+ * unexpected passes, unexpected failures and manifest drift.
+ *
+ * The scenarios applied to the app are read from APP_UI_CHANGES (the fixture
+ * app applies them itself; for the Angular app apply them on /dev first).
+ * Set MANIFEST_PHASE=healed after healing to expect every test to pass.
+ *
+ * Usage in playwright.config.ts:
+ *   ['./healing/manifest-reporter.ts', { outputFile: 'test-results/manifest-check.json' }]
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { FullResult, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { parseScenarioIds } from '../tests/helpers/ui-scenarios';
+import { checkManifest, DEFAULT_MANIFEST_FILE, loadManifest, ManifestCheck, ManifestPhase, TestOutcome } from './manifest';
+
+export interface ManifestReporterOptions {
+  manifest?: string;
+  outputFile?: string;
+}
+
+/** Spec file and title path, without the project segment. */
+export function manifestKey(test: TestCase): string {
+  const [, , ...titles] = test.titlePath();
+  return titles.join(' › ');
+}
+
+export default class ManifestReporter implements Reporter {
+  private readonly manifestFile: string;
+  private readonly outputFile: string;
+  private readonly outcomes = new Map<string, TestOutcome>();
+
+  constructor(options: ManifestReporterOptions = {}) {
+    this.manifestFile = options.manifest || process.env.FAILURE_MANIFEST || DEFAULT_MANIFEST_FILE;
+    this.outputFile = options.outputFile || 'test-results/manifest-check.json';
+  }
+
+  onTestEnd(test: TestCase, result: TestResult) {
+    // Skipped tests say nothing about the scenario; the final attempt wins.
+    if (result.status === 'skipped') {
+      this.outcomes.delete(test.id);
+      return;
+    }
+
+    this.outcomes.set(test.id, {
+      key: manifestKey(test),
+      project: test.parent.project()?.name || '',
+      failed: test.outcome() === 'unexpected',
+    });
+  }
+
+  onEnd(_result: FullResult) {
+    if (!fs.existsSync(this.manifestFile)) {
+      console.log(`\nFailure manifest: ${this.manifestFile} not found, skipping check.`);
+      return;
+    }
+
+    const phase: ManifestPhase = process.env.MANIFEST_PHASE === 'healed' ? 'healed' : 'broken';
+    const check = checkManifest(
+      loadManifest(this.manifestFile),
+      parseScenarioIds(process.env.APP_UI_CHANGES),
+      [...this.outcomes.values()],
+      phase
+    );
+
+    fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    fs.writeFileSync(this.outputFile, JSON.stringify(check, null, 2));
+
+    printCheck(check);
+    console.log(`  Written to ${this.outputFile}`);
+  }
+
+  printsToStdio() {
+    return false;
+  }
+}
+
+export function printCheck(check: ManifestCheck) {
+  const verdict = check.matches ? 'matches' : 'DOES NOT MATCH';
+  const counts = check.phase === 'healed'
+    ? `${check.healed.length} healed`
+    : `${check.expectedFailures.length} expected failure(s)`;
+
+  console.log(`\nFailure manifest [${check.scenario}, ${check.phase}]: ${verdict} (${counts})`);
+
+  const sections: [string, { key: string; project: string }[]][] = [
+    ['Unexpected passes', check.unexpectedPasses],
+    ['Unexpected failures', check.unexpectedFailures],
+    ['Drift (in manifest, not in run)', check.drift],
+  ];
+
+  for (const [label, entries] of sections) {
+    if (!entries.length) {
+      continue;
+    }
+    console.log(`  ${label}:`);
+    for (const entry of entries) {
+      console.log(`    [${entry.project}] ${entry.key}`);
+    }
+  }
+}
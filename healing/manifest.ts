@@ -0,0 +1,149 @@
+/**
+ * Expected-Failure Manifest
+ *
+ * Maps UI change scenarios to the exact tests expected to fail in each
+ * browser project while the suite still expects the initial UI, and
+ * compares a run against it.
+ *
+ * Tests are keyed by spec file and title path, e.g.
+ *   `core-functionality.spec.ts › Login › should have correct button text - WILL BREAK with Change #1`
+ *
+ * Scenario keys are single scenario ids or `+`-joined combinations. A
+ * combination without its own entry expects the union of its scenarios.
+ * The `*` project applies to every project.
+ */
+
+import fs from 'fs';
+import { UI_CHANGE_SCENARIOS, UiScenarioId } from '../tests/helpers/ui-scenarios';
+
+export const MANIFEST_SCHEMA_VERSION = 1;
+
+export const DEFAULT_MANIFEST_FILE = 'healing/expected-failures.json';
+
+export const ALL_PROJECTS = '*';
+
+/** `broken`: the app changed and the tests were not healed yet. `healed`: every test should pass. */
+export type ManifestPhase = 'broken' | 'healed';
+
+export interface FailureManifest {
+  schemaVersion: number;
+  /** Scenario key -> project name (or `*`) -> test keys expected to fail. */
+  scenarios: Record<string, Record<string, string[]>>;
+}
+
+export interface TestOutcome {
+  key: string;
+  project: string;
+  failed: boolean;
+}
+
+export interface ManifestCheck {
+  scenario: string;
+  phase: ManifestPhase;
+  /** Failed as the manifest predicts. */
+  expectedFailures: TestOutcome[];
+  /** Listed in the manifest but passed. */
+  unexpectedPasses: TestOutcome[];
+  /** Not listed in the manifest but failed. */
+  unexpectedFailures: TestOutcome[];
+  /** Listed in the manifest but not part of the run: renamed or deleted tests. */
+  drift: { key: string; project: string }[];
+  /** Healed phase only: manifest tests that now pass. */
+  healed: TestOutcome[];
+  matches: boolean;
+}
+
+/** Canonical key for a set of scenarios: catalog order, `+`-joined, empty for none. */
+export function scenarioKey(ids: UiScenarioId[]): string {
+  const catalog = Object.keys(UI_CHANGE_SCENARIOS) as UiScenarioId[];
+  return catalog.filter(id => ids.includes(id)).join('+');
+}
+
+function specFile(testKey: string): string {
+  return testKey.split(' › ')[0];
+}
+
+export function loadManifest(file = DEFAULT_MANIFEST_FILE): FailureManifest {
+  const manifest = JSON.parse(fs.readFileSync(file, 'utf-8')) as FailureManifest;
+
+  if (manifest.schemaVersion !== MANIFEST_SCHEMA_VERSION) {
+    throw new Error(`${file}: unsupported manifest schema version ${manifest.schemaVersion}`);
+  }
+
+  return manifest;
+}
+
+function entryFor(manifest: FailureManifest, key: string, project: string): string[] {
+  const entry = manifest.scenarios[key];
+  if (!entry) {
+    throw new Error(`Failure manifest has no entry for scenario "${key}"`);
+  }
+  return [...(entry[ALL_PROJECTS] || []), ...(entry[project] || [])];
+}
+
+/** Tests expected to fail in `project` while `ids` are applied to the app. */
+export function expectedFailures(manifest: FailureManifest, ids: UiScenarioId[], project: string): Set<string> {
+  const key = scenarioKey(ids);
+  if (!key) {
+    return new Set();
+  }
+
+  if (manifest.scenarios[key]) {
+    return new Set(entryFor(manifest, key, project));
+  }
+
+  return new Set(ids.flatMap(id => entryFor(manifest, id, project)));
+}
+
+export function checkManifest(
+  manifest: FailureManifest,
+  ids: UiScenarioId[],
+  outcomes: TestOutcome[],
+  phase: ManifestPhase = 'broken'
+): ManifestCheck {
+  const check: ManifestCheck = {
+    scenario: scenarioKey(ids) || 'none',
+    phase,
+    expectedFailures: [],
+    unexpectedPasses: [],
+    unexpectedFailures: [],
+    drift: [],
+    healed: [],
+    matches: true,
+  };
+
+  const projects = [...new Set(outcomes.map(outcome => outcome.project))];
+
+  for (const project of projects) {
+    const listed = expectedFailures(manifest, ids, project);
+    const ran = outcomes.filter(outcome => outcome.project === project);
+
+    for (const outcome of ran) {
+      const isListed = listed.has(outcome.key);
+
+      if (phase === 'healed') {
+        if (outcome.failed) {
+          check.unexpectedFailures.push(outcome);
+        } else if (isListed) {
+          check.healed.push(outcome);
+        }
+      } else if (outcome.failed) {
+        (isListed ? check.expectedFailures : check.unexpectedFailures).push(outcome);
+      } else if (isListed) {
+        check.unexpectedPasses.push(outcome);
+      }
+    }
+
+    // Only spec files that were part of the run can drift; running one file is not drift.
+    const ranKeys = new Set(ran.map(outcome => outcome.key));
+    const ranFiles = new Set(ran.map(outcome => specFile(outcome.key)));
+    for (const key of listed) {
+      if (ranFiles.has(specFile(key)) && !ranKeys.has(key)) {
+        check.drift.push({ key, project });
+      }
+    }
+  }
+
+  check.matches = !check.unexpectedPasses.length && !check.unexpectedFailures.length && !check.drift.length;
+  return check;
+}
@@ -0,0 +1,78 @@
+/**
+ * Mock Heal Server
+ *
+ * A local stand-in for the proposal service HttpStrategy talks to, for tests
+ * and for trying the HTTP path without the real service.
+ *
+ *   POST /propose   { "context": FailureContext } -> { "proposals": [...] }
+ *
+ * Proposals recorded for a test title are replayed as-is; other failures are
+ * answered by the offline strategy. Every request is kept in `requests`.
+ *
+ *   npm run heal-server              # http://localhost:4310/propose
+ *   PORT=5000 npm run heal-server
+ */
+
+import http from 'http';
+import { OfflineStrategy } from './offline-strategy';
+import type { FailureContext, HealProposal } from './strategy';
+
+export const MOCK_HEAL_SERVER_PORT = 4310;
+
+export interface MockHealServer {
+  server: http.Server;
+  /** Contexts received, oldest first. */
+  requests: FailureContext[];
+}
+
+function send(response: http.ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+/** `recordings` maps a test title to the proposals to answer with. */
+export function createMockHealServer(recordings: Record<string, HealProposal[]> = {}): MockHealServer {
+  const requests: FailureContext[] = [];
+  const fallback = new OfflineStrategy();
+
+  const server = http.createServer((request, response) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+
+    if (url.pathname !== '/propose') {
+      send(response, 404, { error: 'Not found' });
+      return;
+    }
+    if (request.method !== 'POST') {
+      send(response, 405, { error: 'Use POST' });
+      return;
+    }
+
+    let raw = '';
+    request.on('data', chunk => { raw += chunk; });
+    request.on('end', () => {
+      let context: FailureContext | undefined;
+      try {
+        context = (JSON.parse(raw) as { context?: FailureContext }).context;
+      } catch {
+        // Answered below.
+      }
+
+      if (!context?.test?.title) {
+        send(response, 400, { error: 'Expected { "context": FailureContext }' });
+        return;
+      }
+
+      requests.push(context);
+      send(response, 200, { proposals: recordings[context.test.title] ?? fallback.propose(context) });
+    });
+  });
+
+  return { server, requests };
+}
+
+if (require.main === module) {
+  const port = Number(process.env.PORT || MOCK_HEAL_SERVER_PORT);
+  createMockHealServer().server.listen(port, () => {
+    console.log(`Mock heal server running at http://localhost:${port}/propose`);
+  });
+}
@@ -0,0 +1,141 @@
+/**
+ * Robustness Matrix
+ *
+ * Combines one run without mutations and one run per DOM mutation (see
+ * tests/helpers/mutations.ts) into a mutation × test matrix: a test that
+ * passed without mutations either survived a mutation or was killed by it.
+ * Tests that already fail without mutations are listed separately, since
+ * they say nothing about robustness.
+ */
+
+import { parseFailure } from './triage';
+
+export interface MutationOutcome {
+  /** Spec file and title path, e.g. `core-functionality.spec.ts › Login › ...`. */
+  key: string;
+  project: string;
+  passed: boolean;
+  /** The locator the failure blames, when the error names one. */
+  locator?: string;
+}
+
+export interface MutationRun {
+  /** Mutation ids applied for the run; empty for the unmutated run. */
+  mutations: string[];
+  outcomes: MutationOutcome[];
+}
+
+export type MutationVerdict = 'survived' | 'killed' | 'not-run';
+
+export interface MatrixRow {
+  key: string;
+  project: string;
+  results: Record<string, MutationVerdict>;
+}
+
+export interface MutationSummary {
+  killed: number;
+  survived: number;
+  /** Share of tests that survived, 0-1. */
+  score: number;
+  /** Locators named by the killed tests' errors, with how often. */
+  killedBy: Record<string, number>;
+}
+
+export interface RobustnessMatrix {
+  generatedAt: string;
+  mutations: string[];
+  rows: MatrixRow[];
+  summary: Record<string, MutationSummary>;
+  /** `[project] key` of tests that fail even without mutations. */
+  brokenWithoutMutations: string[];
+}
+
+const outcomeId = (outcome: { key: string; project: string }) => `[${outcome.project}] ${outcome.key}`;
+
+/** Reads the locator an error message blames (see triage.ts). */
+export function failingLocator(message: string): string | undefined {
+  return parseFailure(message).locator;
+}
+
+export function buildMatrix(baseline: MutationRun, runs: MutationRun[]): RobustnessMatrix {
+  const mutations = runs.map(run => run.mutations.join('+'));
+  const healthy = baseline.outcomes.filter(outcome => outcome.passed);
+  const byRun = runs.map(run => new Map(run.outcomes.map(outcome => [outcomeId(outcome), outcome])));
+
+  const rows: MatrixRow[] = healthy.map(({ key, project }) => ({
+    key,
+    project,
+    results: Object.fromEntries(mutations.map((mutation, index) => {
+      const outcome = byRun[index].get(outcomeId({ key, project }));
+      return [mutation, !outcome ? 'not-run' : outcome.passed ? 'survived' : 'killed'];
+    })),
+  }));
+
+  const summary: Record<string, MutationSummary> = {};
+  mutations.forEach((mutation, index) => {
+    const verdicts = rows.map(row => row.results[mutation]).filter(verdict => verdict !== 'not-run');
+    const killedBy: Record<string, number> = {};
+
+    for (const row of rows.filter(candidate => candidate.results[mutation] === 'killed')) {
+      const locator = byRun[index].get(outcomeId(row))?.locator || '(no locator in error)';
+      killedBy[locator] = (killedBy[locator] || 0) + 1;
+    }
+
+    const survived = verdicts.filter(verdict => verdict === 'survived').length;
+    summary[mutation] = {
+      killed: verdicts.length - survived,
+      survived,
+      score: verdicts.length ? survived / verdicts.length : 1,
+      killedBy,
+    };
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    mutations,
+    rows: rows.sort((a, b) => a.key.localeCompare(b.key) || a.project.localeCompare(b.project)),
+    summary,
+    brokenWithoutMutations: baseline.outcomes.filter(outcome => !outcome.passed).map(outcomeId),
+  };
+}
+
+const VERDICT_MARKS: Record<MutationVerdict, string> = { survived: '✓', killed: '✗', 'not-run': '–' };
+
+export function renderMatrixMarkdown(matrix: RobustnessMatrix): string {
+  const lines = [
+    '# Selector Robustness Matrix',
+    '',
+    '✓ survived, ✗ killed, – not run.',
+    '',
+    '| Mutation | Killed | Survived | Score |',
+    '|----------|--------|----------|-------|',
+    ...matrix.mutations.map(mutation => {
+      const { killed, survived, score } = matrix.summary[mutation];
+      return `| \`${mutation}\` | ${killed} | ${survived} | ${Math.round(score * 100)}% |`;
+    }),
+    '',
+    '## Tests',
+    '',
+    `| Test | Project | ${matrix.mutations.map(mutation => `\`${mutation}\``).join(' | ')} |`,
+    `|------|---------|${matrix.mutations.map(() => '---').join('|')}|`,
+    ...matrix.rows.map(row =>
+      `| ${row.key} | ${row.project} | ${matrix.mutations.map(mutation => VERDICT_MARKS[row.results[mutation]]).join(' | ')} |`),
+  ];
+
+  const killers = matrix.mutations.filter(mutation => matrix.summary[mutation].killed);
+  if (killers.length) {
+    lines.push('', '## Locators to harden', '');
+    for (const mutation of killers) {
+      const locators = Object.entries(matrix.summary[mutation].killedBy).sort((a, b) => b[1] - a[1]);
+      lines.push(`- \`${mutation}\`: ${locators.map(([locator, count]) => `\`${locator}\` (${count})`).join(', ')}`);
+    }
+  }
+
+  if (matrix.brokenWithoutMutations.length) {
+    lines.push('', '## Failing without mutations', '');
+    lines.push(...matrix.brokenWithoutMutations.map(id => `- ${id}`));
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,52 @@
+/**
+ * Mutation Run Reporter
+ *
+ * Records whether each test passed, and which locator a failure blames, for
+ * one run of the suite under the mutations in MUTATIONS. Used by
+ * `npm run mutate`, which passes it on the command line and reads the
+ * output file named by MUTATION_OUTPUT (default
+ * `test-results/mutation-run.json`).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { FullResult, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { parseMutationIds } from '../tests/helpers/mutations';
+import { manifestKey } from './manifest-reporter';
+import { failingLocator, MutationOutcome, MutationRun } from './mutation-matrix';
+
+export default class MutationReporter implements Reporter {
+  private readonly outputFile = process.env.MUTATION_OUTPUT || 'test-results/mutation-run.json';
+  private readonly outcomes = new Map<string, MutationOutcome>();
+
+  onTestEnd(test: TestCase, result: TestResult) {
+    if (result.status === 'skipped') {
+      this.outcomes.delete(test.id);
+      return;
+    }
+
+    const passed = test.outcome() !== 'unexpected';
+    const message = result.errors.map(error => error.message || error.value || '').join('\n\n');
+
+    this.outcomes.set(test.id, {
+      key: manifestKey(test),
+      project: test.parent.project()?.name || '',
+      passed,
+      ...(!passed && { locator: failingLocator(message) }),
+    });
+  }
+
+  onEnd(_result: FullResult) {
+    const run: MutationRun = {
+      mutations: parseMutationIds(process.env.MUTATIONS),
+      outcomes: [...this.outcomes.values()],
+    };
+
+    fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    fs.writeFileSync(this.outputFile, JSON.stringify(run, null, 2));
+  }
+
+  printsToStdio() {
+    return false;
+  }
+}
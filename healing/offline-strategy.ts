@@ -0,0 +1,162 @@
+/**
+ * Offline Healing Strategy
+ *
+ * Deterministic heuristics over the failure's DOM snapshot, no network:
+ * - a test id the DOM diff shows renamed is followed directly
+ * - otherwise every element is scored by test-id edit distance, text
+ *   similarity to the expected text, and whether its role matches
+ * - a text mismatch on a `UI_TEXT` value proposes the received text
+ */
+
+import { DomNode } from '../tests/helpers/dom-snapshot';
+import { textSimilarity } from '../tests/helpers/similarity';
+import type { FailureContext, HealProposal, HealingStrategy } from './strategy';
+
+interface LocatorHints {
+  testId?: string;
+  role?: string;
+  text?: string;
+}
+
+const WEIGHTS = { testId: 0.4, text: 0.4, role: 0.2 };
+
+const TAG_ROLES: Record<string, string> = {
+  a: 'link', button: 'button', select: 'combobox', textarea: 'textbox', table: 'table',
+  th: 'columnheader', td: 'cell', tr: 'row', nav: 'navigation', form: 'form', dialog: 'dialog',
+  h1: 'heading', h2: 'heading', h3: 'heading', h4: 'heading', h5: 'heading', h6: 'heading',
+};
+
+export function roleOf(node: DomNode): string {
+  if (node.attributes.role) return node.attributes.role;
+  if (node.tag === 'input') {
+    const type = node.attributes.type || 'text';
+    return ['submit', 'button', 'reset'].includes(type) ? 'button' : ['checkbox', 'radio'].includes(type) ? type : 'textbox';
+  }
+  return TAG_ROLES[node.tag] || '';
+}
+
+/** Test id, role and text the failing locator (or its POM strategies) looked for. */
+export function locatorHints(context: FailureContext): LocatorHints {
+  const hints: LocatorHints = {};
+  const selectors = [context.locator.selector, ...(context.locator.strategies || [])].filter((s): s is string => !!s);
+
+  for (const selector of selectors) {
+    hints.testId ??= selector.match(/getByTestId\('([^']+)'\)/)?.[1];
+    hints.role ??= selector.match(/getByRole\('([^']+)'/)?.[1];
+    hints.text ??= selector.match(/(?:getByText|getByLabel)\('([^']+)'\)|name: '([^']+)'/)?.slice(1).find(Boolean);
+  }
+
+  if (typeof context.expected?.value === 'string') {
+    hints.text ??= context.expected.value;
+  }
+
+  return hints;
+}
+
+function quote(text: string): string {
+  return `'${text.replace(/'/g, "\\'")}'`;
+}
+
+/** The most stable locator for a snapshot element. */
+export function locatorFor(node: DomNode): string {
+  if (node.testId) return `getByTestId(${quote(node.testId)})`;
+  const role = roleOf(node);
+  if (role && node.text) return `getByRole(${quote(role)}, { name: ${quote(node.text)} })`;
+  if (node.text) return `getByText(${quote(node.text)})`;
+  return `locator(${quote(node.path)})`;
+}
+
+export class OfflineStrategy implements HealingStrategy {
+  readonly name = 'offline';
+
+  constructor(
+    private readonly options: { maxProposals?: number; minConfidence?: number } = {}
+  ) {}
+
+  propose(context: FailureContext): HealProposal[] {
+    const proposals = [...this.textProposals(context), ...this.locatorProposals(context)];
+    return proposals
+      .filter(proposal => proposal.confidence >= (this.options.minConfidence ?? 0.4))
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, this.options.maxProposals ?? 3);
+  }
+
+  private textProposals(context: FailureContext): HealProposal[] {
+    const { expected, received } = context;
+    if (context.category !== 'text-mismatch' || !expected?.source || received === undefined) {
+      return [];
+    }
+
+    const before = JSON.stringify(expected.value);
+    const after = received.startsWith('[') ? received : JSON.stringify(received);
+    return [{
+      strategy: this.name,
+      kind: 'text',
+      target: expected.source,
+      before,
+      after,
+      confidence: 0.9,
+      rationale: `The element was found but shows ${after} instead of ${before}, which ${expected.source} still holds.`,
+    }];
+  }
+
+  private locatorProposals(context: FailureContext): HealProposal[] {
+    if (context.category !== 'locator-not-found') {
+      return [];
+    }
+
+    const hints = locatorHints(context);
+    const target = context.locator.pomField ?? context.locator.selector ?? 'locator';
+    const before = context.locator.strategies?.[0] ?? context.locator.selector ?? '';
+
+    const rename = context.domDiff?.changes.find(change => change.kind === 'renamed' && change.from === hints.testId);
+    if (rename?.kind === 'renamed' && rename.to) {
+      return [{
+        strategy: this.name,
+        kind: 'locator',
+        target,
+        before,
+        after: `getByTestId(${quote(rename.to)})`,
+        confidence: 0.95,
+        rationale: `The DOM diff pairs data-testid="${rename.from}" with the same <${rename.node.tag}> now carrying data-testid="${rename.to}".`,
+      }];
+    }
+
+    return (context.snapshot?.nodes || [])
+      .map(node => ({ node, ...this.score(hints, node) }))
+      .filter(({ score }) => score > 0)
+      .map(({ node, score, reasons }) => ({
+        strategy: this.name,
+        kind: 'locator' as const,
+        target,
+        before,
+        after: locatorFor(node),
+        confidence: Number(score.toFixed(2)),
+        rationale: reasons.join('; '),
+      }));
+  }
+
+  /** Weighted over the hints the failure provides, like fingerprint scoring. */
+  private score(hints: LocatorHints, node: DomNode): { score: number; reasons: string[] } {
+    const parts: { weight: number; value: number; reason: string }[] = [];
+
+    if (hints.testId) {
+      const value = node.testId ? textSimilarity(hints.testId, node.testId) : 0;
+      parts.push({ weight: WEIGHTS.testId, value, reason: `test id ${node.testId ?? '(none)'} vs ${hints.testId}: ${value.toFixed(2)}` });
+    }
+    if (hints.text) {
+      const value = textSimilarity(hints.text, node.text);
+      parts.push({ weight: WEIGHTS.text, value, reason: `text "${node.text}" vs "${hints.text}": ${value.toFixed(2)}` });
+    }
+    if (hints.role) {
+      const value = roleOf(node) === hints.role ? 1 : 0;
+      parts.push({ weight: WEIGHTS.role, value, reason: `role ${roleOf(node) || '(none)'}${value ? ' matches' : ` is not ${hints.role}`}` });
+    }
+
+    const weight = parts.reduce((sum, part) => sum + part.weight, 0);
+    return {
+      score: weight ? parts.reduce((sum, part) => sum + part.weight * part.value, 0) / weight : 0,
+      reasons: parts.map(part => part.reason),
+    };
+  }
+}
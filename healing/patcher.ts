@@ -0,0 +1,554 @@
+/**
+ * Heal Patcher
+ *
+ * Turns classified failures (see triage.ts) into source edits:
+ * - update a `UI_TEXT` constant (or a spec literal) to the text the app now shows
+ * - swap a fragile `getByText(...)` for the `getByTestId(...)` of the same element
+ * - follow a `getByTestId(...)` whose test id the route's DOM diff shows renamed
+ * - replace `toHaveCount(n)` on table headers with a header-name assertion
+ *
+ * Proposals accepted in review (see review.ts) are planned the same way:
+ * text proposals update their `UI_TEXT` constant, locator proposals for a POM
+ * field become that HealingLocator's new primary strategy.
+ *
+ * Planning never touches the disk; callers decide whether to write the result.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { createTwoFilesPatch } from 'diff';
+import { FingerprintStoreData } from '../tests/helpers/fingerprint';
+import { SnapshotDiff } from '../tests/helpers/dom-snapshot';
+import { parseStrategy } from '../tests/helpers/healing-locator';
+import { normalizeText } from '../tests/helpers/similarity';
+import type { ReviewDecision } from './review';
+import { FailureCategory } from './triage';
+import {
+  SourceEdit, applyEdits, calleeName, findAll, findConstant, findTestBody, formatLiteral,
+  literalValue, parseSource, propertyPath, replaceNode,
+} from './source-edits';
+
+export type HealKind =
+  | 'update-ui-text' | 'update-literal' | 'swap-to-testid' | 'rename-testid' | 'count-to-headers' | 'prepend-strategy';
+
+/** The subset of a triage entry the patcher needs. */
+export interface HealInput {
+  title: string;
+  file: string;
+  line: number;
+  project?: string;
+  category: FailureCategory;
+  matcher?: string;
+  locator?: string;
+  expected?: string;
+  received?: string;
+  /** Structural diff of the page the test failed on against its baseline snapshot. */
+  domDiff?: SnapshotDiff;
+}
+
+export interface HealPatch {
+  kind: HealKind;
+  title: string;
+  file: string;
+  line: number;
+  projects: string[];
+  category: FailureCategory;
+  summary: string;
+  rationale: string;
+  edits: SourceEdit[];
+}
+
+export interface SkippedHeal {
+  title: string;
+  file: string;
+  line: number;
+  category: FailureCategory;
+  reason: string;
+}
+
+export interface HealPlan {
+  patches: HealPatch[];
+  skipped: SkippedHeal[];
+}
+
+export interface HealerOptions {
+  rootDir: string;
+  /** Relative to rootDir. */
+  testDataFile?: string;
+  fingerprints?: FingerprintStoreData;
+}
+
+export const DEFAULT_TEST_DATA_FILE = 'tests/helpers/test-data.ts';
+export const DEFAULT_PAGE_OBJECTS_FILE = 'tests/helpers/page-objects.ts';
+
+const EXPECTED_VALUE_MATCHERS = ['toHaveText', 'toContainText', 'toEqual', 'toStrictEqual'];
+
+interface ResolvedValue {
+  value: string | string[];
+  node: ts.Node;
+  file: string;
+  sourceFile: ts.SourceFile;
+  /** Set when the value comes from a constant in the test data file. */
+  constantPath?: string[];
+}
+
+class HealContext {
+  private readonly sources = new Map<string, ts.SourceFile>();
+
+  constructor(readonly options: Required<Pick<HealerOptions, 'rootDir' | 'testDataFile'>> & HealerOptions) {}
+
+  source(file: string): ts.SourceFile {
+    if (!this.sources.has(file)) {
+      this.sources.set(file, parseSource(path.join(this.options.rootDir, file)));
+    }
+    return this.sources.get(file)!;
+  }
+
+  get testData(): ts.SourceFile {
+    return this.source(this.options.testDataFile);
+  }
+
+  /** Literal value of `node`, following `UI_TEXT.*` references into the test data file. */
+  resolve(file: string, node: ts.Node): ResolvedValue | undefined {
+    const value = literalValue(node);
+    if (value !== undefined) {
+      return { value, node, file, sourceFile: this.source(file) };
+    }
+
+    const constantPath = uiTextPath(propertyPath(node));
+    if (!constantPath) return undefined;
+
+    const constant = findConstant(this.testData, constantPath);
+    const constantValue = literalValue(constant);
+    if (!constant || constantValue === undefined) return undefined;
+
+    return { value: constantValue, node: constant, file: this.options.testDataFile, sourceFile: this.testData, constantPath };
+  }
+
+  /** The data-testid of the baseline element that showed `text`, if exactly one did. */
+  testIdForText(text: string): string | undefined {
+    const wanted = normalizeText(text);
+    const testIds = new Set<string>();
+
+    for (const entry of Object.values(this.options.fingerprints?.elements || {})) {
+      const { fingerprint } = entry;
+      const testId = fingerprint.attributes['data-testid'];
+      if (testId && (normalizeText(fingerprint.text) === wanted || normalizeText(fingerprint.name) === wanted)) {
+        testIds.add(testId);
+      }
+    }
+
+    return testIds.size === 1 ? [...testIds][0] : undefined;
+  }
+
+  imports(file: string, name: string): boolean {
+    return findAll(this.source(file), ts.isImportSpecifier).some(specifier => specifier.name.text === name);
+  }
+}
+
+/**
+ * `EXPECTED_UI.x` is `UI_TEXT.initial.x` with the active UI change scenarios
+ * applied (see ui-scenarios.ts), so heals edit the initial constant.
+ */
+function uiTextPath(path: string[] | undefined): string[] | undefined {
+  if (path?.[0] === 'EXPECTED_UI' && path.length === 2) return ['UI_TEXT', 'initial', path[1]];
+  if (path?.[0] === 'UI_TEXT') return path;
+  return undefined;
+}
+
+function sameValue(value: string | string[], serialized: string | undefined): boolean {
+  return typeof value === 'string' ? value === serialized : JSON.stringify(value) === serialized;
+}
+
+function parseReceived(received: string | undefined, like: string | string[]): string | string[] | undefined {
+  if (received === undefined) return undefined;
+  if (typeof like === 'string') return received;
+  try {
+    const parsed = JSON.parse(received);
+    return Array.isArray(parsed) ? parsed.map(String) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Empty text, an empty list or a list with blank entries: the page showed nothing to heal towards. */
+function isDegenerate(value: string | string[]): boolean {
+  return typeof value === 'string' ? !value.trim() : !value.length || value.some(item => !item.trim());
+}
+
+type Planned = Omit<HealPatch, 'title' | 'file' | 'line' | 'projects' | 'category'>;
+
+function healExpectedValue(context: HealContext, failure: HealInput, body: ts.Node): Planned | string {
+  const calls = findAll(body, ts.isCallExpression).filter(call => calleeName(call) === failure.matcher);
+
+  for (const call of calls) {
+    const [argument] = call.arguments;
+    const resolved = argument && context.resolve(failure.file, argument);
+    if (!resolved || !sameValue(resolved.value, failure.expected)) continue;
+
+    const received = parseReceived(failure.received, resolved.value);
+    if (received === undefined) return 'Could not read the received value from the error';
+    if (isDegenerate(received)) {
+      return `Received ${formatLiteral(received)} looks like nothing rendered, not like new UI text`;
+    }
+
+    const before = formatLiteral(resolved.value);
+    const after = formatLiteral(received);
+    const edit = replaceNode(resolved.file, resolved.sourceFile, resolved.node, after);
+
+    if (resolved.constantPath) {
+      const name = resolved.constantPath.join('.');
+      return {
+        kind: 'update-ui-text',
+        summary: `Update ${name}: ${before} -> ${after}`,
+        rationale: `\`${failure.matcher}\` compares against \`${name}\`, which still holds the old UI text. `
+          + `The element was found, only its content changed, so the constant is updated rather than the locator.`,
+        edits: [edit],
+      };
+    }
+
+    return {
+      kind: 'update-literal',
+      summary: `Update expected value in spec: ${before} -> ${after}`,
+      rationale: `The expected value is a literal in the spec. Consider moving it into \`UI_TEXT\` so future text changes are a one-line heal.`,
+      edits: [edit],
+    };
+  }
+
+  return `No ${failure.matcher}(...) call in the test resolves to the expected value`;
+}
+
+function healTextLocator(context: HealContext, failure: HealInput, body: ts.Node): Planned | string {
+  const text = failure.locator?.match(/getByText\('((?:[^'\\]|\\.)*)'/)?.[1];
+  if (text === undefined) return 'Locator is not a getByText(...) locator';
+
+  const testId = context.testIdForText(text);
+  if (!testId) return `No single baseline fingerprint with text "${text}" and a data-testid`;
+
+  const calls = findAll(body, ts.isCallExpression).filter(call => {
+    if (calleeName(call) !== 'getByText' || !ts.isPropertyAccessExpression(call.expression)) return false;
+    const resolved = call.arguments[0] && context.resolve(failure.file, call.arguments[0]);
+    return resolved?.value === text;
+  });
+  if (!calls.length) return `No getByText(...) call in the test resolves to "${text}"`;
+
+  const sourceFile = context.source(failure.file);
+  const edits = calls.map(call => ({
+    file: failure.file,
+    start: (call.expression as ts.PropertyAccessExpression).name.getStart(sourceFile),
+    end: call.getEnd(),
+    text: `getByTestId(${formatLiteral(testId)})`,
+  }));
+
+  return {
+    kind: 'swap-to-testid',
+    summary: `Swap getByText('${text}') for getByTestId('${testId}')`,
+    rationale: `The test located the element by its visible text, which changed. The baseline fingerprint shows the same `
+      + `element carries \`data-testid="${testId}"\`, which does not depend on copy changes.`,
+    edits,
+  };
+}
+
+function healRenamedTestId(context: HealContext, failure: HealInput, body: ts.Node): Planned | string {
+  const testId = failure.locator?.match(/getByTestId\('((?:[^'\\]|\\.)*)'\)/)?.[1];
+  if (testId === undefined) return 'Locator is not a getByTestId(...) locator';
+  if (!failure.domDiff) return `No DOM diff attached to tell what "${testId}" became`;
+
+  const rename = failure.domDiff.changes.find(change => change.kind === 'renamed' && change.from === testId);
+  if (rename?.kind !== 'renamed' || !rename.to) return `The DOM diff does not show "${testId}" renamed`;
+
+  const resolved = findAll(body, ts.isCallExpression)
+    .filter(call => calleeName(call) === 'getByTestId' && call.arguments.length > 0)
+    .map(call => context.resolve(failure.file, call.arguments[0]))
+    .filter((value): value is ResolvedValue => value?.value === testId);
+  if (!resolved.length) return `No getByTestId(...) call in the test resolves to "${testId}"`;
+
+  const after = formatLiteral(rename.to);
+  // Several calls may share one constant; edit it once.
+  const unique = [...new Map(resolved.map(value => [value.node, value])).values()];
+  const edits = unique.map(value => replaceNode(value.file, value.sourceFile, value.node, after));
+
+  return {
+    kind: 'rename-testid',
+    summary: `Rename test id '${testId}' -> '${rename.to}'`,
+    rationale: `The ${failure.domDiff.route} snapshot diff pairs the baseline element \`data-testid="${testId}"\` with a `
+      + `<${rename.node.tag}>${rename.node.text ? ` "${rename.node.text}"` : ''} that now carries \`data-testid="${rename.to}"\`. `
+      + `Only the id changed, so the locator follows it.`,
+    edits,
+  };
+}
+
+function healHeaderCount(context: HealContext, failure: HealInput, body: ts.Node): Planned | string {
+  if (!failure.locator || !/\bth\b|columnheader/.test(failure.locator)) {
+    return 'Count assertion is not on table headers';
+  }
+
+  const count = Number(failure.expected);
+  const headerKeys = findAll(context.testData, ts.isPropertyAssignment).filter(property => {
+    const value = literalValue(property.initializer);
+    return Array.isArray(value) && value.length === count && /header/i.test(property.name.getText(context.testData));
+  });
+  if (headerKeys.length !== 1) return `No single UI_TEXT header list with ${count} entries`;
+
+  const headerPath = ['UI_TEXT', ...ancestorsPath(headerKeys[0], context.testData)];
+  const headerValue = literalValue(headerKeys[0].initializer) as string[];
+  const argument = context.imports(failure.file, 'EXPECTED_UI') && headerPath[1] === 'initial' && headerPath.length === 3
+    ? `EXPECTED_UI.${headerPath[2]}`
+    : context.imports(failure.file, 'UI_TEXT') ? headerPath.join('.') : formatLiteral(headerValue);
+
+  const sourceFile = context.source(failure.file);
+  const calls = findAll(body, ts.isCallExpression).filter(call =>
+    calleeName(call) === 'toHaveCount'
+    && ts.isPropertyAccessExpression(call.expression)
+    && Number(literalNumber(call.arguments[0])) === count
+  );
+  if (!calls.length) return `No toHaveCount(${count}) call in the test`;
+
+  return {
+    kind: 'count-to-headers',
+    summary: `Replace toHaveCount(${count}) with toContainText(${argument})`,
+    rationale: `Counting header cells breaks whenever a column is added. \`toContainText\` with an array checks the expected `
+      + `headers appear in order and tolerates extra columns, which is what the test actually cares about.`,
+    edits: calls.map(call => ({
+      file: failure.file,
+      start: (call.expression as ts.PropertyAccessExpression).name.getStart(sourceFile),
+      end: call.getEnd(),
+      text: `toContainText(${argument})`,
+    })),
+  };
+}
+
+function literalNumber(node: ts.Node | undefined): string | undefined {
+  return node && ts.isNumericLiteral(node) ? node.text : undefined;
+}
+
+/** Property names from the enclosing `export const X = {...}` down to `property`. */
+function ancestorsPath(property: ts.PropertyAssignment, sourceFile: ts.SourceFile): string[] {
+  const names: string[] = [];
+  let current: ts.Node = property;
+
+  while (current && !ts.isVariableDeclaration(current)) {
+    if (ts.isPropertyAssignment(current)) names.unshift(current.name.getText(sourceFile));
+    current = current.parent;
+  }
+
+  return names;
+}
+
+function planOne(context: HealContext, failure: HealInput): Planned | string {
+  if (!fs.existsSync(path.join(context.options.rootDir, failure.file))) {
+    return `${failure.file} does not exist under ${context.options.rootDir}`;
+  }
+
+  const body = findTestBody(context.source(failure.file), failure.line);
+  if (!body) return `No test declared at ${failure.file}:${failure.line}`;
+
+  if (failure.matcher && EXPECTED_VALUE_MATCHERS.includes(failure.matcher)
+    && (failure.category === 'text-mismatch' || failure.category === 'count-mismatch')) {
+    return healExpectedValue(context, failure, body);
+  }
+
+  if (failure.category === 'locator-not-found') {
+    return /getByTestId\(/.test(failure.locator ?? '')
+      ? healRenamedTestId(context, failure, body)
+      : healTextLocator(context, failure, body);
+  }
+
+  if (failure.category === 'count-mismatch' && failure.matcher === 'toHaveCount') {
+    return healHeaderCount(context, failure, body);
+  }
+
+  return `No automatic heal for ${failure.category}${failure.matcher ? ` on ${failure.matcher}` : ''}`;
+}
+
+export function planHeals(failures: HealInput[], options: HealerOptions): HealPlan {
+  const context = new HealContext({ testDataFile: DEFAULT_TEST_DATA_FILE, ...options });
+  const plan: HealPlan = { patches: [], skipped: [] };
+  const byTest = new Map<string, HealInput[]>();
+
+  // The same test fails once per browser project; heal it once.
+  for (const failure of failures) {
+    const key = `${failure.file}:${failure.line}`;
+    byTest.set(key, [...(byTest.get(key) || []), failure]);
+  }
+
+  const claimed = new Map<string, string>();
+
+  for (const group of byTest.values()) {
+    const [failure] = group;
+    const location = { title: failure.title, file: failure.file, line: failure.line, category: failure.category };
+    const planned = planOne(context, failure);
+
+    if (typeof planned === 'string') {
+      plan.skipped.push({ ...location, reason: planned });
+      continue;
+    }
+
+    // Two tests may heal the same constant; keep the first and drop exact repeats.
+    const fresh = planned.edits.filter(edit => claimed.get(`${edit.file}:${edit.start}:${edit.end}`) !== edit.text);
+    const conflict = fresh.find(edit => claimed.has(`${edit.file}:${edit.start}:${edit.end}`));
+    if (conflict) {
+      plan.skipped.push({ ...location, reason: `Conflicts with an earlier heal of ${conflict.file}` });
+      continue;
+    }
+    fresh.forEach(edit => claimed.set(`${edit.file}:${edit.start}:${edit.end}`, edit.text));
+
+    plan.patches.push({
+      ...planned,
+      ...location,
+      projects: [...new Set(group.map(item => item.project).filter((project): project is string => !!project))],
+      edits: fresh,
+    });
+  }
+
+  return plan;
+}
+
+/** The `by.*` builder call that produces a strategy description, e.g. `by.testId('x')` for `getByTestId('x')`. */
+function strategySource(description: string): string | undefined {
+  const builders: Record<string, string> = { getByTestId: 'testId', getByRole: 'role', getByLabel: 'label', getByText: 'text', locator: 'css' };
+  const match = description.match(/^(\w+)\((.*)\)$/s);
+  return match && builders[match[1]] && parseStrategy(description) ? `by.${builders[match[1]]}(${match[2]})` : undefined;
+}
+
+function healAcceptedText(context: HealContext, decision: ReviewDecision): Planned | string {
+  const { target, before, after } = decision.proposal;
+  const constantPath = uiTextPath(target.split('.'));
+  const constant = constantPath && findConstant(context.testData, constantPath);
+  const value = literalValue(constant);
+  if (!constant || value === undefined) return `${target} is not a UI_TEXT constant in ${context.options.testDataFile}`;
+
+  let current: string | string[];
+  let replacement: string | string[];
+  try {
+    current = JSON.parse(before);
+    replacement = JSON.parse(after);
+  } catch {
+    return `The proposal's before/after values for ${target} are not JSON`;
+  }
+  if (JSON.stringify(value) !== JSON.stringify(current)) return `${target} no longer holds ${before}`;
+
+  return {
+    kind: 'update-ui-text',
+    summary: `Update ${target}: ${formatLiteral(value)} -> ${formatLiteral(replacement)}`,
+    rationale: decision.proposal.rationale,
+    edits: [replaceNode(context.options.testDataFile, context.testData, constant, formatLiteral(replacement))],
+  };
+}
+
+function healAcceptedLocator(context: HealContext, decision: ReviewDecision, pageObjectsFile: string): Planned | string {
+  const { target, after } = decision.proposal;
+  const source = strategySource(after);
+  if (!source) return `Cannot write ${after} as a locator strategy`;
+
+  const sourceFile = context.source(pageObjectsFile);
+  const declaration = findAll(sourceFile, ts.isCallExpression).find(call =>
+    calleeName(call) === 'healingLocator' && literalValue(call.arguments[1]) === target);
+  const strategies = declaration?.arguments[2];
+  if (!strategies || !ts.isArrayLiteralExpression(strategies) || !strategies.elements.length) {
+    return `No healingLocator(...) declares ${target} in ${pageObjectsFile}`;
+  }
+
+  const [primary] = strategies.elements;
+  const start = primary.getStart(sourceFile);
+  const indent = sourceFile.text.slice(sourceFile.text.lastIndexOf('\n', start) + 1, start);
+
+  return {
+    kind: 'prepend-strategy',
+    summary: `Try ${after} first for ${target}`,
+    rationale: `${decision.proposal.rationale} The previous strategies stay as fallbacks.`,
+    edits: [{ file: pageObjectsFile, start, end: start, text: `${source},\n${indent}` }],
+  };
+}
+
+/** Plans the proposals accepted in review; other verdicts are ignored. */
+export function planReviewedHeals(decisions: ReviewDecision[], options: HealerOptions & { pageObjectsFile?: string }): HealPlan {
+  const context = new HealContext({ testDataFile: DEFAULT_TEST_DATA_FILE, ...options });
+  const pageObjectsFile = options.pageObjectsFile ?? DEFAULT_PAGE_OBJECTS_FILE;
+  const plan: HealPlan = { patches: [], skipped: [] };
+  const claimed = new Set<string>();
+
+  for (const decision of decisions.filter(candidate => candidate.verdict === 'accepted')) {
+    const [test] = decision.tests;
+    const location = { title: test.title, file: test.file, line: test.line, category: decision.category };
+    const { kind, target } = decision.proposal;
+
+    const planned = kind === 'text'
+      ? healAcceptedText(context, decision)
+      : /^[A-Z]\w*\.\w+$/.test(target) && !target.startsWith('UI_TEXT.')
+        ? healAcceptedLocator(context, decision, pageObjectsFile)
+        : `No automatic patch for ${kind} proposals on ${target}; apply it by hand`;
+
+    if (typeof planned === 'string') {
+      plan.skipped.push({ ...location, reason: planned });
+      continue;
+    }
+    if (claimed.has(target)) {
+      plan.skipped.push({ ...location, reason: `Another accepted proposal already changes ${target}` });
+      continue;
+    }
+    claimed.add(target);
+
+    plan.patches.push({
+      ...planned,
+      ...location,
+      rationale: `${planned.rationale} Accepted by ${decision.decidedBy}${decision.edited ? ', edited' : ''}.`,
+      projects: [...new Set(decision.tests.map(item => item.project))],
+    });
+  }
+
+  return plan;
+}
+
+export interface PatchedFile {
+  file: string;
+  before: string;
+  after: string;
+}
+
+export function patchedFiles(plan: HealPlan, rootDir: string): PatchedFile[] {
+  const editsByFile = new Map<string, SourceEdit[]>();
+  for (const edit of plan.patches.flatMap(patch => patch.edits)) {
+    editsByFile.set(edit.file, [...(editsByFile.get(edit.file) || []), edit]);
+  }
+
+  return [...editsByFile.entries()].map(([file, edits]) => {
+    const before = fs.readFileSync(path.join(rootDir, file), 'utf-8');
+    return { file, before, after: applyEdits(before, edits) };
+  });
+}
+
+export function renderDiff(files: PatchedFile[]): string {
+  return files
+    .map(({ file, before, after }) => createTwoFilesPatch(`a/${file}`, `b/${file}`, before, after, '', ''))
+    .join('');
+}
+
+export function renderRationale(plan: HealPlan): string {
+  const lines = ['# Heal Rationale', ''];
+
+  plan.patches.forEach((patch, index) => {
+    lines.push(
+      `## ${index + 1}. ${patch.summary}`,
+      '',
+      `- **Test**: \`${patch.title}\` (${patch.file}:${patch.line})`,
+      `- **Projects**: ${patch.projects.join(', ') || 'n/a'}`,
+      `- **Failure**: ${patch.category}`,
+      `- **Change**: ${patch.kind} in ${[...new Set(patch.edits.map(edit => edit.file))].join(', ')}`,
+      '',
+      patch.rationale,
+      '',
+    );
+  });
+
+  if (plan.skipped.length) {
+    lines.push('## Needs manual review', '');
+    for (const skipped of plan.skipped) {
+      lines.push(`- \`${skipped.title}\` (${skipped.file}:${skipped.line}, ${skipped.category}): ${skipped.reason}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,305 @@
+/**
+ * Page Object Generator
+ *
+ * Keeps the page object classes in tests/helpers/page-objects.ts in step with
+ * the `data-testid` elements found on the live page. Each class carries three
+ * generated regions; everything outside them is hand-written and never
+ * touched:
+ *
+ *   readonly loginTitle: HealingLocator;       // hand-written
+ *   // #region generated fields
+ *   readonly rememberMe: HealingLocator;       // one per test id no hand-written code refers to
+ *   // #endregion generated fields
+ *   ...
+ *   // #region generated constructor           // end of the constructor: their HealingLocators
+ *   // #region generated methods               // a helper per dynamic id family, e.g.
+ *                                              // `user-row-1`, `user-row-2` -> `userRow(id)`
+ *
+ * Generated fields try the test id first (through the module's `testId()`,
+ * so renames by UI change scenarios are followed), then role + accessible
+ * name.
+ */
+
+import type { Page } from '@playwright/test';
+import { ROUTES } from '../tests/helpers/test-data';
+
+export interface PomView {
+  className: string;
+  route: keyof typeof ROUTES;
+  /** Only collect elements inside this element (test id). */
+  scope?: string;
+  /** Test id to click before collecting, for views that only open on demand. */
+  openWith?: string;
+}
+
+/** One view per page object in page-objects.ts. */
+export const POM_VIEWS: PomView[] = [
+  { className: 'LoginPage', route: 'login' },
+  { className: 'DashboardPage', route: 'dashboard' },
+  { className: 'UserModal', route: 'dashboard', openWith: 'add-user-button', scope: 'modal-backdrop' },
+  { className: 'ProfilePage', route: 'profile' },
+  { className: 'DevToolsPage', route: 'dev' },
+];
+
+export interface CollectedElement {
+  testId: string;
+  tag: string;
+  /** ARIA role, explicit or implied by the tag; empty when there is none. */
+  role: string;
+  /** Accessible name: aria-label, label text, content (buttons, links, headings...) or placeholder. */
+  name: string;
+}
+
+export interface DynamicIdFamily {
+  /** Test id with the varying part replaced, e.g. `user-row-${id}`. */
+  template: string;
+  examples: string[];
+}
+
+export type GeneratedRegion = 'fields' | 'constructor' | 'methods';
+
+export const GENERATED_REGIONS: GeneratedRegion[] = ['fields', 'constructor', 'methods'];
+
+/**
+ * Roles the generator emits `by.role` strategies for; anything else would
+ * not type-check as a Playwright role name.
+ */
+const KNOWN_ROLES = new Set([
+  'alert', 'button', 'cell', 'checkbox', 'columnheader', 'combobox', 'dialog', 'form', 'gridcell', 'heading',
+  'img', 'link', 'list', 'listitem', 'menu', 'menuitem', 'navigation', 'radio', 'row', 'rowheader', 'table',
+  'textbox',
+]);
+
+const RESERVED_FIELDS = new Set(['page', 'goto', 'constructor']);
+
+/**
+ * Runs inside the browser, so it must stay self-contained: no imports and no
+ * references to module scope.
+ */
+export function collectTestIdElements(scopeTestId: string | null): CollectedElement[] {
+  const tagRoles: Record<string, string> = {
+    a: 'link', button: 'button', select: 'combobox', textarea: 'textbox', table: 'table', tr: 'row',
+    ul: 'list', ol: 'list', li: 'listitem', nav: 'navigation', img: 'img',
+    h1: 'heading', h2: 'heading', h3: 'heading', h4: 'heading', h5: 'heading', h6: 'heading',
+  };
+
+  const roleOf = (element: Element): string => {
+    const explicit = element.getAttribute('role');
+    if (explicit) return explicit;
+    const tag = element.tagName.toLowerCase();
+    if (tag === 'input') {
+      const type = element.getAttribute('type') || 'text';
+      if (['button', 'submit', 'reset'].includes(type)) return 'button';
+      return ['checkbox', 'radio'].includes(type) ? type : 'textbox';
+    }
+    if (tag === 'a' && !element.hasAttribute('href')) return '';
+    // As Playwright derives them: a <th> is only a header with `scope`, else a cell like <td>.
+    if (tag === 'td' || tag === 'th') {
+      const scope = tag === 'th' && element.getAttribute('scope');
+      if (scope === 'col') return 'columnheader';
+      if (scope === 'row') return 'rowheader';
+      const tableRole = element.closest('table')?.getAttribute('role');
+      return tableRole === 'grid' || tableRole === 'treegrid' ? 'gridcell' : 'cell';
+    }
+    return tagRoles[tag] || '';
+  };
+
+  // Roles whose accessible name comes from their content; others need a label.
+  const namedByContent = ['button', 'link', 'heading', 'cell', 'gridcell', 'columnheader', 'rowheader', 'listitem', 'menuitem'];
+
+  const nameOf = (element: Element, role: string): string => {
+    const label = element.getAttribute('aria-label')
+      || (element.id && document.querySelector(`label[for="${CSS.escape(element.id)}"]`)?.textContent)
+      || element.closest('label')?.textContent
+      || (namedByContent.includes(role) && (element as HTMLElement).innerText)
+      || element.getAttribute('placeholder')
+      || '';
+    return label.replace(/\s+/g, ' ').trim().slice(0, 80);
+  };
+
+  const scope = scopeTestId ? document.querySelector(`[data-testid="${CSS.escape(scopeTestId)}"]`) : document.body;
+  if (!scope) return [];
+
+  const elements = [scope, ...Array.from(scope.querySelectorAll('[data-testid]'))]
+    .filter(element => element.hasAttribute('data-testid'));
+
+  return elements.map(element => {
+    const role = roleOf(element);
+    return {
+      testId: element.getAttribute('data-testid')!,
+      tag: element.tagName.toLowerCase(),
+      role,
+      name: nameOf(element, role),
+    };
+  });
+}
+
+/** Opens the view on a logged-in page and collects its test id elements. */
+export async function collectView(page: Page, view: PomView): Promise<CollectedElement[]> {
+  await page.goto(ROUTES[view.route]);
+  await page.waitForLoadState('networkidle');
+  if (view.openWith) {
+    await page.getByTestId(view.openWith).click();
+  }
+  if (view.scope) {
+    await page.getByTestId(view.scope).waitFor();
+  }
+  // tsx keeps function names by wrapping them in `__name(...)`, which the page does not define.
+  await page.evaluate('globalThis.__name ??= fn => fn');
+  return page.evaluate(collectTestIdElements, view.scope ?? null);
+}
+
+/**
+ * Test ids that differ only in numeric segments, e.g. `edit-user-1` and
+ * `edit-user-2`. A numbered id with no sibling stays a plain field.
+ */
+export function dynamicIdFamilies(testIds: string[]): DynamicIdFamily[] {
+  const families = new Map<string, Set<string>>();
+
+  for (const testId of testIds) {
+    if (!/\d/.test(testId)) continue;
+    const template = testId.replace(/\d+/g, '${id}');
+    families.set(template, (families.get(template) || new Set()).add(testId));
+  }
+
+  return [...families.entries()]
+    .filter(([, examples]) => examples.size > 1)
+    .map(([template, examples]) => ({ template, examples: [...examples].sort() }));
+}
+
+/** `user-row-${id}` -> `userRow`, `login-submit` -> `loginSubmit`. */
+export function memberName(testId: string): string {
+  const words = testId.replace(/\$\{id\}/g, '').split(/[^a-zA-Z0-9]+/).filter(Boolean);
+  const name = words
+    .map((word, index) => index ? word[0].toUpperCase() + word.slice(1) : word.toLowerCase())
+    .join('');
+  const safe = /^\d/.test(name) ? `el${name}` : name || 'element';
+  return RESERVED_FIELDS.has(safe) ? `${safe}Element` : safe;
+}
+
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function regionPattern(name: string, flags = 'm'): RegExp {
+  return new RegExp(`^([ \\t]*)// #region generated ${name}[ \\t]*\\n[\\s\\S]*?^[ \\t]*// #endregion generated ${name}[ \\t]*$`, flags);
+}
+
+/** Offsets of the generated regions in a page objects file, markers included. */
+export function generatedRanges(source: string): [number, number][] {
+  return [...source.matchAll(regionPattern('\\w+', 'gm'))].map(match => [match.index!, match.index! + match[0].length]);
+}
+
+/** `export class <name>` up to its closing brace at the start of a line. */
+function classSpan(source: string, className: string): { start: number; end: number } {
+  const start = source.search(new RegExp(`^export class ${className}\\b`, 'm'));
+  const close = start < 0 ? -1 : source.indexOf('\n}', start);
+  if (close < 0) {
+    throw new Error(`class ${className} not found`);
+  }
+  return { start, end: close + 2 };
+}
+
+function handWritten(classText: string): string {
+  return classText.replace(regionPattern('\\w+', 'gm'), '');
+}
+
+/**
+ * What the hand-written code of a class already locates by test id, as
+ * patterns: literal ids, templates (`user-row-${userId}`) and prefixes
+ * (`rowTestIdPrefix`, `[data-testid^="..."]`).
+ */
+export function handWrittenTestIds(classText: string): RegExp[] {
+  const code = handWritten(classText);
+  const templates = [...code.matchAll(/\b(?:testId|getByTestId)\(\s*(['`])((?:(?!\1).)+)\1/g)]
+    .map(([, , id]) => new RegExp(`^${id.split(/\$\{[^}]*\}/).map(escapeRegExp).join('.+')}$`));
+  const prefixes = [...code.matchAll(/(?:rowTestIdPrefix:\s*|\[data-testid\^=)["']([^"']+)["']/g)]
+    .map(([, prefix]) => new RegExp(`^${escapeRegExp(prefix)}`));
+  return [...templates, ...prefixes];
+}
+
+/** Members the hand-written code declares, which generated names must not reuse. */
+function handWrittenMembers(classText: string): string[] {
+  return [...handWritten(classText).matchAll(/^ {2}(?:readonly |async |get )*(\w+)\s*[(:<]/gm)].map(([, name]) => name);
+}
+
+function quote(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function describe(element: CollectedElement): string {
+  return `<${element.tag}>${element.name ? ` ${JSON.stringify(element.name)}` : ''}`;
+}
+
+/** The lines of each generated region of a class, for the test ids its hand-written code does not cover. */
+export function renderGeneratedRegions(
+  view: PomView,
+  elements: CollectedElement[],
+  classText: string,
+): Record<GeneratedRegion, string[]> {
+  const covered = handWrittenTestIds(classText);
+  const isCovered = (testId: string) => covered.some(pattern => pattern.test(testId));
+  const unique = [...new Map(elements.map(element => [element.testId, element])).values()];
+
+  const families = dynamicIdFamilies(unique.map(element => element.testId));
+  const familyIds = new Set(families.flatMap(family => family.examples));
+  const fields = unique.filter(element => !familyIds.has(element.testId) && !isCovered(element.testId));
+  const helpers = families.filter(family => !family.examples.every(isCovered));
+
+  const names = new Set([...RESERVED_FIELDS, ...handWrittenMembers(classText)]);
+  const uniqueName = (base: string) => {
+    let name = base;
+    for (let index = 2; names.has(name); index++) name = `${base}${index}`;
+    names.add(name);
+    return name;
+  };
+
+  const fieldLines = fields.map(element => ({ element, name: uniqueName(memberName(element.testId)) }));
+  const helperLines = helpers.map(family => ({ family, name: uniqueName(memberName(family.template)) }));
+
+  return {
+    fields: fieldLines.flatMap(({ element, name }) => [
+      `  /** ${describe(element)} */`,
+      `  readonly ${name}: HealingLocator;`,
+    ]),
+    constructor: fieldLines.flatMap(({ element, name }) => {
+      const strategies = [`testId(${quote(element.testId)})`];
+      if (KNOWN_ROLES.has(element.role) && element.name) {
+        strategies.push(`by.role(${quote(element.role)}, { name: ${quote(element.name)} })`);
+      }
+      return [
+        `    this.${name} = healingLocator(page, '${view.className}.${name}', [`,
+        ...strategies.map(strategy => `      ${strategy},`),
+        '    ]);',
+      ];
+    }),
+    methods: helperLines.flatMap(({ family, name }, index) => [
+      ...(index ? [''] : []),
+      `  /** \`${family.template}\`, e.g. ${family.examples.slice(0, 2).map(example => `\`${example}\``).join(', ')} */`,
+      `  ${name}(id: number | string): Locator {`,
+      `    return this.page.getByTestId(\`${family.template}\`);`,
+      '  }',
+    ]),
+  };
+}
+
+/** The page objects source with the generated regions of `view.className` rewritten. */
+export function updatePageObject(source: string, view: PomView, elements: CollectedElement[]): string {
+  const { start, end } = classSpan(source, view.className);
+  const classText = source.slice(start, end);
+  const regions = renderGeneratedRegions(view, elements, classText);
+
+  const updated = GENERATED_REGIONS.reduce((text, name) => {
+    const pattern = regionPattern(name);
+    const match = text.match(pattern);
+    if (!match) {
+      throw new Error(`${view.className} has no "// #region generated ${name}" region`);
+    }
+    const [, indent] = match;
+    return text.replace(pattern, () =>
+      [`${indent}// #region generated ${name}`, ...regions[name], `${indent}// #endregion generated ${name}`].join('\n'));
+  }, classText);
+
+  return source.slice(0, start) + updated + source.slice(end);
+}
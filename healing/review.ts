@@ -0,0 +1,210 @@
+/**
+ * Heal Review
+ *
+ * Heals reach the repo only through a decision. The pending proposals in
+ * proposals.json (see `npm run propose`) are grouped into review items, one
+ * per distinct change, and each is accepted, rejected or edited, by a
+ * reviewer or by a policy file:
+ *
+ *   rules:
+ *     - kind: text
+ *       target: UI_TEXT.*
+ *       minConfidence: 0.9
+ *       decision: accept
+ *     - kind: locator          # structural changes always wait for a reviewer
+ *       decision: pending
+ *
+ * Rules are tried in order and the first match decides; unmatched items stay
+ * pending. Locator proposals are never accepted by a policy: `accept` rules
+ * must be limited to `kind: text`, and a locator matching any accept rule
+ * stays pending. Accepted decisions are written for the patch step (`npm run heal --
+ * --review`); rejected proposals go to a RejectionStore so the same change is
+ * not raised again.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { parse } from 'yaml';
+import { FailureContext, HealProposal, HealProposalKind, ProposalEntry } from './strategy';
+
+/** A distinct proposed change and every failure it was proposed for. */
+export interface ReviewItem {
+  id: string;
+  /** The most confident of the identical proposals. */
+  proposal: HealProposal;
+  tests: FailureContext['test'][];
+  category: FailureContext['category'];
+  /** Paths to look at before deciding. */
+  evidence: NonNullable<ProposalEntry['evidence']>;
+}
+
+export type ReviewVerdict = 'accepted' | 'rejected';
+
+export interface ReviewDecision {
+  id: string;
+  verdict: ReviewVerdict;
+  /** As proposed, or with the reviewer's `after`. */
+  proposal: HealProposal;
+  edited: boolean;
+  /** `reviewer`, or `policy rule <n>`. */
+  decidedBy: string;
+  decidedAt: string;
+  tests: FailureContext['test'][];
+  category: FailureContext['category'];
+}
+
+/** The review of one proposals.json; feeds `npm run heal -- --review`. */
+export interface ReviewFile {
+  generatedAt: string;
+  decisions: ReviewDecision[];
+  pending: ReviewItem[];
+}
+
+export type PolicyDecision = 'accept' | 'reject' | 'pending';
+
+export interface PolicyRule {
+  kind?: HealProposalKind;
+  /** `*` matches any run of characters, e.g. `UI_TEXT.*`. */
+  target?: string;
+  strategy?: string;
+  minConfidence?: number;
+  maxConfidence?: number;
+  decision: PolicyDecision;
+}
+
+export interface ReviewPolicy {
+  rules: PolicyRule[];
+}
+
+export interface RejectedProposal {
+  id: string;
+  kind: HealProposalKind;
+  target: string;
+  before: string;
+  after: string;
+  rejectedAt: string;
+}
+
+const POLICY_DECISIONS: PolicyDecision[] = ['accept', 'reject', 'pending'];
+
+/** Identical changes share an id, whichever test or strategy proposed them. */
+export function proposalId(proposal: Pick<HealProposal, 'kind' | 'target' | 'before' | 'after'>): string {
+  return crypto.createHash('sha1')
+    .update(JSON.stringify([proposal.kind, proposal.target, proposal.before, proposal.after]))
+    .digest('hex')
+    .slice(0, 12);
+}
+
+/** Rejected proposals, kept in the repo so they are not proposed again. */
+export class RejectionStore {
+  readonly file: string;
+  private rejected: RejectedProposal[] | undefined;
+
+  constructor(file: string) {
+    this.file = file;
+  }
+
+  load(): RejectedProposal[] {
+    this.rejected ??= fs.existsSync(this.file)
+      ? (JSON.parse(fs.readFileSync(this.file, 'utf-8')) as { rejected: RejectedProposal[] }).rejected
+      : [];
+    return this.rejected;
+  }
+
+  has(proposal: Pick<HealProposal, 'kind' | 'target' | 'before' | 'after'>): boolean {
+    const id = proposalId(proposal);
+    return this.load().some(rejected => rejected.id === id);
+  }
+
+  add(proposals: HealProposal[]) {
+    const rejected = this.load();
+    for (const { kind, target, before, after } of proposals) {
+      if (!this.has({ kind, target, before, after })) {
+        rejected.push({ id: proposalId({ kind, target, before, after }), kind, target, before, after, rejectedAt: new Date().toISOString() });
+      }
+    }
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(this.file, JSON.stringify({ rejected }, null, 2) + '\n');
+  }
+}
+
+/** One item per distinct change, skipping rejected ones; most confident first. */
+export function reviewItems(entries: ProposalEntry[], rejections?: RejectionStore): ReviewItem[] {
+  const items = new Map<string, ReviewItem>();
+
+  for (const { context, proposals, evidence } of entries) {
+    for (const proposal of proposals) {
+      if (rejections?.has(proposal)) continue;
+
+      const id = proposalId(proposal);
+      const item = items.get(id) ?? { id, proposal, tests: [], category: context.category, evidence: { ...evidence } };
+      if (proposal.confidence > item.proposal.confidence) {
+        item.proposal = proposal;
+      }
+      if (!item.tests.some(test => test.title === context.test.title && test.project === context.test.project)) {
+        item.tests.push(context.test);
+      }
+      items.set(id, item);
+    }
+  }
+
+  return [...items.values()].sort((a, b) => b.proposal.confidence - a.proposal.confidence);
+}
+
+function globMatches(pattern: string, value: string): boolean {
+  const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`).test(value);
+}
+
+/** Reads and checks a policy file (YAML or JSON). */
+export function loadPolicy(file: string): ReviewPolicy {
+  const policy = parse(fs.readFileSync(file, 'utf-8')) as ReviewPolicy | null;
+  if (!policy || !Array.isArray(policy.rules)) {
+    throw new Error(`${file}: a review policy needs a "rules" list`);
+  }
+
+  policy.rules.forEach((rule, index) => {
+    if (!POLICY_DECISIONS.includes(rule.decision)) {
+      throw new Error(`${file}: rule ${index + 1} needs a decision (${POLICY_DECISIONS.join(', ')}), got "${rule.decision}"`);
+    }
+    if (rule.kind && rule.kind !== 'text' && rule.kind !== 'locator') {
+      throw new Error(`${file}: rule ${index + 1} has unknown kind "${rule.kind}" (text, locator)`);
+    }
+    if (rule.decision === 'accept' && rule.kind !== 'text') {
+      throw new Error(`${file}: rule ${index + 1} accepts locator proposals; accept rules need "kind: text"`);
+    }
+  });
+  return policy;
+}
+
+/**
+ * The first matching rule's decision and its 1-based number, if a rule
+ * matches. A locator proposal a rule would accept stays pending.
+ */
+export function applyPolicy(policy: ReviewPolicy, proposal: HealProposal): { decision: PolicyDecision; rule: number } | undefined {
+  const index = policy.rules.findIndex(rule =>
+    (!rule.kind || rule.kind === proposal.kind)
+    && (!rule.target || globMatches(rule.target, proposal.target))
+    && (!rule.strategy || rule.strategy === proposal.strategy)
+    && (rule.minConfidence === undefined || proposal.confidence >= rule.minConfidence)
+    && (rule.maxConfidence === undefined || proposal.confidence <= rule.maxConfidence));
+
+  if (index < 0) return undefined;
+  const { decision } = policy.rules[index];
+  return { decision: decision === 'accept' && proposal.kind === 'locator' ? 'pending' : decision, rule: index + 1 };
+}
+
+export function decide(item: ReviewItem, verdict: ReviewVerdict, decidedBy: string, after?: string): ReviewDecision {
+  const edited = after !== undefined && after !== item.proposal.after;
+  return {
+    id: item.id,
+    verdict,
+    proposal: edited ? { ...item.proposal, after: after!, rationale: `${item.proposal.rationale} (edited in review)` } : item.proposal,
+    edited,
+    decidedBy,
+    decidedAt: new Date().toISOString(),
+    tests: item.tests,
+    category: item.category,
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Source Edits
+ *
+ * Thin helpers over the TypeScript compiler API. Nodes are located with the
+ * AST, but edits are applied as text replacements on the original source so
+ * formatting and comments outside the edited node are preserved.
+ */
+
+import fs from 'fs';
+import ts from 'typescript';
+
+export interface SourceEdit {
+  /** Path relative to the repo root. */
+  file: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export function parseSource(filePath: string, text = fs.readFileSync(filePath, 'utf-8')): ts.SourceFile {
+  return ts.createSourceFile(filePath, text, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+}
+
+export function lineOf(sourceFile: ts.SourceFile, node: ts.Node): number {
+  return sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+}
+
+/** Depth-first walk over every descendant of `node`. */
+export function walk(node: ts.Node, visit: (node: ts.Node) => void) {
+  node.forEachChild(child => {
+    visit(child);
+    walk(child, visit);
+  });
+}
+
+export function findAll<T extends ts.Node>(node: ts.Node, guard: (node: ts.Node) => node is T): T[] {
+  const found: T[] = [];
+  walk(node, child => {
+    if (guard(child)) found.push(child);
+  });
+  return found;
+}
+
+/** `a.b.c(...)` -> `c` */
+export function calleeName(call: ts.CallExpression): string | undefined {
+  const callee = call.expression;
+  if (ts.isPropertyAccessExpression(callee)) return callee.name.text;
+  if (ts.isIdentifier(callee)) return callee.text;
+  return undefined;
+}
+
+/** `test(...)`, `test.only(...)`, `test.skip(...)`, ... with a callback. */
+export function isTestCall(call: ts.CallExpression): boolean {
+  const callee = call.expression;
+  return (ts.isIdentifier(callee) && callee.text === 'test')
+    || (ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression) && callee.expression.text === 'test'
+      && ['only', 'skip', 'fixme', 'fail', 'slow'].includes(callee.name.text)
+      && call.arguments.some(arg => ts.isArrowFunction(arg) || ts.isFunctionExpression(arg)));
+}
+
+/** The function passed to `test(...)`, `test.describe(...)`, hooks, ... */
+export function callbackOf(call: ts.CallExpression): ts.ArrowFunction | ts.FunctionExpression | undefined {
+  return call.arguments.find(
+    (arg): arg is ts.ArrowFunction | ts.FunctionExpression => ts.isArrowFunction(arg) || ts.isFunctionExpression(arg)
+  );
+}
+
+/**
+ * Finds the `test('title', async () => {...})` call declared on `line`
+ * (1-based, as reported by Playwright) and returns its callback body.
+ */
+export function findTestBody(sourceFile: ts.SourceFile, line: number): ts.Node | undefined {
+  const call = findAll(sourceFile, ts.isCallExpression)
+    .find(call => isTestCall(call) && lineOf(sourceFile, call) === line);
+  return call && callbackOf(call)?.body;
+}
+
+/** Path of a property access rooted at an identifier: `UI_TEXT.initial.loginButton` -> ['UI_TEXT', 'initial', 'loginButton'] */
+export function propertyPath(node: ts.Node): string[] | undefined {
+  if (ts.isIdentifier(node)) return [node.text];
+  if (ts.isPropertyAccessExpression(node)) {
+    const parent = propertyPath(node.expression);
+    return parent && [...parent, node.name.text];
+  }
+  return undefined;
+}
+
+/** Follows `path` through nested object literals, starting at `export const <path[0]> = {...}`. */
+export function findConstant(sourceFile: ts.SourceFile, path: string[]): ts.Expression | undefined {
+  const [name, ...keys] = path;
+  let current: ts.Expression | undefined;
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isVariableStatement(statement)) continue;
+    for (const declaration of statement.declarationList.declarations) {
+      if (ts.isIdentifier(declaration.name) && declaration.name.text === name) {
+        current = declaration.initializer;
+      }
+    }
+  }
+
+  for (const key of keys) {
+    if (!current || !ts.isObjectLiteralExpression(current)) return undefined;
+    const property = current.properties.find(
+      (prop): prop is ts.PropertyAssignment => ts.isPropertyAssignment(prop) && prop.name.getText(sourceFile) === key
+    );
+    current = property?.initializer;
+  }
+
+  return current;
+}
+
+/** Literal value of a string or string-array node, if it is one. */
+export function literalValue(node: ts.Node | undefined): string | string[] | undefined {
+  if (!node) return undefined;
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return node.text;
+  if (ts.isArrayLiteralExpression(node)) {
+    const items = node.elements.map(literalValue);
+    return items.every(item => typeof item === 'string') ? items as string[] : undefined;
+  }
+  return undefined;
+}
+
+/** Renders a string or string array the way the repo writes them (single quotes). */
+export function formatLiteral(value: string | string[]): string {
+  const quote = (text: string) => `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  return Array.isArray(value) ? `[${value.map(quote).join(', ')}]` : quote(value);
+}
+
+export function replaceNode(file: string, sourceFile: ts.SourceFile, node: ts.Node, text: string): SourceEdit {
+  return { file, start: node.getStart(sourceFile), end: node.getEnd(), text };
+}
+
+/** Applies edits to one file's text. Overlapping edits are a bug in the caller. */
+export function applyEdits(text: string, edits: SourceEdit[]): string {
+  const sorted = [...edits].sort((a, b) => b.start - a.start);
+
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].end > sorted[i - 1].start) {
+      throw new Error(`Overlapping edits in ${sorted[i].file} at ${sorted[i].start}-${sorted[i].end}`);
+    }
+  }
+
+  return sorted.reduce((result, edit) => result.slice(0, edit.start) + edit.text + result.slice(edit.end), text);
+}
@@ -0,0 +1,193 @@
+/**
+ * Healing Strategies
+ *
+ * A HealingStrategy turns the evidence about one failure (FailureContext)
+ * into ranked HealProposals. Strategies are interchangeable: the offline
+ * heuristics in offline-strategy.ts, a model service behind HTTP
+ * (http-strategy.ts), or the mock server in mock-heal-server.ts replaying
+ * recorded responses.
+ *
+ * `buildFailureContext` assembles the context from a triage entry: the POM
+ * field the HealingLocator could not resolve, the expected value and the
+ * `UI_TEXT` constant it comes from, the page's DOM snapshot (and diff), and
+ * the error message. `failureContextFrom` does the same for a step that just
+ * failed (see tests/helpers/step-healing.ts), and trace-analyzer.ts for a
+ * failure recorded in a trace archive.
+ */
+
+import fs from 'fs';
+import { UI_TEXT } from '../tests/helpers/test-data';
+import { RouteSnapshot, SnapshotDiff } from '../tests/helpers/dom-snapshot';
+import { FailureCategory, FailureClassification } from './triage';
+import { HttpStrategy } from './http-strategy';
+import { OfflineStrategy } from './offline-strategy';
+import type { TraceEvidence } from './trace-analyzer';
+import type { TriageEntry } from './triage-reporter';
+
+export interface FailingLocator {
+  /** POM field, e.g. `LoginPage.submitButton`, when a HealingLocator missed. */
+  pomField?: string;
+  /** The POM field's strategies, primary first. */
+  strategies?: string[];
+  /** The locator the error names, e.g. `getByTestId('login-submit')`. */
+  selector?: string;
+}
+
+export interface ExpectedValue {
+  value: string | string[];
+  /** The constant holding it, e.g. `UI_TEXT.initial.loginButton`. */
+  source?: string;
+}
+
+export interface FailureContext {
+  test: { title: string; file: string; line: number; project: string };
+  category: FailureCategory;
+  error: string;
+  matcher?: string;
+  locator: FailingLocator;
+  expected?: ExpectedValue;
+  received?: string;
+  /** The page the test failed on. */
+  snapshot?: RouteSnapshot;
+  /** That page against its baseline snapshot. */
+  domDiff?: SnapshotDiff;
+  /** Failing action, final DOM, console errors and failed requests, from the trace archive. */
+  trace?: TraceEvidence;
+}
+
+export type HealProposalKind = 'locator' | 'text';
+
+export interface HealProposal {
+  /** Name of the strategy that made the proposal. */
+  strategy: string;
+  /** `locator`: point the POM field or spec at another element; `text`: update an expected value. */
+  kind: HealProposalKind;
+  /** What to change: a POM field, a `UI_TEXT` path, or the failing selector. */
+  target: string;
+  before: string;
+  after: string;
+  /** 0-1. */
+  confidence: number;
+  rationale: string;
+}
+
+/** One failure in proposals.json (see `npm run propose`). */
+export interface ProposalEntry {
+  context: FailureContext;
+  proposals: HealProposal[];
+  /** Strategies that failed for this failure, with their error. */
+  errors: Record<string, string>;
+  /** Attachment paths for reviewers (see review.ts). */
+  evidence?: { screenshot?: string; domDiff?: string; trace?: string };
+}
+
+export interface HealingStrategy {
+  readonly name: string;
+  /** Proposals for the failure, best first; empty when the strategy has none. */
+  propose(context: FailureContext): HealProposal[] | Promise<HealProposal[]>;
+}
+
+export const STRATEGY_NAMES = ['offline', 'http'] as const;
+
+export function createStrategy(name: string, options: { endpoint: string }): HealingStrategy {
+  switch (name) {
+    case 'offline':
+      return new OfflineStrategy();
+    case 'http':
+      return new HttpStrategy({ endpoint: options.endpoint });
+    default:
+      throw new Error(`Unknown healing strategy "${name}". Available: ${STRATEGY_NAMES.join(', ')}`);
+  }
+}
+
+/** Proposals from every strategy, merged and ranked by confidence. */
+export async function proposeAll(strategies: HealingStrategy[], context: FailureContext): Promise<HealProposal[]> {
+  const proposals = await Promise.all(strategies.map(strategy => strategy.propose(context)));
+  return proposals.flat().sort((a, b) => b.confidence - a.confidence);
+}
+
+/** `UI_TEXT.<path>` of the constant equal to `value`, if exactly one is. */
+export function uiTextSource(value: string | string[]): string | undefined {
+  const wanted = JSON.stringify(value);
+  const matches: string[] = [];
+
+  const visit = (node: unknown, path: string[]) => {
+    if (JSON.stringify(node) === wanted) {
+      matches.push(path.join('.'));
+    } else if (node && typeof node === 'object' && !Array.isArray(node)) {
+      for (const [key, child] of Object.entries(node)) {
+        visit(child, [...path, key]);
+      }
+    }
+  };
+  visit(UI_TEXT, ['UI_TEXT']);
+
+  // The same text in `initial` and an `afterChangeN` block: `initial` is what tests compare against.
+  return matches.find(match => match.startsWith('UI_TEXT.initial.')) ?? (matches.length === 1 ? matches[0] : undefined);
+}
+
+function parseExpected(expected: string | undefined): string | string[] | undefined {
+  if (expected === undefined) return undefined;
+  if (!expected.startsWith('[')) return expected;
+  try {
+    const parsed = JSON.parse(expected);
+    return Array.isArray(parsed) ? parsed.map(String) : expected;
+  } catch {
+    return expected;
+  }
+}
+
+function readAttachment<T>(entry: TriageEntry, name: string): T | undefined {
+  const attachment = entry.attachments.find(candidate => candidate.name === name);
+  return attachment?.path && fs.existsSync(attachment.path)
+    ? JSON.parse(fs.readFileSync(attachment.path, 'utf-8')) as T
+    : undefined;
+}
+
+/** The HealingLocator miss whose strategies include the failing selector, else the last miss. */
+function missedField(failure: FailureEvidence['failure']): FailingLocator {
+  const misses = failure.annotations
+    .filter(annotation => annotation.type === 'healing-miss' && annotation.description)
+    .map(annotation => {
+      const [pomField, strategies] = annotation.description!.split(/: (.*)/s);
+      return { pomField, strategies: strategies.split(' | ') };
+    });
+
+  const miss = misses.find(candidate => failure.locator && candidate.strategies.some(strategy => failure.locator!.includes(strategy)))
+    ?? misses[misses.length - 1];
+
+  return { ...miss, selector: failure.locator };
+}
+
+/** What is known about a failure, from a triage entry or from a step that just failed. */
+export interface FailureEvidence {
+  test: FailureContext['test'];
+  failure: FailureClassification & Pick<TriageEntry, 'message' | 'annotations'>;
+  snapshot?: RouteSnapshot;
+  domDiff?: SnapshotDiff;
+}
+
+export function failureContextFrom({ test, failure, snapshot, domDiff }: FailureEvidence): FailureContext {
+  const value = parseExpected(failure.expected);
+
+  return {
+    test,
+    category: failure.category,
+    error: failure.message,
+    matcher: failure.matcher,
+    locator: missedField(failure),
+    expected: value === undefined ? undefined : { value, source: uiTextSource(value) },
+    received: failure.received,
+    snapshot,
+    domDiff,
+  };
+}
+
+export function buildFailureContext(entry: TriageEntry): FailureContext {
+  return failureContextFrom({
+    test: { title: entry.title, file: entry.file, line: entry.line, project: entry.project },
+    failure: entry,
+    snapshot: readAttachment<RouteSnapshot>(entry, 'dom-snapshot'),
+    domDiff: readAttachment<SnapshotDiff>(entry, 'dom-diff'),
+  });
+}
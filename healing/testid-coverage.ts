@@ -0,0 +1,246 @@
+/**
+ * Test Id Coverage
+ *
+ * Cross-references the `data-testid`s the app renders (crawled per page
+ * object view, see pom-generator.ts) with the test ids the suite refers to:
+ * locators declared in the page object classes and raw `getByTestId` calls in
+ * specs. Reports, per page, which rendered test ids no test touches, and
+ * overall which references point at test ids the app no longer renders.
+ *
+ * References are found statically with the TypeScript compiler API. Template
+ * literals (`user-row-${userId}`), `[data-testid^="..."]` selectors and
+ * DataTable `rowTestIdPrefix`es become patterns.
+ */
+
+import path from 'path';
+import ts from 'typescript';
+import { lineOf, parseSource, walk } from './source-edits';
+import { generatedRanges, POM_VIEWS } from './pom-generator';
+
+export type ReferenceSource = 'pom' | 'spec';
+
+export interface TestIdReference {
+  /** The test id, or a template such as `user-row-${userId}` or `user-row-*`. */
+  testId: string;
+  /** Regular expression source matching the ids a template can produce. */
+  pattern?: string;
+  source: ReferenceSource;
+  /** Page object class, or spec file name. */
+  owner: string;
+  /** Path relative to the repo root. */
+  file: string;
+  line: number;
+}
+
+export interface CrawledPage {
+  /** Page object class the view belongs to. */
+  name: string;
+  route: string;
+  testIds: string[];
+}
+
+export interface PageCoverage {
+  name: string;
+  route: string;
+  total: number;
+  covered: number;
+  /** 0-100. */
+  percent: number;
+  untested: string[];
+}
+
+export interface CoverageReport {
+  generatedAt: string;
+  summary: {
+    testIds: number;
+    covered: number;
+    percent: number;
+    deadLocators: number;
+  };
+  pages: PageCoverage[];
+  /** References that match no test id on any crawled page. */
+  deadLocators: TestIdReference[];
+}
+
+/** The classes whose locators count as page object references. */
+export const POM_CLASSES = [...new Set(POM_VIEWS.map(view => view.className))];
+
+const TESTID_CALLS = new Set(['getByTestId', 'testId']);
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** A string or template literal as a reference id and, for templates, a pattern. */
+function referencedId(node: ts.Node | undefined, sourceFile: ts.SourceFile): Pick<TestIdReference, 'testId' | 'pattern'> | undefined {
+  if (!node) return undefined;
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return { testId: node.text };
+  }
+  if (ts.isTemplateExpression(node)) {
+    const pattern = escapeRegExp(node.head.text)
+      + node.templateSpans.map(span => `.+${escapeRegExp(span.literal.text)}`).join('');
+    return { testId: node.getText(sourceFile).slice(1, -1), pattern: `^${pattern}$` };
+  }
+  return undefined;
+}
+
+/** `[data-testid="x"]` and `[data-testid^="x"]` inside a CSS selector. */
+function selectorIds(selector: string): Pick<TestIdReference, 'testId' | 'pattern'>[] {
+  return [...selector.matchAll(/\[data-testid(\^?)=["']([^"']+)["']\]/g)].map(([, prefix, id]) =>
+    prefix ? { testId: `${id}*`, pattern: `^${escapeRegExp(id)}` } : { testId: id });
+}
+
+function enclosingClass(node: ts.Node): string | undefined {
+  for (let current: ts.Node | undefined = node; current; current = current.parent) {
+    if (ts.isClassDeclaration(current) && current.name) return current.name.text;
+  }
+  return undefined;
+}
+
+/**
+ * Test id references in one file. In page object files only references inside
+ * POM_CLASSES count, and not those in generated regions: the generator writes
+ * one for every rendered test id, so they say nothing about coverage. In specs
+ * every call does.
+ */
+export function scanTestIdReferences(filePath: string, source: ReferenceSource, rootDir: string): TestIdReference[] {
+  const sourceFile = parseSource(filePath);
+  const file = path.relative(rootDir, filePath);
+  const references: TestIdReference[] = [];
+  const generated = source === 'pom' ? generatedRanges(sourceFile.text) : [];
+
+  walk(sourceFile, node => {
+    if (generated.some(([start, end]) => node.pos >= start && node.end <= end)) return;
+
+    let ids: Pick<TestIdReference, 'testId' | 'pattern'>[] = [];
+
+    if (ts.isCallExpression(node)) {
+      const callee = node.expression;
+      const name = ts.isPropertyAccessExpression(callee) ? callee.name.text : ts.isIdentifier(callee) ? callee.text : undefined;
+      const [argument] = node.arguments;
+
+      if (name && TESTID_CALLS.has(name)) {
+        ids = [referencedId(argument, sourceFile)].filter((id): id is NonNullable<typeof id> => !!id);
+      } else if ((name === 'locator' || name === 'css') && argument && ts.isStringLiteralLike(argument)) {
+        ids = selectorIds(argument.text);
+      }
+    } else if (ts.isPropertyAssignment(node) && node.name.getText(sourceFile) === 'rowTestIdPrefix'
+      && ts.isStringLiteralLike(node.initializer)) {
+      ids = [{ testId: `${node.initializer.text}*`, pattern: `^${escapeRegExp(node.initializer.text)}` }];
+    }
+
+    if (!ids.length) return;
+
+    const owner = source === 'pom' ? enclosingClass(node) : path.basename(filePath);
+    if (!owner || (source === 'pom' && !POM_CLASSES.includes(owner))) return;
+
+    for (const id of ids) {
+      references.push({ ...id, source, owner, file, line: lineOf(sourceFile, node) });
+    }
+  });
+
+  return references;
+}
+
+export function referenceMatches(reference: TestIdReference, testId: string): boolean {
+  return reference.pattern ? new RegExp(reference.pattern).test(testId) : reference.testId === testId;
+}
+
+export function buildCoverageReport(pages: CrawledPage[], references: TestIdReference[]): CoverageReport {
+  const coverage = pages.map(page => {
+    const testIds = [...new Set(page.testIds)].sort();
+    const untested = testIds.filter(testId => !references.some(reference => referenceMatches(reference, testId)));
+    const covered = testIds.length - untested.length;
+    return {
+      name: page.name,
+      route: page.route,
+      total: testIds.length,
+      covered,
+      percent: testIds.length ? Math.round((covered / testIds.length) * 100) : 100,
+      untested,
+    };
+  });
+
+  const rendered = new Set(pages.flatMap(page => page.testIds));
+  const deadLocators = references.filter(reference => ![...rendered].some(testId => referenceMatches(reference, testId)));
+
+  const total = coverage.reduce((sum, page) => sum + page.total, 0);
+  const covered = coverage.reduce((sum, page) => sum + page.covered, 0);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    summary: {
+      testIds: total,
+      covered,
+      percent: total ? Math.round((covered / total) * 100) : 100,
+      deadLocators: deadLocators.length,
+    },
+    pages: coverage,
+    deadLocators,
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char]!);
+}
+
+export function renderCoverageHtml(report: CoverageReport): string {
+  const bar = (percent: number) =>
+    `<div class="bar"><div style="width:${percent}%" class="${percent >= 80 ? 'good' : percent >= 50 ? 'fair' : 'poor'}"></div></div>`;
+
+  const pages = report.pages.map(page => `
+    <tr>
+      <td>${escapeHtml(page.name)}</td>
+      <td><code>${escapeHtml(page.route)}</code></td>
+      <td>${page.covered} / ${page.total}</td>
+      <td>${bar(page.percent)} ${page.percent}%</td>
+      <td>${page.untested.map(testId => `<code>${escapeHtml(testId)}</code>`).join(' ') || '&mdash;'}</td>
+    </tr>`).join('');
+
+  const dead = report.deadLocators.map(reference => `
+    <tr>
+      <td><code>${escapeHtml(reference.testId)}</code></td>
+      <td>${reference.source === 'pom' ? 'Page object' : 'Spec'}: ${escapeHtml(reference.owner)}</td>
+      <td><code>${escapeHtml(reference.file)}:${reference.line}</code></td>
+    </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Test Id Coverage</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 2rem; }
+  th, td { border-bottom: 1px solid #ddd; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+  code { background: #f3f3f3; padding: 0 0.2rem; margin-right: 0.2rem; }
+  .bar { display: inline-block; width: 8rem; height: 0.6rem; background: #eee; vertical-align: middle; }
+  .bar div { height: 100%; }
+  .good { background: #2e7d32; } .fair { background: #f9a825; } .poor { background: #c62828; }
+</style>
+</head>
+<body>
+<h1>Test Id Coverage</h1>
+<p>${report.summary.covered} of ${report.summary.testIds} rendered test ids are used by a page object or spec
+(${report.summary.percent}%). ${report.summary.deadLocators} locator(s) point at test ids no crawled page renders.
+Generated ${escapeHtml(report.generatedAt)}.</p>
+
+<h2>Pages</h2>
+<table>
+  <thead><tr><th>Page object</th><th>Route</th><th>Covered</th><th>Coverage</th><th>Untested test ids</th></tr></thead>
+  <tbody>${pages}
+  </tbody>
+</table>
+
+<h2>Dead locators</h2>
+<p>Elements that only render in some states (error messages, menus, UI change scenarios) also show up here.</p>
+<table>
+  <thead><tr><th>Test id</th><th>Declared in</th><th>Location</th></tr></thead>
+  <tbody>${dead || '\n    <tr><td colspan="3">None</td></tr>'}
+  </tbody>
+</table>
+</body>
+</html>
+`;
+}
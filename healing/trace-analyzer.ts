@@ -0,0 +1,456 @@
+/**
+ * Trace Analyzer
+ *
+ * Reads a Playwright trace archive (`trace.zip`, kept on the first retry)
+ * offline and turns it into the FailureContext the healing strategies take:
+ * the failing action with its locator and expected value, the last DOM
+ * snapshot of the page before the failure, and the console errors and failed
+ * requests of the run. The same evidence a reviewer gets from `show-trace`.
+ *
+ * A test trace holds `test.trace` (test steps and errors, from the runner)
+ * and one `<n>-trace.trace` / `<n>-trace.network` pair per browser context
+ * (actions, DOM snapshots, console and HAR entries). DOM snapshots store
+ * unchanged subtrees as references into earlier snapshots of the same frame;
+ * they are resolved here the way the trace viewer does.
+ */
+
+import path from 'path';
+import AdmZip from 'adm-zip';
+import { DomNode, MAX_NODES, RouteName, RouteSnapshot, TRACKED_ATTRIBUTES } from '../tests/helpers/dom-snapshot';
+import { ROUTES } from '../tests/helpers/test-data';
+import { failureContextFrom, FailureContext } from './strategy';
+import { classifyFailure, stripAnsi } from './triage';
+
+export interface TraceAction {
+  callId: string;
+  title: string;
+  /** `Frame`, `Page`, ... for browser calls; `Test` for test steps. */
+  class: string;
+  method: string;
+  params: Record<string, unknown>;
+  startTime: number;
+  endTime?: number;
+  error?: string;
+  stepId?: string;
+  pageId?: string;
+  beforeSnapshot?: string;
+  afterSnapshot?: string;
+  stack?: { file: string; line: number; column: number }[];
+}
+
+export interface ConsoleError {
+  /** `console`: console.error(); `page`: an uncaught exception. */
+  source: 'console' | 'page';
+  text: string;
+  location?: string;
+}
+
+export interface NetworkFailure {
+  method: string;
+  url: string;
+  /** -1 when no response arrived. */
+  status: number;
+  failure?: string;
+}
+
+/** What the trace adds to a FailureContext. */
+export interface TraceEvidence {
+  file: string;
+  action?: {
+    title: string;
+    method: string;
+    /** Playwright's selector, e.g. `internal:testid=[data-testid="login-submit"s]`. */
+    selector?: string;
+    error: string;
+  };
+  /** URL of the page the failure was on. */
+  url?: string;
+  /** The last DOM snapshot of that page before the failure. */
+  html?: string;
+  /** The element the failing action was aimed at, when the snapshot marks one. */
+  target?: DomNode;
+  consoleErrors: ConsoleError[];
+  networkFailures: NetworkFailure[];
+}
+
+/** [name, attributes?, ...children], a text node, or [[snapshotsBack, nodeIndex]]. */
+type NodeSnapshot = string | [[number, number]] | [string, Record<string, string>?, ...NodeSnapshot[]];
+
+interface FrameSnapshot {
+  callId: string;
+  snapshotName: string;
+  pageId: string;
+  frameId: string;
+  frameUrl: string;
+  html: NodeSnapshot;
+  timestamp: number;
+  wallTime?: number;
+  isMainFrame: boolean;
+}
+
+interface HarEntry {
+  request: { method: string; url: string };
+  response?: { status: number; _failureText?: string };
+}
+
+/** The trace events read here; the archive has more (screencast frames, logs...). */
+type TraceEvent =
+  | { type: 'context-options'; browserName?: string }
+  | {
+    type: 'before'; callId: string; class: string; method: string; startTime: number;
+    title?: string; apiName?: string; params?: Record<string, unknown>; stepId?: string; pageId?: string;
+    beforeSnapshot?: string; stack?: TraceAction['stack'];
+  }
+  | { type: 'after'; callId: string; endTime?: number; afterSnapshot?: string; error?: { message?: string; value?: unknown } }
+  | { type: 'console'; messageType: string; text: string; location?: { url?: string; lineNumber?: number } }
+  | { type: 'event'; method: string; params?: { error?: { error?: { message?: string }; value?: unknown } } }
+  | { type: 'resource-snapshot'; snapshot?: HarEntry }
+  | { type: 'frame-snapshot'; snapshot: FrameSnapshot }
+  | { type: 'error'; message: string };
+
+const EVENT_TYPES = new Set<unknown>(['context-options', 'before', 'after', 'console', 'event', 'resource-snapshot', 'frame-snapshot', 'error']);
+
+const SKIPPED_TAGS = ['script', 'style', 'link', 'meta'];
+const VOID_TAGS = ['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'];
+
+/** Snapshot attributes Playwright adds for the trace viewer, e.g. `__playwright_target__`. */
+const INTERNAL_ATTRIBUTE = /^__playwright_/;
+
+function readEvents(zip: AdmZip, pattern: RegExp): TraceEvent[] {
+  return zip.getEntries()
+    .filter(entry => pattern.test(entry.entryName))
+    .flatMap(entry => entry.getData().toString('utf-8').split('\n'))
+    .filter(line => line.trim())
+    .flatMap(line => {
+      try {
+        const event: unknown = JSON.parse(line);
+        return isTraceEvent(event) ? [event] : [];
+      } catch {
+        return [];
+      }
+    });
+}
+
+function isTraceEvent(value: unknown): value is TraceEvent {
+  return typeof value === 'object' && value !== null && EVENT_TYPES.has((value as { type?: unknown }).type);
+}
+
+function collectActions(events: TraceEvent[]): TraceAction[] {
+  const actions = new Map<string, TraceAction>();
+
+  for (const event of events) {
+    if (event.type === 'before') {
+      actions.set(event.callId, {
+        callId: event.callId,
+        title: event.title || event.apiName || `${event.class}.${event.method}`,
+        class: event.class,
+        method: event.method,
+        params: event.params || {},
+        startTime: event.startTime,
+        stepId: event.stepId,
+        pageId: event.pageId,
+        beforeSnapshot: event.beforeSnapshot,
+        stack: event.stack,
+      });
+    } else if (event.type === 'after') {
+      const action = actions.get(event.callId);
+      if (!action) continue;
+      action.endTime = event.endTime;
+      action.afterSnapshot = event.afterSnapshot ?? action.afterSnapshot;
+      if (event.error) action.error = stripAnsi(event.error.message ?? String(event.error.value ?? ''));
+    }
+  }
+
+  return [...actions.values()];
+}
+
+/** `getByTestId('x')`-style description of a Playwright selector, as error messages print it. */
+export function describeSelector(selector: string): string {
+  const quote = (text: string) => `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  const value = (raw: string) => {
+    const match = raw.match(/^"((?:[^"\\]|\\.)*)"([is]?)$/);
+    return match
+      ? { text: JSON.parse(`"${match[1]}"`) as string, exact: match[2] === 's' }
+      : { text: raw, exact: false };
+  };
+
+  const part = (segment: string): string => {
+    const [, engine, body] = segment.trim().match(/^([\w:-]+)=(.*)$/s) ?? [undefined, 'css', segment.trim()];
+
+    switch (engine) {
+      case 'internal:testid': {
+        const attribute = body.match(/^\[[\w-]+=(.*)\]$/s);
+        return `getByTestId(${quote(value(attribute ? attribute[1] : body).text)})`;
+      }
+      case 'internal:role': {
+        const [, role, options] = body.match(/^([\w-]+)(.*)$/s) ?? [undefined, body, ''];
+        const name = options.match(/\[name=("(?:[^"\\]|\\.)*"[is]?)\]/);
+        if (!name) return `getByRole(${quote(role)})`;
+        const { text, exact } = value(name[1]);
+        return `getByRole(${quote(role)}, { name: ${quote(text)}${exact ? ', exact: true' : ''} })`;
+      }
+      case 'internal:text':
+      case 'internal:label': {
+        const { text, exact } = value(body);
+        const method = engine === 'internal:text' ? 'getByText' : 'getByLabel';
+        return `${method}(${quote(text)}${exact ? ', { exact: true }' : ''})`;
+      }
+      case 'internal:attr': {
+        const attribute = body.match(/^\[([\w-]+)=(.*)\]$/s);
+        const methods: Record<string, string> = { placeholder: 'getByPlaceholder', alt: 'getByAltText', title: 'getByTitle' };
+        if (attribute && methods[attribute[1]]) return `${methods[attribute[1]]}(${quote(value(attribute[2]).text)})`;
+        return `locator(${quote(segment.trim())})`;
+      }
+      case 'nth':
+        return body === '0' ? 'first()' : body === '-1' ? 'last()' : `nth(${body})`;
+      default:
+        return `locator(${quote(engine === 'css' ? body : segment.trim())})`;
+    }
+  };
+
+  return selector.split(' >> ').map(part).join('.');
+}
+
+/** Resolves the snapshot's subtree references against earlier snapshots of its frame. */
+class SnapshotTree {
+  private readonly nodeLists = new Map<FrameSnapshot, NodeSnapshot[]>();
+
+  constructor(private readonly frameSnapshots: FrameSnapshot[]) {}
+
+  /** Nodes in the order references count them: children before their parent. */
+  private nodes(snapshot: FrameSnapshot): NodeSnapshot[] {
+    let nodes = this.nodeLists.get(snapshot);
+    if (!nodes) {
+      const list: NodeSnapshot[] = [];
+      const visit = (node: NodeSnapshot) => {
+        if (typeof node === 'string') {
+          list.push(node);
+        } else if (typeof node[0] === 'string') {
+          for (const child of node.slice(2) as NodeSnapshot[]) visit(child);
+          list.push(node);
+        }
+      };
+      visit(snapshot.html);
+      this.nodeLists.set(snapshot, nodes = list);
+    }
+    return nodes;
+  }
+
+  /** The snapshot's tree with every reference replaced by the node it points at. */
+  resolve(index: number, node: NodeSnapshot = this.frameSnapshots[index].html): NodeSnapshot {
+    if (typeof node === 'string') return node;
+
+    if (Array.isArray(node[0])) {
+      const [back, nodeIndex] = node[0];
+      const referenced = this.frameSnapshots[index - back];
+      const target = referenced && this.nodes(referenced)[nodeIndex];
+      return target === undefined ? '' : this.resolve(index - back, target);
+    }
+
+    const [name, attributes, ...children] = node as [string, Record<string, string>?, ...NodeSnapshot[]];
+    return [name, attributes || {}, ...children.map(child => this.resolve(index, child))];
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function renderHtml(node: NodeSnapshot): string {
+  if (typeof node === 'string') return escapeHtml(node);
+
+  const [name, attributes = {}, ...children] = node as [string, Record<string, string>?, ...NodeSnapshot[]];
+  const tag = name.toLowerCase();
+  const attributeText = Object.entries(attributes)
+    .filter(([attribute]) => !INTERNAL_ATTRIBUTE.test(attribute))
+    .map(([attribute, value]) => ` ${attribute}="${escapeHtml(value)}"`)
+    .join('');
+
+  if (VOID_TAGS.includes(tag)) return `<${tag}${attributeText}>`;
+  return `<${tag}${attributeText}>${children.map(renderHtml).join('')}</${tag}>`;
+}
+
+/** The elements under <body>, recorded like snapshotNodes() records a live page. */
+function domNodes(root: NodeSnapshot): { nodes: DomNode[]; marked: Map<string, DomNode> } {
+  const nodes: DomNode[] = [];
+  const marked = new Map<string, DomNode>();
+  const isElement = (node: NodeSnapshot): node is [string, Record<string, string>, ...NodeSnapshot[]] =>
+    typeof node !== 'string' && typeof node[0] === 'string';
+
+  const visit = (element: [string, Record<string, string>, ...NodeSnapshot[]], elementPath: string) => {
+    const [, , ...children] = element;
+    const elements = children.filter(isElement);
+
+    for (const child of elements) {
+      const [name, attributes = {}, ...grandchildren] = child;
+      const tag = name.toLowerCase();
+      if (SKIPPED_TAGS.includes(tag)) continue;
+
+      const sameTag = elements.filter(sibling => sibling[0].toLowerCase() === tag);
+      const childPath = `${elementPath} > ${tag}:nth-of-type(${sameTag.indexOf(child) + 1})`;
+      const node: DomNode = {
+        path: childPath,
+        tag,
+        testId: attributes['data-testid'] ?? null,
+        text: grandchildren.filter((grandchild): grandchild is string => typeof grandchild === 'string')
+          .join(' ').replace(/\s+/g, ' ').trim().slice(0, 200),
+        attributes: Object.fromEntries(TRACKED_ATTRIBUTES.filter(attribute => attribute in attributes).map(attribute => [attribute, attributes[attribute]])),
+      };
+      nodes.push(node);
+      if (attributes.__playwright_target__) marked.set(attributes.__playwright_target__, node);
+      visit(child, childPath);
+    }
+  };
+
+  const find = (node: NodeSnapshot): [string, Record<string, string>, ...NodeSnapshot[]] | undefined => {
+    if (!isElement(node)) return undefined;
+    if (node[0].toLowerCase() === 'body') return node;
+    for (const child of node.slice(2) as NodeSnapshot[]) {
+      const body = find(child);
+      if (body) return body;
+    }
+    return undefined;
+  };
+
+  const body = find(root);
+  if (body) visit(body, 'body');
+  return { nodes: nodes.slice(0, MAX_NODES), marked };
+}
+
+function routeOfUrl(url: string): RouteName | undefined {
+  const pathname = new URL(url, 'http://localhost').pathname;
+  return (Object.keys(ROUTES) as RouteName[]).find(route => ROUTES[route] === pathname);
+}
+
+/** The failing browser call (the locator action or assertion) and the test step it ran in. */
+function failingActions(actions: TraceAction[]): { call?: TraceAction; step?: TraceAction } {
+  const failed = actions.filter(action => action.error !== undefined && action.class !== 'Tracing')
+    .sort((a, b) => (a.endTime ?? a.startTime) - (b.endTime ?? b.startTime));
+  const calls = failed.filter(action => action.class !== 'Test');
+  const call = calls.find(action => typeof action.params.selector === 'string') ?? calls[0];
+
+  const steps = failed.filter(action => action.class === 'Test');
+  const step = (call?.stepId && steps.find(action => action.stepId === call.stepId)) || steps[0];
+  return { call, step };
+}
+
+/** The last main-frame snapshot of the failing page, at or before the failure. */
+function lastSnapshot(snapshots: FrameSnapshot[], call: TraceAction | undefined, failedAt: number): FrameSnapshot | undefined {
+  const main = snapshots.filter(snapshot => snapshot.isMainFrame && (!call?.pageId || snapshot.pageId === call.pageId));
+
+  for (const name of [call?.afterSnapshot, call?.beforeSnapshot]) {
+    const named = name && [...main].reverse().find(snapshot => snapshot.snapshotName === name);
+    if (named) return named;
+  }
+  return [...main].reverse().find(snapshot => snapshot.timestamp <= failedAt) ?? main[main.length - 1];
+}
+
+function consoleErrors(events: TraceEvent[]): ConsoleError[] {
+  return events.flatMap((event): ConsoleError[] => {
+    if (event.type === 'console' && event.messageType === 'error') {
+      const { url, lineNumber } = event.location ?? {};
+      return [{ source: 'console', text: event.text, ...(url && { location: `${url}:${lineNumber}` }) }];
+    }
+    if (event.type === 'event' && event.method === 'pageError') {
+      const error = event.params?.error;
+      return [{ source: 'page', text: error?.error?.message ?? String(error?.value ?? '') }];
+    }
+    return [];
+  });
+}
+
+function networkFailures(events: TraceEvent[]): NetworkFailure[] {
+  return events.flatMap((event): NetworkFailure[] => {
+    const response = event.type === 'resource-snapshot' ? event.snapshot?.response : undefined;
+    if (event.type !== 'resource-snapshot' || !event.snapshot || !response) return [];
+    if (response.status < 400 && response.status !== -1 && !response._failureText) return [];
+
+    return [{
+      method: event.snapshot.request.method,
+      url: event.snapshot.request.url,
+      status: response.status,
+      ...(response._failureText && { failure: response._failureText }),
+    }];
+  });
+}
+
+/** The expected value the failing assertion was called with, when the message does not print one. */
+function expectedParam(call: TraceAction | undefined): string | undefined {
+  const expectedText = call?.params.expectedText as { string?: string }[] | undefined;
+  const texts = expectedText?.map(text => text.string).filter((text): text is string => text !== undefined);
+  if (!texts?.length) return undefined;
+  return texts.length === 1 ? texts[0] : JSON.stringify(texts);
+}
+
+/**
+ * FailureContext for the failure recorded in a trace archive. `test` fills in
+ * what the trace does not know (it has no test title; the file and line come
+ * from the failing step, the project from the browser).
+ */
+export function analyzeTrace(file: string, test: Partial<FailureContext['test']> = {}): FailureContext {
+  const zip = new AdmZip(file);
+  const events = readEvents(zip, /(^|\/)([^/]*-)?(test|trace)\.trace$/);
+  const network = readEvents(zip, /\.network$/);
+
+  const { call, step } = failingActions(collectActions(events));
+  const testError = events.find(event => event.type === 'error')?.message;
+  const message = stripAnsi(step?.error || testError || call?.error || '');
+  if (!message) {
+    throw new Error(`${file}: no failed action or test error in the trace`);
+  }
+
+  const selector = typeof call?.params.selector === 'string' ? call.params.selector : undefined;
+  const classification = classifyFailure({ message });
+  const failure = {
+    ...classification,
+    locator: classification.locator ?? (selector && describeSelector(selector)),
+    expected: classification.expected ?? expectedParam(call),
+    message,
+    annotations: [],
+  };
+
+  const frameSnapshots = events.flatMap(event => event.type === 'frame-snapshot' ? [event.snapshot] : []);
+  const failedAt = call?.endTime ?? step?.endTime ?? Infinity;
+  const snapshot = lastSnapshot(frameSnapshots, call, failedAt);
+
+  const trace: TraceEvidence = {
+    file,
+    ...(call && { action: { title: call.title, method: call.method, selector, error: call.error! } }),
+    consoleErrors: consoleErrors(events),
+    networkFailures: networkFailures([...events, ...network]),
+  };
+
+  let routeSnapshot: RouteSnapshot | undefined;
+  if (snapshot) {
+    const sameFrame = frameSnapshots.filter(candidate => candidate.frameId === snapshot.frameId);
+    const tree = new SnapshotTree(sameFrame).resolve(sameFrame.indexOf(snapshot));
+    const { nodes, marked } = domNodes(tree);
+    const route = routeOfUrl(snapshot.frameUrl);
+
+    trace.url = snapshot.frameUrl;
+    trace.html = `<!DOCTYPE html>${renderHtml(tree)}`;
+    trace.target = call && marked.get(call.callId);
+    if (route) {
+      const capturedAt = snapshot.wallTime ? new Date(snapshot.wallTime).toISOString() : new Date(0).toISOString();
+      // The trace has no ARIA snapshot; strategies fall back to the DOM nodes.
+      routeSnapshot = { route, url: snapshot.frameUrl, capturedAt, aria: '', nodes };
+    }
+  }
+
+  const location = step?.stack?.[0];
+  const browserName = events.flatMap(event => event.type === 'context-options' && event.browserName ? [event.browserName] : [])[0];
+
+  return {
+    ...failureContextFrom({
+      test: {
+        title: test.title ?? path.basename(path.dirname(file)),
+        file: test.file ?? location?.file ?? '',
+        line: test.line ?? location?.line ?? 0,
+        project: test.project ?? browserName ?? '',
+      },
+      failure,
+      snapshot: routeSnapshot,
+    }),
+    trace,
+  };
+}
@@ -0,0 +1,180 @@
+/**
+ * Healing Triage Reporter
+ *
+ * Custom Playwright reporter that classifies every failed test (see
+ * triage.ts) and writes `test-results/healing-triage.json` plus a console
+ * summary, so a run tells us which failures need healing and which look
+ * like genuine app bugs. Tests that only passed because a step was healed
+ * in-run (HEALING_STEPS=retry, annotated `healed`) are listed separately.
+ *
+ * Usage in playwright.config.ts:
+ *   ['./healing/triage-reporter.ts', { outputFile: 'test-results/healing-triage.json' }]
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { FullConfig, FullResult, Reporter, Suite, TestCase, TestResult } from '@playwright/test/reporter';
+import { classifyFailure, FailureCategory, FailureClassification, stripAnsi } from './triage';
+
+export interface TriageEntry extends FailureClassification {
+  testId: string;
+  /** Describe blocks and test title, e.g. `Login › should have correct button text`. */
+  title: string;
+  /** Relative to the repo root (the directory of the Playwright config), e.g. `tests/auth.spec.ts`. */
+  file: string;
+  line: number;
+  project: string;
+  retry: number;
+  status: TestResult['status'];
+  message: string;
+  annotations: { type: string; description?: string }[];
+  attachments: { name: string; path?: string; contentType: string }[];
+}
+
+export interface HealedTest {
+  testId: string;
+  title: string;
+  file: string;
+  line: number;
+  project: string;
+  /** `healed` annotation descriptions: step, original and replacement locator. */
+  heals: string[];
+}
+
+export interface TriageReport {
+  generatedAt: string;
+  status: FullResult['status'];
+  summary: {
+    total: number;
+    needsHealing: number;
+    appBugs: number;
+    healed: number;
+    byCategory: Partial<Record<FailureCategory, number>>;
+  };
+  failures: TriageEntry[];
+  /** Passing tests that needed in-run healing; the sources still need the fix. */
+  healed: HealedTest[];
+}
+
+export interface TriageReporterOptions {
+  outputFile?: string;
+}
+
+/** Describe blocks and test title, without the project and file segments. */
+export function testTitle(test: TestCase): string {
+  const [, , , ...titles] = test.titlePath();
+  return titles.join(' › ');
+}
+
+export default class TriageReporter implements Reporter {
+  private readonly outputFile: string;
+  private rootDir = process.cwd();
+  private readonly entries = new Map<string, TriageEntry>();
+  private readonly healed = new Map<string, HealedTest>();
+
+  constructor(options: TriageReporterOptions = {}) {
+    this.outputFile = options.outputFile || 'test-results/healing-triage.json';
+  }
+
+  onBegin(config: FullConfig, _suite: Suite) {
+    // config.rootDir is the test directory; the healing CLIs resolve paths from the repo root.
+    this.rootDir = config.configFile ? path.dirname(config.configFile) : process.cwd();
+  }
+
+  onTestEnd(test: TestCase, result: TestResult) {
+    const annotations = [...test.annotations, ...result.annotations];
+    const location = {
+      testId: test.id,
+      title: testTitle(test),
+      file: path.relative(this.rootDir, test.location.file),
+      line: test.location.line,
+      project: test.parent.project()?.name || '',
+    };
+
+    // Only the final attempt counts: a test that passes on retry is flaky, not broken.
+    if (result.status === 'passed' || result.status === 'skipped' || test.outcome() === 'expected') {
+      this.entries.delete(test.id);
+      const heals = annotations.filter(annotation => annotation.type === 'healed').map(annotation => annotation.description || '');
+      if (heals.length) {
+        this.healed.set(test.id, { ...location, heals });
+      } else {
+        this.healed.delete(test.id);
+      }
+      return;
+    }
+
+    this.healed.delete(test.id);
+    const message = result.errors.map(error => error.message || error.value || '').join('\n\n') || result.status;
+
+    this.entries.set(test.id, {
+      ...classifyFailure({ message, annotations }),
+      ...location,
+      retry: result.retry,
+      status: result.status,
+      message: stripAnsi(message),
+      annotations,
+      attachments: result.attachments.map(({ name, path, contentType }) => ({ name, path, contentType })),
+    });
+  }
+
+  onEnd(result: FullResult) {
+    const failures = [...this.entries.values()];
+    const healed = [...this.healed.values()];
+    const byCategory: TriageReport['summary']['byCategory'] = {};
+
+    for (const failure of failures) {
+      byCategory[failure.category] = (byCategory[failure.category] || 0) + 1;
+    }
+
+    const report: TriageReport = {
+      generatedAt: new Date().toISOString(),
+      status: result.status,
+      summary: {
+        total: failures.length,
+        needsHealing: failures.filter(failure => failure.needsHealing).length,
+        appBugs: failures.filter(failure => failure.category === 'app-bug').length,
+        healed: healed.length,
+        byCategory,
+      },
+      failures,
+      healed,
+    };
+
+    fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    fs.writeFileSync(this.outputFile, JSON.stringify(report, null, 2));
+
+    this.printSummary(report);
+  }
+
+  private printSummary(report: TriageReport) {
+    if (report.healed.length) {
+      console.log(`\nHealed in-run: ${report.healed.length} test(s) passed only with a healed step; fix the sources`);
+      for (const test of report.healed) {
+        console.log(`  [${test.project}] ${test.title}`);
+        test.heals.forEach(heal => console.log(`    healed ${heal}`));
+      }
+    }
+
+    if (!report.failures.length) {
+      console.log('\nHealing triage: no failures to classify.');
+      return;
+    }
+
+    console.log(`\nHealing triage: ${report.summary.total} failure(s), `
+      + `${report.summary.needsHealing} need healing, ${report.summary.appBugs} look like app bugs`);
+
+    for (const [category, count] of Object.entries(report.summary.byCategory)) {
+      console.log(`  ${category.padEnd(20)} ${count}`);
+    }
+
+    for (const failure of report.failures) {
+      console.log(`  [${failure.project}] ${failure.title}\n    ${failure.category}: ${failure.reason}`);
+    }
+
+    console.log(`  Written to ${this.outputFile}`);
+  }
+
+  printsToStdio() {
+    return false;
+  }
+}
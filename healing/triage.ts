@@ -0,0 +1,225 @@
+/**
+ * Failure Triage
+ *
+ * Classifies a failed test into a healing category by reading the
+ * Playwright error: which matcher failed, on which locator, and what was
+ * expected vs received. The goal is to separate "the test needs healing"
+ * from "the app is broken" (and both from "the machine is broken": browsers
+ * that cannot start, an app that is not running) without opening each trace.
+ */
+
+export type FailureCategory =
+  | 'locator-not-found'
+  | 'text-mismatch'
+  | 'count-mismatch'
+  | 'index-shift'
+  | 'navigation-mismatch'
+  | 'timeout'
+  | 'environment'
+  | 'app-bug';
+
+/** Categories a healer can fix by editing the test rather than the app. */
+export const HEALABLE_CATEGORIES: FailureCategory[] = [
+  'locator-not-found',
+  'text-mismatch',
+  'count-mismatch',
+  'index-shift',
+  'navigation-mismatch',
+];
+
+export interface FailureDetails {
+  /** e.g. `toHaveText`, `toHaveCount`, or the action such as `click`. */
+  matcher?: string;
+  isNot?: boolean;
+  locator?: string;
+  expected?: string;
+  received?: string;
+}
+
+export interface FailureClassification extends FailureDetails {
+  category: FailureCategory;
+  needsHealing: boolean;
+  reason: string;
+}
+
+export interface TriageInput {
+  message: string;
+  /** Annotations recorded during the test, e.g. `healing-proposal`. */
+  annotations?: { type: string; description?: string }[];
+}
+
+export function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*m/g, '');
+}
+
+function unquote(value: string | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  const trimmed = value.trim();
+  const quoted = trimmed.match(/^"(.*)"$/s);
+  return quoted ? quoted[1] : trimmed;
+}
+
+function field(message: string, names: string): string | undefined {
+  const match = message.match(new RegExp(`^\\s*(?:${names}):\\s*(.+)$`, 'm'));
+  return unquote(match?.[1]);
+}
+
+export function parseFailure(rawMessage: string): FailureDetails {
+  const message = stripAnsi(rawMessage);
+  const details: FailureDetails = {};
+
+  const assertion = message.match(/expect\((\w+)\)\.(not\.)?(\w+)\(/);
+  const action = message.match(/(?:locator|page)\.(\w+): (?:Timeout|Error|no strategy of)/);
+
+  if (assertion) {
+    details.matcher = assertion[3];
+    details.isNot = !!assertion[2];
+  } else if (action) {
+    details.matcher = action[1];
+  }
+
+  details.locator = field(message, 'Locator')
+    ?? message.match(/waiting for (.+?)(?:\s+to be \w+)?$/m)?.[1]?.trim();
+  details.expected = field(message, 'Expected(?: string| pattern| substring| value)?');
+  details.received = field(message, 'Received(?: string| value)?');
+
+  const diff = parseArrayDiff(message);
+  if (diff && details.expected === undefined && details.received === undefined) {
+    details.expected = JSON.stringify(diff.expected);
+    details.received = JSON.stringify(diff.received);
+  }
+
+  return details;
+}
+
+/**
+ * Deep-equality failures on string arrays print a diff instead of
+ * Expected/Received lines; rebuild both arrays from it.
+ */
+export function parseArrayDiff(message: string): { expected: string[]; received: string[] } | undefined {
+  if (!/^- Expected\s+- \d+\s*$/m.test(message)) return undefined;
+
+  const diff = { expected: [] as string[], received: [] as string[] };
+
+  for (const line of message.split('\n')) {
+    const item = line.match(/^([-+ ]) \s*("(?:[^"\\]|\\.)*"),?\s*$/);
+    if (!item) continue;
+
+    const value = JSON.parse(item[2]) as string;
+    if (item[1] !== '+') diff.expected.push(value);
+    if (item[1] !== '-') diff.received.push(value);
+  }
+
+  return diff.expected.length || diff.received.length ? diff : undefined;
+}
+
+function parseList(value: string | undefined): unknown[] | undefined {
+  if (!value || !value.startsWith('[')) return undefined;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function sameMembers(a: unknown[], b: unknown[]): boolean {
+  return a.length === b.length && [...a].map(String).sort().join('\u0000') === [...b].map(String).sort().join('\u0000');
+}
+
+/** Errors from the machine or setup rather than the app or the test, with what to do about them. */
+const ENVIRONMENT_ERRORS: [RegExp, string][] = [
+  [/Host system is missing dependencies/, 'Browser cannot start: host system dependencies are missing (npx playwright install-deps)'],
+  [/Executable doesn't exist at/, 'Browser is not installed (npx playwright install)'],
+  [/ERR_CONNECTION_REFUSED|NS_ERROR_CONNECTION_REFUSED|Could not connect to (the )?server|ECONNREFUSED/, 'App is not reachable; is the server running?'],
+  [/ERR_NAME_NOT_RESOLVED|NS_ERROR_UNKNOWN_HOST/, 'App host name does not resolve'],
+  [/Target crashed|Browser has been disconnected|browser has disconnected/i, 'Browser crashed'],
+  [/ENOSPC|no space left on device/i, 'Disk is full'],
+];
+
+const TEXT_MATCHERS = ['toHaveText', 'toContainText', 'toHaveValue', 'toHaveAttribute', 'toHaveAccessibleName', 'toHaveTitle'];
+const PRESENCE_MATCHERS = ['toBeVisible', 'toBeAttached', 'toBeEnabled', 'toBeEditable', 'toBeChecked', 'toBeFocused'];
+
+function categorize(message: string, details: FailureDetails): { category: FailureCategory; reason: string } {
+  const { matcher, locator, expected, received } = details;
+  const notFound = /element\(s\) not found/.test(message);
+
+  const environment = ENVIRONMENT_ERRORS.find(([pattern]) => pattern.test(message));
+  if (environment) {
+    return { category: 'environment', reason: environment[1] };
+  }
+
+  if (/strict mode violation/.test(message)) {
+    return { category: 'locator-not-found', reason: `Locator ${locator ?? ''} no longer matches a single element`.trim() };
+  }
+
+  if (matcher === 'toHaveURL' || /page\.waitForURL/.test(message)) {
+    return { category: 'navigation-mismatch', reason: `Expected URL ${expected ?? ''}, got ${received ?? 'a different page'}` };
+  }
+
+  if (matcher === 'toHaveCount') {
+    return { category: 'count-mismatch', reason: `Expected ${expected} elements for ${locator}, found ${received}` };
+  }
+
+  if (matcher && TEXT_MATCHERS.includes(matcher)) {
+    if (locator && /\.nth\(\d+\)|\.first\(\)|\.last\(\)/.test(locator)) {
+      return { category: 'index-shift', reason: `Positional locator ${locator} now points at "${received}"` };
+    }
+    if (received === undefined || notFound) {
+      return { category: 'locator-not-found', reason: `Locator ${locator} did not match any element` };
+    }
+    return { category: 'text-mismatch', reason: `Expected "${expected}", received "${received}"` };
+  }
+
+  if (matcher && PRESENCE_MATCHERS.includes(matcher) && !details.isNot && notFound) {
+    return { category: 'locator-not-found', reason: `Locator ${locator} did not match any element` };
+  }
+
+  // Value assertions, e.g. expect(await dashboardPage.getTableHeaders()).toEqual([...])
+  if (matcher === 'toEqual' || matcher === 'toStrictEqual') {
+    const expectedList = parseList(expected);
+    const receivedList = parseList(received);
+    if (expectedList && receivedList) {
+      if (expectedList.length !== receivedList.length) {
+        return { category: 'count-mismatch', reason: `Expected ${expectedList.length} items, received ${receivedList.length}` };
+      }
+      if (sameMembers(expectedList, receivedList)) {
+        return { category: 'index-shift', reason: 'Same items in a different order' };
+      }
+      return { category: 'text-mismatch', reason: 'Items changed text' };
+    }
+  }
+
+  // A HealingLocator stopped early inside a healing step (see healing-locator.ts).
+  if (/locator\.\w+: no strategy of \S+ matched/.test(message) && locator) {
+    return { category: 'locator-not-found', reason: `Action ${matcher} found no element for ${locator}` };
+  }
+
+  if (/locator\.\w+: Timeout .* exceeded/.test(message) && locator) {
+    return { category: 'locator-not-found', reason: `Action ${matcher} timed out waiting for ${locator}` };
+  }
+
+  if (/Test timeout of \d+ms exceeded|Timeout \d+ms exceeded/.test(message)) {
+    return { category: 'timeout', reason: 'Timed out without a locator or assertion to blame' };
+  }
+
+  return { category: 'app-bug', reason: 'Failure does not look like selector or text drift' };
+}
+
+export function classifyFailure(input: TriageInput): FailureClassification {
+  const message = stripAnsi(input.message);
+  const details = parseFailure(message);
+  const { category, reason } = categorize(message, details);
+
+  // A healing proposal from the HealingLocator means the element still
+  // exists in a recognizable form, so even a timeout is worth healing.
+  const proposed = (input.annotations || []).some(annotation => annotation.type === 'healing-proposal');
+  const healed = category === 'timeout' && proposed ? 'locator-not-found' : category;
+
+  return {
+    ...details,
+    category: healed,
+    needsHealing: HEALABLE_CATEGORIES.includes(healed),
+    reason: healed !== category ? `${reason}; a baseline match was proposed` : reason,
+  };
+}
@@ -1,4 +1,28 @@
 import { defineConfig, devices } from '@playwright/test';
+import { FIXTURE_APP_PORT } from './fixture-app/server';
+import { setupProjectName } from './tests/helpers/auth';
+
+/**
+ * Set TEST_APP=fixture to run against the bundled offline stand-in of the
+ * app (fixture-app/) instead of the Angular app on localhost:4200.
+ */
+const useFixtureApp = process.env.TEST_APP === 'fixture';
+const fixtureAppURL = `http://localhost:${process.env.FIXTURE_APP_PORT || FIXTURE_APP_PORT}`;
+
+/* Browser projects; add an entry to test another browser or device. */
+export const BROWSER_PROJECTS = [
+  { name: 'chromium', use: { ...devices['Desktop Chrome'] } },
+  { name: 'firefox', use: { ...devices['Desktop Firefox'] } },
+  { name: 'webkit', use: { ...devices['Desktop Safari'] } },
+  /* Test against mobile viewports. */
+  // { name: 'Mobile Chrome', use: { ...devices['Pixel 5'] } },
+  // { name: 'Mobile Safari', use: { ...devices['iPhone 12'] } },
+];
+
+/* Specs for the healing tooling that need no browser. They run once, in the
+   `unit` project, instead of once per browser. */
+export const UNIT_PROJECT = 'unit';
+const UNIT_SPECS = /(flow-validation|fragility|heal-history|heal-report|heal-review|healing-strategies|manifest|mutation-matrix|patcher|pom-generator|step-healing|testid-coverage|trace-analyzer|triage)\.spec\.ts$/;
 
 /**
  * Playwright Configuration for Dummy QA App Testing
@@ -8,7 +32,8 @@ import { defineConfig, devices } from '@playwright/test';
  */
 export default defineConfig({
   testDir: './tests',
-  
+
+
   /* Run tests in files in parallel */
   fullyParallel: true,
   
@@ -28,13 +53,17 @@ export default defineConfig({
   reporter: [
     ['html'],
     ['list'],
-    ['json', { outputFile: 'test-results/results.json' }]
+    ['json', { outputFile: 'test-results/results.json' }],
+    ['./healing/triage-reporter.ts', { outputFile: 'test-results/healing-triage.json' }],
+    ['./healing/manifest-reporter.ts', { outputFile: process.env.MANIFEST_OUTPUT || 'test-results/manifest-check.json' }],
+    ['./healing/history-reporter.ts'],
+    ['./healing/heal-report-reporter.ts', { outputDir: 'test-results/healing-report' }]
   ],
   
   /* Shared settings for all the projects below. See https://playwright.dev/docs/api/class-testoptions. */
   use: {
     /* Base URL to use in actions like `await page.goto('/')`. */
-    baseURL: process.env.BASE_URL || 'http://localhost:4200',
+    baseURL: process.env.BASE_URL || (useFixtureApp ? fixtureAppURL : 'http://localhost:4200'),
     
     /* Collect trace when retrying the failed test. See https://playwright.dev/docs/trace-viewer */
     trace: 'on-first-retry',
@@ -46,39 +75,26 @@ export default defineConfig({
     video: 'retain-on-failure',
   },
 
-  /* Configure projects for major browsers */
+  /* Configure projects for major browsers. Each depends on a setup project
+     that logs in once and saves the session for `loggedIn` tests (see
+     tests/auth.setup.ts); only the selected projects' setups run. */
   projects: [
-    {
-      name: 'chromium',
-      use: { ...devices['Desktop Chrome'] },
-    },
-
-    {
-      name: 'firefox',
-      use: { ...devices['Desktop Firefox'] },
-    },
-
-    {
-      name: 'webkit',
-      use: { ...devices['Desktop Safari'] },
-    },
-
-    /* Test against mobile viewports. */
-    // {
-    //   name: 'Mobile Chrome',
-    //   use: { ...devices['Pixel 5'] },
-    // },
-    // {
-    //   name: 'Mobile Safari',
-    //   use: { ...devices['iPhone 12'] },
-    // },
+    { name: UNIT_PROJECT, testMatch: UNIT_SPECS },
+    ...BROWSER_PROJECTS.flatMap(({ name, use }) => [
+      { name: setupProjectName(name), testMatch: /auth\.setup\.ts/, use },
+      { name, use, testIgnore: UNIT_SPECS, dependencies: [setupProjectName(name)] },
+    ]),
   ],
 
-  /* Run your local dev server before starting the tests */
-  // webServer: {
-  //   command: 'npm run start',
-  //   url: 'http://localhost:4200',
-  //   reuseExistingServer: !process.env.CI,
-  // },
+  /* Run the offline fixture app before starting the tests */
+  webServer: useFixtureApp ? {
+    command: 'npm run fixture-app',
+    url: `${fixtureAppURL}/login`,
+    env: {
+      PORT: String(process.env.FIXTURE_APP_PORT || FIXTURE_APP_PORT),
+      APP_UI_CHANGES: process.env.APP_UI_CHANGES ?? process.env.UI_CHANGES ?? '',
+    },
+    reuseExistingServer: !process.env.CI,
+  } : undefined,
 });
 
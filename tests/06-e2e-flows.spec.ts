@@ -4,95 +4,73 @@
  * Complete user journey tests that span multiple pages.
  */
 
-import { test, expect } from '@playwright/test';
+import { test, expect } from './helpers/fixtures';
 import { LoginPage, DashboardPage, UserModal, ProfilePage } from './helpers/page-objects';
 import { TEST_USERS } from './helpers/test-data';
 
 test.describe('End-to-End User Flows', () => {
-  test('complete user journey: login -> add user -> view profile -> logout', async ({ page }) => {
+  test('complete user journey: login -> add user -> view profile -> logout', async ({ page, testData }) => {
     const loginPage = new LoginPage(page);
     const dashboardPage = new DashboardPage(page);
     const userModal = new UserModal(page);
     const profilePage = new ProfilePage(page);
+    const newUser = testData.user();
     
-    // Step 1: Login
-    await loginPage.goto();
-    await loginPage.login(TEST_USERS.login.email, TEST_USERS.login.password);
-    await expect(page).toHaveURL(/.*dashboard/);
-    
-    // Step 2: Add a new user
-    await dashboardPage.addUserButton.click();
-    await userModal.fillForm({
-      name: TEST_USERS.newUser.name,
-      email: TEST_USERS.newUser.email,
-      department: TEST_USERS.newUser.department,
-      role: TEST_USERS.newUser.role,
+    await test.step('login', async () => {
+      await loginPage.goto();
+      await loginPage.login(TEST_USERS.login.email, TEST_USERS.login.password);
+      await expect(page).toHaveURL(/.*dashboard/);
+    });
+
+    await test.step('add a new user', async () => {
+      await dashboardPage.addUserButton.click();
+      await userModal.fillForm(newUser);
+      await userModal.save();
+      await expect(page.getByText(newUser.name)).toBeVisible();
+    });
+
+    await test.step('navigate to profile', async () => {
+      await dashboardPage.profileLink.click();
+      await expect(page).toHaveURL(/.*profile/);
+      await expect(profilePage.profileTitle).toBeVisible();
+    });
+
+    await test.step('return to dashboard', async () => {
+      await profilePage.dashboardLink.click();
+      await expect(page).toHaveURL(/.*dashboard/);
+    });
+
+    await test.step('logout', async () => {
+      await dashboardPage.logoutButton.click();
+      await expect(page).toHaveURL(/.*login/);
     });
-    await userModal.save();
-    
-    // Verify user was added
-    await expect(page.getByText(TEST_USERS.newUser.name)).toBeVisible();
-    
-    // Step 3: Navigate to profile
-    await dashboardPage.profileLink.click();
-    await expect(page).toHaveURL(/.*profile/);
-    await expect(profilePage.profileTitle).toBeVisible();
-    
-    // Step 4: Return to dashboard
-    await profilePage.dashboardLink.click();
-    await expect(page).toHaveURL(/.*dashboard/);
-    
-    // Step 5: Logout
-    await dashboardPage.logoutButton.click();
-    await expect(page).toHaveURL(/.*login/);
   });
 
-  test('user management flow: add -> edit -> delete', async ({ page }) => {
-    const dashboardPage = new DashboardPage(page);
-    const userModal = new UserModal(page);
-    
-    await dashboardPage.goto();
-    
-    const initialCount = await dashboardPage.getUserCount();
-    
-    // Add user
-    await dashboardPage.addUserButton.click();
-    await userModal.fillForm({
-      name: 'Test User',
-      email: 'test.user@example.com',
-      role: 'User',
+  test.describe(() => {
+    test.use({ loggedIn: true });
+
+    test('user management flow: add -> edit -> delete', async ({ userManagement, testData }) => {
+      await userManagement.goto();
+      
+      const initialCount = (await userManagement.listUsers()).length;
+      
+      // Add user, tracking the id the app assigns
+      const id = await userManagement.createUser(testData.user({ role: 'User' }));
+      
+      // Verify added
+      expect(await userManagement.listUsers()).toHaveLength(initialCount + 1);
+      
+      // Edit the user just created
+      const { name: newName } = testData.user();
+      await userManagement.updateUser(id, { name: newName });
+      expect((await userManagement.getUser(id)).name).toBe(newName);
+      
+      // Delete it; the service accepts and checks the confirm dialog
+      await userManagement.deleteUser(id);
+      
+      // Verify deleted
+      expect(await userManagement.listUsers()).toHaveLength(initialCount);
     });
-    await userModal.save();
-    
-    // Wait for modal to close
-    await expect(userModal.modalBackdrop).not.toBeVisible();
-    
-    // Verify added
-    let currentCount = await dashboardPage.getUserCount();
-    expect(currentCount).toBe(initialCount + 1);
-    
-    // Edit the last user (ID 4, since we start with 3)
-    await dashboardPage.clickEditUser(4);
-    await userModal.nameInput.clear();
-    await userModal.nameInput.fill('Test User Updated');
-    await userModal.save();
-    
-    // Wait for modal to close
-    await expect(userModal.modalBackdrop).not.toBeVisible();
-    
-    // Verify edit
-    await expect(page.getByText('Test User Updated')).toBeVisible();
-    
-    // Delete user - setup dialog handler before clicking
-    page.once('dialog', dialog => dialog.accept());
-    await dashboardPage.clickDeleteUser(4);
-    
-    // Wait for deletion to process
-    await page.waitForTimeout(300);
-    
-    // Verify deleted
-    currentCount = await dashboardPage.getUserCount();
-    expect(currentCount).toBe(initialCount);
   });
 
   test('navigation flow: visit all pages and return', async ({ page }) => {
@@ -122,63 +100,55 @@ test.describe('End-to-End User Flows', () => {
     await expect(page).toHaveURL(/.*login/);
   });
 
-  test('persistence flow: changes persist within session', async ({ page }) => {
-    const dashboardPage = new DashboardPage(page);
-    const userModal = new UserModal(page);
-    
-    // Add a user
-    await dashboardPage.goto();
-    await dashboardPage.addUserButton.click();
-    await userModal.fillForm({
-      name: 'Persistent User',
-      email: 'persistent@example.com',
-      role: 'Manager',
+  test.describe(() => {
+    test.use({ loggedIn: true });
+
+    test('persistence flow: changes persist within session', async ({ authedPage: page, testData }) => {
+      const dashboardPage = new DashboardPage(page);
+      const userModal = new UserModal(page);
+      const persistentUser = testData.user({ role: 'Manager' });
+      
+      // Add a user
+      await dashboardPage.goto();
+      await dashboardPage.addUserButton.click();
+      await userModal.fillForm({
+        name: persistentUser.name,
+        email: persistentUser.email,
+        role: persistentUser.role,
+      });
+      await userModal.save();
+      
+      // Wait for modal to close and verify user was added
+      await expect(userModal.modalBackdrop).not.toBeVisible();
+      await expect(page.getByText(persistentUser.name)).toBeVisible();
+      
+      // Navigate within the app using links (not full page reload)
+      await dashboardPage.profileLink.click();
+      await expect(page).toHaveURL(/.*profile/);
+      
+      // Navigate back using links
+      await page.getByTestId('dashboard-link').click();
+      await expect(page).toHaveURL(/.*dashboard/);
+      
+      // Verify user still exists (note: full page reloads reset state)
+      await expect(page.getByText(persistentUser.name)).toBeVisible();
     });
-    await userModal.save();
-    
-    // Wait for modal to close and verify user was added
-    await expect(userModal.modalBackdrop).not.toBeVisible();
-    await expect(page.getByText('Persistent User')).toBeVisible();
-    
-    // Navigate within the app using links (not full page reload)
-    await dashboardPage.profileLink.click();
-    await expect(page).toHaveURL(/.*profile/);
-    
-    // Navigate back using links
-    await page.getByTestId('dashboard-link').click();
-    await expect(page).toHaveURL(/.*dashboard/);
-    
-    // Verify user still exists (note: full page reloads reset state)
-    await expect(page.getByText('Persistent User')).toBeVisible();
   });
 });
 
 test.describe('End-to-End with UI Changes', () => {
-  test('complete flow with UI changes (without page reload)', async ({ page }) => {
-    // Start at login
-    await page.goto('/login');
-    
-    // Use navigation to go to dev tools (keeps state)
-    await page.evaluate(() => {
-      window.location.href = '/dev';
-    });
-    await page.waitForURL('**/dev');
-    
+  test('complete flow with UI changes (without page reload)', async ({ page, uiChanges }) => {
     // Apply all changes
-    await page.getByTestId('apply-change-1').click();
-    await page.waitForTimeout(200);
-    await page.getByTestId('apply-change-2').click();
-    await page.waitForTimeout(200);
-    await page.getByTestId('apply-change-3').click();
-    await page.waitForTimeout(200);
-    
+    await uiChanges.apply('login-button-text', 'department-column', 'modal-title');
+    const changed = uiChanges.expected();
+
     // Navigate back to login to verify change #1
     await page.getByTestId('nav-to-login').click();
     await expect(page).toHaveURL(/.*login/);
     
     // Verify login button changed
     const loginButton = page.getByTestId('login-submit');
-    await expect(loginButton).toContainText('Log In Now');
+    await expect(loginButton).toContainText(changed.loginButton);
     
     // Login with changed button
     await page.getByTestId('email-input').fill(TEST_USERS.login.email);
@@ -191,27 +161,15 @@ test.describe('End-to-End with UI Changes', () => {
     
     // Open modal (verify changed title - change #3)
     await page.getByTestId('add-user-button').click();
-    await expect(page.getByTestId('modal-title')).toContainText('Edit Team Member');
+    await expect(page.getByTestId('modal-title')).toContainText(changed.modalTitle);
     
     // Close modal
     await page.getByTestId('cancel-button').click();
   });
 
-  test('reset flow: apply changes -> reset (within session)', async ({ page }) => {
-    // Start at login
-    await page.goto('/login');
-    
-    // Navigate to dev tools
-    await page.evaluate(() => {
-      window.location.href = '/dev';
-    });
-    await page.waitForURL('**/dev');
-    
+  test('reset flow: apply changes -> reset (within session)', async ({ page, uiChanges }) => {
     // Apply changes
-    await page.getByTestId('apply-change-1').click();
-    await page.waitForTimeout(200);
-    await page.getByTestId('apply-change-2').click();
-    await page.waitForTimeout(200);
+    await uiChanges.apply('login-button-text', 'department-column');
     
     // Verify changes are active
     await page.getByTestId('nav-to-login').click();
@@ -220,21 +178,16 @@ test.describe('End-to-End with UI Changes', () => {
     // Wait for button to be visible and have the correct text
     const loginButton = page.getByTestId('login-submit');
     await expect(loginButton).toBeVisible();
-    await expect(loginButton).toContainText('Log In Now');
+    await expect(loginButton).toContainText(uiChanges.expected().loginButton);
     
     // Go back to dev tools and reset
-    await page.evaluate(() => {
-      window.location.href = '/dev';
-    });
-    await page.waitForURL('**/dev');
-    await page.getByTestId('reset-changes').click();
-    await page.waitForTimeout(200);
+    await uiChanges.reset();
     
     // Verify original state
     await page.getByTestId('nav-to-login').click();
     await expect(page).toHaveURL(/.*login/);
     await expect(loginButton).toBeVisible();
-    await expect(loginButton).toContainText('Sign In');
+    await expect(loginButton).toContainText(uiChanges.expected().loginButton);
     
     // Verify dashboard table also reset
     await page.getByTestId('email-input').fill('test@test.com');
@@ -248,7 +201,9 @@ test.describe('End-to-End with UI Changes', () => {
 });
 
 test.describe('Error Handling and Edge Cases', () => {
-  test('should handle rapid modal open/close', async ({ page }) => {
+  test.use({ loggedIn: true });
+
+  test('should handle rapid modal open/close', async ({ authedPage: page }) => {
     await page.goto('/dashboard');
     
     // Open and close multiple times
@@ -260,26 +215,41 @@ test.describe('Error Handling and Edge Cases', () => {
     }
   });
 
-  test('should handle multiple user deletions', async ({ page }) => {
-    await page.goto('/dashboard');
+  test('should handle multiple user deletions', async ({ userManagement }) => {
+    await userManagement.goto();
     
-    const initialCount = await page.locator('[data-testid^="user-row-"]').count();
+    const [first, second, ...rest] = await userManagement.listUsers();
     
-    // Delete first user
-    page.once('dialog', dialog => dialog.accept());
-    await page.getByTestId('delete-user-1').click();
-    await page.waitForTimeout(200);
+    await userManagement.deleteUser(first.id);
+    await userManagement.deleteUser(second.id);
+    
+    expect(await userManagement.listUsers()).toEqual(rest);
+  });
+
+  test('should add users with long and unicode names', async ({ userManagement, testData }) => {
+    await userManagement.goto();
+    
+    const users = [
+      testData.build().withLongName(120).create(),
+      testData.build().withUnicodeName().create(),
+    ];
+    
+    for (const user of users) {
+      const id = await userManagement.createUser(user);
+      expect(await userManagement.getUser(id)).toMatchObject({ name: user.name, email: user.email });
+    }
+  });
+
+  test('should keep the user when delete is dismissed', async ({ userManagement }) => {
+    await userManagement.goto();
     
-    // Delete second user
-    page.once('dialog', dialog => dialog.accept());
-    await page.getByTestId('delete-user-2').click();
-    await page.waitForTimeout(200);
+    const users = await userManagement.listUsers();
+    await userManagement.deleteUser(users[0].id, { confirm: false });
     
-    const finalCount = await page.locator('[data-testid^="user-row-"]').count();
-    expect(finalCount).toBe(initialCount - 2);
+    expect(await userManagement.listUsers()).toEqual(users);
   });
 
-  test('should handle direct URL navigation', async ({ page }) => {
+  test('should handle direct URL navigation', async ({ authedPage: page }) => {
     // Directly navigate to each page
     await page.goto('/dashboard');
     await expect(page.getByTestId('dashboard-title')).toBeVisible();
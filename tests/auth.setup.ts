@@ -0,0 +1,23 @@
+/**
+ * Authentication Setup
+ *
+ * Runs as the `<browser>-setup` project each browser project depends on, so
+ * only the selected projects log in. Logs in through LoginPage and saves the
+ * storage state to playwright/.auth/<project>.json, which tests that
+ * `test.use({ loggedIn: true })` start from. A failed login fails the setup
+ * and its browser project does not run.
+ */
+
+import { test as setup, expect } from '@playwright/test';
+import { LoginPage } from './helpers/page-objects';
+import { TEST_USERS } from './helpers/test-data';
+import { authedProjectOf, storageStatePath } from './helpers/auth';
+
+setup('log in', async ({ page }, testInfo) => {
+  const loginPage = new LoginPage(page);
+
+  await loginPage.goto();
+  await loginPage.login(TEST_USERS.login.email, TEST_USERS.login.password);
+  await expect(page).toHaveURL(/dashboard/);
+  await page.context().storageState({ path: storageStatePath(authedProjectOf(testInfo.project.name)) });
+});
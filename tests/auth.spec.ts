@@ -0,0 +1,37 @@
+/**
+ * Authentication Guard Tests
+ *
+ * Protected routes must send anonymous users to the login page and let
+ * logged-in users through.
+ */
+
+import { test, expect } from './helpers/fixtures';
+import { PROTECTED_ROUTES, expectLoginRedirect } from './helpers/auth';
+import { DashboardPage } from './helpers/page-objects';
+
+test.describe('Auth Guard', () => {
+  for (const route of PROTECTED_ROUTES) {
+    test(`@smoke ${route} redirects anonymous users to login`, async ({ anonymousPage }) => {
+      await expectLoginRedirect(anonymousPage, route);
+    });
+  }
+
+  test.describe(() => {
+    test.use({ loggedIn: true });
+
+    for (const route of PROTECTED_ROUTES) {
+      test(`${route} is reachable when logged in`, async ({ authedPage }) => {
+        await authedPage.goto(route);
+        await expect(authedPage).toHaveURL(new RegExp(`${route}$`));
+      });
+    }
+
+    test('logging out protects the dashboard again', async ({ authedPage }) => {
+      const dashboardPage = new DashboardPage(authedPage);
+      await dashboardPage.goto();
+      await dashboardPage.logout();
+
+      await expectLoginRedirect(authedPage, PROTECTED_ROUTES[0]);
+    });
+  });
+});
@@ -5,9 +5,10 @@
  * These tests demonstrate stable selectors (data-testid) vs fragile ones.
  */
 
-import { test, expect } from '@playwright/test';
+import { test, expect } from './helpers/fixtures';
 import { LoginPage, DashboardPage, UserModal } from './helpers/page-objects';
-import { TEST_USERS, UI_TEXT } from './helpers/test-data';
+import { TEST_USERS } from './helpers/test-data';
+import { EXPECTED_UI } from './helpers/ui-scenarios';
 
 test.describe('Login', () => {
   let loginPage: LoginPage;
@@ -24,15 +25,17 @@ test.describe('Login', () => {
 
   test('should have correct button text - WILL BREAK with Change #1', async () => {
     // This test uses fragile text-based assertion
-    await expect(loginPage.submitButton).toHaveText(UI_TEXT.initial.loginButton);
+    await expect(loginPage.submitButton).toHaveText(EXPECTED_UI.loginButton);
   });
 });
 
 test.describe('Dashboard', () => {
+  test.use({ loggedIn: true });
+
   let dashboardPage: DashboardPage;
 
-  test.beforeEach(async ({ page }) => {
-    dashboardPage = new DashboardPage(page);
+  test.beforeEach(async ({ authedPage }) => {
+    dashboardPage = new DashboardPage(authedPage);
     await dashboardPage.goto();
   });
 
@@ -45,19 +48,35 @@ test.describe('Dashboard', () => {
   test('should have correct table structure - WILL BREAK with Change #2', async () => {
     // This test uses fragile column count assertion
     const headers = await dashboardPage.getTableHeaders();
-    expect(headers).toEqual(UI_TEXT.initial.tableHeaders);
+    expect(headers).toEqual(EXPECTED_UI.tableHeaders);
   });
 
-  test('@smoke should add new user successfully', async ({ page }) => {
-    const userModal = new UserModal(page);
+  test('should read users by column name', async () => {
+    // Column-aware reads: unaffected by added or reordered columns
+    const users = await dashboardPage.table.rowsAsObjects();
+    for (const user of TEST_USERS.existing) {
+      expect(users).toContainEqual(expect.objectContaining({
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        role: user.role,
+      }));
+    }
+
+    const [, jane, bob] = TEST_USERS.existing;
+    await expect(await dashboardPage.table.getCell(jane.id, 'Email')).toHaveText(jane.email);
+
+    const row = await dashboardPage.table.findRow({ email: bob.email });
+    expect(row).toBeDefined();
+    await expect(row!).toContainText(bob.name);
+  });
+
+  test('@smoke should add new user successfully', async ({ authedPage, testData }) => {
+    const userModal = new UserModal(authedPage);
     const initialCount = await dashboardPage.getUserCount();
     
     await dashboardPage.addUserButton.click();
-    await userModal.fillForm({
-      name: 'Test User',
-      email: 'test@example.com',
-      role: 'User',
-    });
+    await userModal.fillForm(testData.user({ role: 'User' }));
     await userModal.save();
     
     await expect(userModal.modalBackdrop).not.toBeVisible();
@@ -67,12 +86,14 @@ test.describe('Dashboard', () => {
 });
 
 test.describe('User Modal', () => {
+  test.use({ loggedIn: true });
+
   let dashboardPage: DashboardPage;
   let userModal: UserModal;
 
-  test.beforeEach(async ({ page }) => {
-    dashboardPage = new DashboardPage(page);
-    userModal = new UserModal(page);
+  test.beforeEach(async ({ authedPage }) => {
+    dashboardPage = new DashboardPage(authedPage);
+    userModal = new UserModal(authedPage);
     await dashboardPage.goto();
   });
 
@@ -84,18 +105,29 @@ test.describe('User Modal', () => {
     await expect(userModal.modalBackdrop).not.toBeVisible();
   });
 
+  test('should not save a user with an invalid email', async ({ testData }) => {
+    await dashboardPage.addUserButton.click();
+    await userModal.fillForm(testData.build().withInvalidEmail().create());
+    await userModal.save();
+    
+    // The browser's email validation keeps the modal open
+    await expect(userModal.modalBackdrop).toBeVisible();
+    expect(await userModal.emailInput.evaluate(input => (input as HTMLInputElement).validity.valid)).toBe(false);
+  });
+
   test('should have correct modal title - WILL BREAK with Change #3', async () => {
     // This test uses fragile text-based assertion
     await dashboardPage.addUserButton.click();
-    await expect(userModal.modalTitle).toHaveText(UI_TEXT.initial.modalTitle);
+    await expect(userModal.modalTitle).toHaveText(EXPECTED_UI.modalTitle);
   });
 });
 
 test.describe('End-to-End User Journey', () => {
-  test('complete flow: login -> add user -> verify', async ({ page }) => {
+  test('complete flow: login -> add user -> verify', async ({ page, testData }) => {
     const loginPage = new LoginPage(page);
     const dashboardPage = new DashboardPage(page);
     const userModal = new UserModal(page);
+    const newUser = testData.user();
     
     // Login
     await loginPage.goto();
@@ -105,15 +137,15 @@ test.describe('End-to-End User Journey', () => {
     // Add user
     await dashboardPage.addUserButton.click();
     await userModal.fillForm({
-      name: TEST_USERS.newUser.name,
-      email: TEST_USERS.newUser.email,
-      role: TEST_USERS.newUser.role,
+      name: newUser.name,
+      email: newUser.email,
+      role: newUser.role,
     });
     await userModal.save();
     
     // Verify
     await expect(userModal.modalBackdrop).not.toBeVisible();
-    await expect(page.getByText(TEST_USERS.newUser.name)).toBeVisible();
+    await expect(page.getByText(newUser.name)).toBeVisible();
   });
 });
 
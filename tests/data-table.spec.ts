@@ -0,0 +1,68 @@
+/**
+ * DataTable Tests
+ *
+ * Reads a users table set with setContent, with header cells marked up the
+ * way both apps render them (a plain <th>, no `scope`), and checks that
+ * columns resolve by header, key and test id wherever they sit.
+ */
+
+import { test, expect, Page } from '@playwright/test';
+import { DataTable } from './helpers/data-table';
+
+interface Row {
+  id: number;
+  name: string;
+  email: string;
+  department?: string;
+}
+
+function usersTable(headers: string[], rows: string[][]): string {
+  const header = headers.map(text => `<th data-testid="header-${text.toLowerCase()}">${text}</th>`).join('');
+  const body = rows.map(([id, ...cells]) => `<tr data-testid="user-row-${id}">${cells.map(cell => `<td>${cell}</td>`).join('')}</tr>`);
+  return `<table data-testid="user-table"><thead><tr>${header}</tr></thead><tbody>${body.join('')}</tbody></table>`;
+}
+
+async function tableOn(page: Page, html: string): Promise<DataTable<Row>> {
+  await page.setContent(html);
+  return new DataTable<Row>(page.getByTestId('user-table'), {
+    rowTestIdPrefix: 'user-row-',
+    toRecord: (rowKey, cells) => ({
+      id: Number(rowKey),
+      name: cells.name,
+      email: cells.email,
+      ...(cells.department !== undefined && { department: cells.department }),
+    }),
+  });
+}
+
+test.describe('DataTable', () => {
+  test('should read headers and rows from <th> cells without scope', async ({ page }) => {
+    const table = await tableOn(page, usersTable(['Name', 'Email'], [
+      ['1', 'John Doe', 'john.doe@example.com'],
+      ['2', 'Jane Smith', 'jane.smith@example.com'],
+    ]));
+
+    expect(await table.columnHeaders()).toEqual(['Name', 'Email']);
+    expect(await table.rowsAsObjects()).toEqual([
+      { id: 1, name: 'John Doe', email: 'john.doe@example.com' },
+      { id: 2, name: 'Jane Smith', email: 'jane.smith@example.com' },
+    ]);
+    await expect(await table.getCell(2, 'email')).toHaveText('jane.smith@example.com');
+  });
+
+  test('should follow a column added before the ones it reads', async ({ page }) => {
+    const table = await tableOn(page, usersTable(['Department', 'Name', 'Email'], [
+      ['1', 'Engineering', 'John Doe', 'john.doe@example.com'],
+      ['2', 'Sales', 'Jane Smith', 'jane.smith@example.com'],
+    ]));
+
+    await expect(await table.getCell(1, 'header-email')).toHaveText('john.doe@example.com');
+    expect(await table.filterRows({ department: 'Sales' })).toEqual([
+      { id: 2, name: 'Jane Smith', email: 'jane.smith@example.com', department: 'Sales' },
+    ]);
+    await expect((await table.findRow({ name: 'John Doe' }))!).toHaveAttribute('data-testid', 'user-row-1');
+    expect(await table.isSortedBy('Name')).toBe(false);
+    expect(await table.isSortedBy('Name', 'desc')).toBe(true);
+    await expect(table.column('Status')).rejects.toThrow('No column "Status" in table (columns: Department, Name, Email)');
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Flow Validation Tests
+ *
+ * Flow files are parsed against the page objects and ROUTES, so a typo in
+ * a member or route name fails here instead of halfway through a journey.
+ */
+
+import path from 'path';
+import { test, expect } from '@playwright/test';
+import { flowFiles, parseFlowFile, scanPageObjects } from './helpers/flows';
+
+const members = scanPageObjects();
+
+function parse(text: string) {
+  return parseFlowFile('example.flow.yaml', members, text);
+}
+
+function flowWith(...steps: string[]) {
+  return ['name: Example', 'flows:', '  - name: example', '    steps:', ...steps.map(step => `      - ${step}`)].join('\n');
+}
+
+test.describe('Flow Validation', () => {
+  test('should read locator fields and methods from the page objects', () => {
+    expect([...members.DashboardPage.locators]).toEqual(expect.arrayContaining(['addUserButton', 'usersError']));
+    expect(members.DashboardPage.locators.has('table')).toBe(false);
+    expect(members.UserModal.methods.get('fillForm')).toEqual({ required: 1, total: 1 });
+    expect(members.DashboardPage.methods.get('logout')).toEqual({ required: 0, total: 0 });
+  });
+
+  test('should parse the bundled flows into titled steps with their lines', () => {
+    const [file] = flowFiles(path.join(__dirname, 'flows')).map(flowFile => parseFlowFile(flowFile, members));
+    const [journey] = file.flows;
+
+    expect(journey.session).toBe('anonymous');
+    expect(journey.steps.map(step => step.title)).toEqual(['login', 'add a new user', 'navigate to profile', 'return to dashboard', 'logout']);
+    expect(journey.steps[0].steps![1]).toMatchObject({
+      title: 'fill LoginPage (emailInput, passwordInput)',
+      action: { kind: 'fill', pageObject: 'LoginPage', values: { emailInput: '${login.email}' } },
+    });
+    expect(journey.steps[0].steps![3].action).toEqual({ kind: 'expect', assertion: { kind: 'url', pattern: /dashboard/ } });
+    expect(journey.steps[1].line).toBeGreaterThan(journey.steps[0].line);
+  });
+
+  test('should parse each action and expectation form', () => {
+    const [flow] = parse(flowWith(
+      'goto: dashboard',
+      'call: { DashboardPage.clickEditUser: [2] }',
+      'expect: hidden UserModal.modalBackdrop',
+      'expect: text ProfilePage.profileName ${user.name} Jr',
+      'expect: url profile',
+    )).flows;
+
+    expect(flow.steps.map(step => step.action)).toEqual([
+      { kind: 'goto', route: 'dashboard' },
+      { kind: 'call', target: { pageObject: 'DashboardPage', member: 'clickEditUser' }, args: [2] },
+      { kind: 'expect', assertion: { kind: 'hidden', target: { pageObject: 'UserModal', member: 'modalBackdrop' } } },
+      { kind: 'expect', assertion: { kind: 'text', target: { pageObject: 'ProfilePage', member: 'profileName' }, text: '${user.name} Jr' } },
+      { kind: 'expect', assertion: { kind: 'url', pattern: /\/profile(?:[?#]|$)/ } },
+    ]);
+    expect(flow.steps[1].title).toBe('call DashboardPage.clickEditUser(2)');
+  });
+
+  test('should name the file, flow and step of invalid steps', () => {
+    expect(() => parse(flowWith('click: DashboardPage.addButton')))
+      .toThrow(/^example\.flow\.yaml: flow "example", step 1: DashboardPage has no locator "addButton"\. Known: .*addUserButton/);
+    expect(() => parse(flowWith('goto: home'))).toThrow('unknown route "home". Known: login, dashboard, profile, dev');
+    expect(() => parse(flowWith('fill: { UserModal: { nameInput: "${user.nickname}" } }'))).toThrow('unknown placeholder ${user.nickname}');
+    expect(() => parse(flowWith('call: DashboardPage.clickEditUser'))).toThrow('DashboardPage.clickEditUser takes 1 argument(s), got 0');
+    expect(() => parse(flowWith('{ name: two actions, click: LoginPage.submitButton, goto: login }')))
+      .toThrow('step 1: expected exactly one of goto, click, fill, call, expect (or "steps"), got click, goto');
+    expect(() => parse(flowWith('expect: enabled LoginPage.submitButton'))).toThrow('unknown expectation');
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Declarative Flows
+ *
+ * One test per flow in tests/flows/ (see helpers/flows.ts for the format),
+ * grouped by flow file.
+ */
+
+import path from 'path';
+import { test } from './helpers/fixtures';
+import { FlowRunner, loadFlowFiles } from './helpers/flows';
+
+for (const flowFile of loadFlowFiles(path.join(__dirname, 'flows'))) {
+  test.describe(flowFile.name, () => {
+    for (const flow of flowFile.flows) {
+      if (flow.session === 'authed') {
+        test.describe(() => {
+          test.use({ loggedIn: true });
+
+          test(flow.name, async ({ authedPage, testData }) => {
+            await new FlowRunner(authedPage, testData, flowFile.file).run(flow.steps);
+          });
+        });
+      } else {
+        test(flow.name, async ({ page, testData }) => {
+          await new FlowRunner(page, testData, flowFile.file).run(flow.steps);
+        });
+      }
+    }
+  });
+}
@@ -0,0 +1,136 @@
+/**
+ * Fragility Lint Tests
+ *
+ * Runs the analyzer on a small spec and page object written to the test's
+ * output directory, then once on the suite itself for the page object
+ * indirection the linter exists for.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { test, expect } from '@playwright/test';
+import { FragilityAnalyzer, findSpecFiles } from '../healing/fragility';
+
+const ROOT_DIR = path.resolve(__dirname, '..');
+
+const PAGE_OBJECT = `
+declare const by: { css(selector: string): unknown; testId(id: string): unknown };
+
+export class TablePage {
+  readonly page: any;
+  readonly table: unknown[];
+
+  constructor(page: any) {
+    this.page = page;
+    this.table = [by.css('table > tbody'), by.testId('users'), by.css('main .users')];
+  }
+
+  /** @fragile structural-selector every header in display order */
+  async headers(): Promise<string[]> {
+    return [];
+  }
+
+  async editUser(userId: number) {
+    await this.page.getByTestId(\`edit-user-\${userId}\`).click();
+  }
+}
+`;
+
+const SPEC = `
+import { TablePage } from './table-page';
+
+declare const test: any;
+declare const expect: any;
+declare const EXPECTED_UI: { loginButton: string };
+declare const UI_TEXT: { initial: { modalTitle: string } };
+
+test.describe('Table', () => {
+  test.describe(() => {
+    test('reads the page', async ({ page }: { page: any }) => {
+      await page.locator('body').click();
+      await page.locator('html > body').click();
+      await page.locator('main > h1').click();
+      await page.getByText(EXPECTED_UI.loginButton).click();
+      await page.getByRole('dialog').filter({ hasText: UI_TEXT.initial.modalTitle }).click();
+      await page.getByRole('button', { name: EXPECTED_UI.loginButton }).click();
+
+      const tablePage = new TablePage(page);
+      expect(tablePage.table).toBeTruthy();
+      await tablePage.headers();
+      await tablePage.headers();
+      await tablePage.editUser(4);
+    });
+  });
+});
+`;
+
+function analyze(dir: string, files: Record<string, string>) {
+  fs.mkdirSync(dir, { recursive: true });
+  for (const [name, source] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, name), source);
+  }
+  const program = ts.createProgram(Object.keys(files).map(name => path.join(dir, name)), { strict: true, noEmit: true });
+  return new FragilityAnalyzer(program, dir).analyze(findSpecFiles(program, dir));
+}
+
+test.describe('Fragility Lint', () => {
+  test('should flag structural selectors and primary by.css strategies, except html and body', () => {
+    const report = analyze(test.info().outputPath('suite'), { 'table-page.ts': PAGE_OBJECT, 'table.spec.ts': SPEC });
+    const [result] = report.tests;
+
+    expect(result.title).toBe('Table › reads the page');
+    expect(result.findings.filter(finding => finding.rule === 'structural-selector').map(finding => finding.snippet)).toEqual([
+      "page.locator('main > h1')",
+      "by.css('table > tbody')",
+      'every header in display order',
+    ]);
+    expect(result.findings.find(finding => finding.snippet.startsWith('by.css'))?.via).toEqual(['TablePage.table']);
+  });
+
+  test('should flag text matched by UI text constants, not only by literals', () => {
+    const report = analyze(test.info().outputPath('suite'), { 'table-page.ts': PAGE_OBJECT, 'table.spec.ts': SPEC });
+
+    expect(report.tests[0].findings.filter(finding => finding.rule === 'text-literal').map(finding => finding.snippet)).toEqual([
+      'page.getByText(EXPECTED_UI.loginButton)',
+      "page.getByRole('dialog').filter({ hasText: UI_TEXT.initial.modalTitle })",
+    ]);
+  });
+
+  test('should count a helper used twice once, and score hard-coded ids', () => {
+    const report = analyze(test.info().outputPath('suite'), { 'table-page.ts': PAGE_OBJECT, 'table.spec.ts': SPEC });
+    const [result] = report.tests;
+
+    expect(result.findings.filter(finding => finding.via?.[0] === 'TablePage.headers')).toHaveLength(1);
+    expect(result.findings).toContainEqual(expect.objectContaining({ rule: 'hard-coded-id', snippet: 'tablePage.editUser(4)' }));
+    expect(result.score).toBe(17);
+    expect(report.helpers.map(helper => helper.name)).toEqual(['TablePage.table', 'TablePage.headers']);
+  });
+
+  test('should reject @fragile tags with an unknown rule', () => {
+    const pageObject = PAGE_OBJECT.replace('@fragile structural-selector', '@fragile structure');
+
+    expect(() => analyze(test.info().outputPath('suite'), { 'table-page.ts': pageObject, 'table.spec.ts': SPEC }))
+      .toThrow(/table-page\.ts:\d+: unknown rule "structure" in @fragile tag/);
+  });
+
+  test('should score the suite through its page objects, FRAGILE tests above STABLE ones', () => {
+    const { config } = ts.readConfigFile(path.join(ROOT_DIR, 'tsconfig.json'), ts.sys.readFile);
+    const parsed = ts.parseJsonConfigFileContent(config, ts.sys, ROOT_DIR);
+    const program = ts.createProgram(parsed.fileNames, { ...parsed.options, noEmit: true });
+    const report = new FragilityAnalyzer(program, ROOT_DIR).analyze(
+      ['core-functionality.spec.ts', 'healing-scenarios.spec.ts'].map(file => path.join(ROOT_DIR, 'tests', file))
+    );
+    const scored = (title: string) => report.tests.find(result => result.title.startsWith(title));
+
+    expect(scored('Dashboard › should have correct table structure')?.findings).toContainEqual(expect.objectContaining({
+      rule: 'structural-selector',
+      via: ['DashboardPage.getTableHeaders'],
+    }));
+    // Its page object fields only have by.css fallbacks.
+    expect(scored('Login › @smoke should login successfully with stable selectors')?.score).toBe(0);
+    expect(scored('Healing Scenario 1: Login Button Text Change › using text content selector')?.findings)
+      .toEqual([expect.objectContaining({ rule: 'text-literal', snippet: 'page.getByText(EXPECTED_UI.loginButton)' })]);
+    expect(scored('Healing Scenario 3: Modal Title Change › checking exact text')?.score).toBe(3);
+  });
+});
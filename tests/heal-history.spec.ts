@@ -0,0 +1,95 @@
+/**
+ * Heal History Tests
+ *
+ * Trend reports built from hand-made history records: flaky and broken
+ * tests, scenario-driven failures, heal targets and time to heal.
+ */
+
+import fs from 'fs';
+import { test, expect } from '@playwright/test';
+import { appendHistory, buildHistoryReport, formatDuration, readHistory, targetEvents } from '../healing/history';
+import { historyRecord as record } from './helpers/heal-test-data';
+
+const HOUR = 3_600_000;
+
+test.describe('Heal History', () => {
+  test('should read heal targets from locator and step heal annotations', () => {
+    expect(targetEvents([
+      { type: 'healing-locator', description: "DashboardPage.addUserButton: getByTestId('add-user-button') missed, resolved with getByRole('button')" },
+      { type: 'healing-miss', description: "UserModal.nameInput: getByTestId('name-input') | getByLabel(/name/i)" },
+      { type: 'healed', description: 'check the table headers: UI_TEXT.initial.tableHeaders: ["Name"] -> ["Full Name"] (offline, confidence 0.90)' },
+      { type: 'healing-proposal', description: 'LoginPage.submitButton: no strategy matched, closest baseline element is getByText(\'Log In\')' },
+      { type: 'test-data-seed', description: '42' },
+    ])).toEqual([
+      { target: 'DashboardPage.addUserButton', event: 'healed' },
+      { target: 'UserModal.nameInput', event: 'missed' },
+      { target: 'UI_TEXT.initial.tableHeaders', event: 'healed' },
+      { target: 'LoginPage.submitButton', event: 'proposed' },
+    ]);
+  });
+
+  test('should tell flaky tests from consistently broken ones', () => {
+    const report = buildHistoryReport([
+      record('a.spec.ts › flips', 'passed'),
+      record('a.spec.ts › flips', 'failed'),
+      record('a.spec.ts › flips', 'passed'),
+      record('a.spec.ts › retried', 'flaky'),
+      record('a.spec.ts › broken', 'passed'),
+      record('a.spec.ts › broken', 'failed'),
+      record('a.spec.ts › broken', 'failed', { category: 'text-mismatch' }),
+      record('a.spec.ts › once', 'failed'),
+    ]);
+
+    const trends = Object.fromEntries(report.tests.map(test => [test.test, test.trend]));
+    expect(trends).toEqual({
+      'a.spec.ts › flips': 'flaky',
+      'a.spec.ts › retried': 'flaky',
+      'a.spec.ts › broken': 'broken',
+      'a.spec.ts › once': 'stable',
+    });
+    expect(report.tests[0]).toMatchObject({ test: 'a.spec.ts › broken', failures: 2, categories: ['text-mismatch', 'locator-not-found'] });
+    expect(report.runs).toBe(8);
+  });
+
+  test('should judge trends per scenario set', () => {
+    const report = buildHistoryReport([
+      record('a.spec.ts › login', 'passed'),
+      record('a.spec.ts › login', 'failed', { scenarios: ['login-button-text'] }),
+      record('a.spec.ts › login', 'passed'),
+      record('a.spec.ts › login', 'failed', { scenarios: ['login-button-text'] }),
+      record('a.spec.ts › login', 'passed'),
+    ]);
+
+    expect(report.tests.map(({ scenarios, trend, runs }) => ({ scenarios, trend, runs }))).toEqual([
+      { scenarios: ['login-button-text'], trend: 'broken', runs: 2 },
+      { scenarios: [], trend: 'stable', runs: 3 },
+    ]);
+  });
+
+  test('should rank locators by heals and measure the time to heal', () => {
+    const healed = [{ target: 'DashboardPage.addUserButton', event: 'healed' as const }];
+    const report = buildHistoryReport([
+      record('a.spec.ts › add', 'failed', { targets: [{ target: 'UserModal.nameInput', event: 'missed' }] }),
+      record('a.spec.ts › add', 'failed'),
+      record('a.spec.ts › add', 'passed', { targets: healed }),
+      record('a.spec.ts › edit', 'passed', { targets: healed }),
+    ]);
+
+    expect(report.targets.map(({ target, healed, missed, tests }) => ({ target, healed, missed, tests }))).toEqual([
+      { target: 'DashboardPage.addUserButton', healed: 2, missed: 0, tests: ['[chromium] a.spec.ts › add', '[chromium] a.spec.ts › edit'] },
+      { target: 'UserModal.nameInput', healed: 0, missed: 1, tests: ['[chromium] a.spec.ts › add'] },
+    ]);
+    expect(report.meanTimeToHealMs).toBe(2 * HOUR);
+    expect(formatDuration(report.meanTimeToHealMs!)).toBe('2h');
+  });
+
+  test('should append to and read back the history file', () => {
+    const file = test.info().outputPath('runs.jsonl');
+    appendHistory(file, [record('a.spec.ts › one', 'passed')]);
+    fs.appendFileSync(file, '{"runId": "cut sho');
+    fs.appendFileSync(file, '\n');
+    appendHistory(file, [record('a.spec.ts › two', 'failed')]);
+
+    expect(readHistory(file).map(entry => entry.test)).toEqual(['a.spec.ts › one', 'a.spec.ts › two']);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Heal Report Tests
+ *
+ * Failures are attributed to scenarios through the repo's own
+ * expected-failure manifest, then summed up by scenario and project; the
+ * rendered pages must show what the data says.
+ */
+
+import path from 'path';
+import { test, expect } from '@playwright/test';
+import {
+  attributeScenarios, buildHealReport, HealReportTest, renderDashboard, renderTestPage, testPageName, UNEXPLAINED,
+} from '../healing/heal-report';
+import { DEFAULT_MANIFEST_FILE, loadManifest } from '../healing/manifest';
+import { reportTest, TEXT_PROPOSAL } from './helpers/heal-test-data';
+
+const manifest = loadManifest(path.resolve(__dirname, '..', DEFAULT_MANIFEST_FILE));
+
+const LOGIN_BUTTON_KEY = 'core-functionality.spec.ts › Login › should have correct button text - WILL BREAK with Change #1';
+const LOGOUT_KEY = 'auth.spec.ts › Auth Guard › logging out protects the dashboard again';
+
+test.describe('Heal Report', () => {
+  test('should attribute failures to the active scenarios that list them', () => {
+    expect(attributeScenarios(manifest, ['login-button-text', 'logout-in-menu'], LOGIN_BUTTON_KEY, 'chromium'))
+      .toEqual(['login-button-text']);
+    expect(attributeScenarios(manifest, ['logout-in-menu'], LOGIN_BUTTON_KEY, 'chromium')).toEqual([UNEXPLAINED]);
+    expect(attributeScenarios(undefined, ['login-button-text'], LOGIN_BUTTON_KEY, 'chromium')).toEqual([UNEXPLAINED]);
+  });
+
+  test('should sum failures up by scenario and by project', () => {
+    const activeScenarios = ['login-button-text' as const, 'modal-title' as const];
+    const tests = [
+      reportTest(LOGIN_BUTTON_KEY, 'chromium', { scenarios: ['login-button-text'], proposals: [TEXT_PROPOSAL] }),
+      reportTest(LOGIN_BUTTON_KEY, 'firefox', { scenarios: ['login-button-text'], proposals: [TEXT_PROPOSAL] }),
+      reportTest(LOGOUT_KEY, 'chromium', { scenarios: [UNEXPLAINED], category: 'app-bug', needsHealing: false }),
+      reportTest(LOGIN_BUTTON_KEY, 'webkit', { scenarios: ['login-button-text'], status: 'healed', heals: ['LoginPage.loginButton'] }),
+    ];
+
+    const report = buildHealReport(tests, { activeScenarios, testsPerProject: { chromium: 20, firefox: 20, webkit: 20 } });
+
+    expect(report.byScenario.map(summary => summary.scenario)).toEqual(['login-button-text', 'modal-title', UNEXPLAINED]);
+    expect(report.byScenario[0]).toMatchObject({ failed: 2, healed: 1, proposals: 2, byProject: { chromium: 1, firefox: 1 } });
+    expect(report.byScenario[0].label).toMatch(/^Change #1: /);
+    expect(report.byScenario[1]).toMatchObject({ failed: 0, healed: 0 });
+    expect(report.byProject).toEqual([
+      { project: 'chromium', tests: 20, failed: 2, needsHealing: 1, appBugs: 1, healed: 0, proposals: 1 },
+      { project: 'firefox', tests: 20, failed: 1, needsHealing: 1, appBugs: 0, healed: 0, proposals: 1 },
+      { project: 'webkit', tests: 20, failed: 0, needsHealing: 0, appBugs: 0, healed: 1, proposals: 0 },
+    ]);
+
+    const empty = buildHealReport([], { activeScenarios, testsPerProject: { chromium: 20 } });
+    expect(empty.byScenario.map(summary => summary.scenario)).not.toContain(UNEXPLAINED);
+  });
+
+  test('should render a standalone test page with proposals, screenshot and trace', () => {
+    const item = reportTest(LOGIN_BUTTON_KEY, 'chromium', {
+      scenarios: ['login-button-text'],
+      proposals: [{ ...TEXT_PROPOSAL, rationale: 'Reads <b>Log In Now</b>' }],
+      highlighted: "getByRole('button', { name: 'Log In Now' })",
+      trace: 'chromium/login/trace.zip',
+    });
+
+    const html = renderTestPage(item, { highlight: 'data:image/png;base64,iVBORw0KGgo=' });
+
+    expect(item.page).toMatch(/^tests\/chromium-core-functionality-spec-ts-login-[a-z0-9-]+-[0-9a-f]{8}\.html$/);
+    expect(html).toContain('Classification: <strong>text-mismatch</strong>');
+    expect(html).toContain('&quot;Log In Now&quot;');
+    expect(html).toContain('Reads &lt;b&gt;Log In Now&lt;/b&gt;');
+    expect(html).toContain('width:92%');
+    expect(html).toContain('src="data:image/png;base64,iVBORw0KGgo="');
+    expect(html).toContain('href="../chromium/login/trace.zip"');
+    expect(html).toContain('Change #1:');
+  });
+
+  test('should link every test from the dashboard', () => {
+    const tests = [
+      reportTest(LOGIN_BUTTON_KEY, 'chromium', { scenarios: ['login-button-text'], proposals: [TEXT_PROPOSAL] }),
+      reportTest(LOGOUT_KEY, 'chromium', { scenarios: [UNEXPLAINED], proposals: [] }),
+    ];
+    const report = buildHealReport(tests, { activeScenarios: ['login-button-text'], testsPerProject: { chromium: 20 } });
+
+    const html = renderDashboard(report);
+
+    expect(testPageName(LOGIN_BUTTON_KEY, 'chromium')).not.toBe(testPageName(LOGIN_BUTTON_KEY, 'firefox'));
+    for (const item of tests) {
+      expect(html).toContain(`href="${item.page}"`);
+    }
+    expect(html).toContain('Not explained by an active scenario');
+    expect(html).toContain('<th>chromium</th>');
+    expect(html).toContain('&quot;Log In Now&quot;</code> (92%)');
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Heal Review Tests
+ *
+ * Groups proposals into review items, applies a review policy, and plans
+ * the accepted ones against the repo's own sources.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { test, expect } from '@playwright/test';
+import { patchedFiles, planReviewedHeals, renderDiff } from '../healing/patcher';
+import { applyPolicy, decide, loadPolicy, RejectionStore, ReviewPolicy, reviewItems } from '../healing/review';
+import { HealProposal, ProposalEntry } from '../healing/strategy';
+import { failureContext, LOCATOR_PROPOSAL, TEXT_PROPOSAL } from './helpers/heal-test-data';
+
+const ROOT_DIR = path.resolve(__dirname, '..');
+
+function entry(title: string, project: string, proposals: HealProposal[]): ProposalEntry {
+  const context = failureContext({ test: { title, file: 'tests/core-functionality.spec.ts', line: 10, project } });
+  return { context, proposals, errors: {}, evidence: { screenshot: `test-results/${project}/test-failed-1.png` } };
+}
+
+test.describe('Heal Review', () => {
+  test('should group identical proposals across tests and skip rejected ones', () => {
+    const entries = [
+      entry('Login › one', 'chromium', [TEXT_PROPOSAL, LOCATOR_PROPOSAL]),
+      entry('Login › one', 'firefox', [{ ...TEXT_PROPOSAL, strategy: 'http', confidence: 0.97 }]),
+    ];
+
+    const [text, locator] = reviewItems(entries);
+    expect(text.proposal).toMatchObject({ strategy: 'http', confidence: 0.97 });
+    expect(text.tests.map(item => item.project)).toEqual(['chromium', 'firefox']);
+    expect(text.evidence.screenshot).toBe('test-results/chromium/test-failed-1.png');
+    expect(locator.tests).toHaveLength(1);
+
+    const rejections = new RejectionStore(test.info().outputPath('rejected.json'));
+    rejections.add([LOCATOR_PROPOSAL]);
+    expect(new RejectionStore(rejections.file).has(LOCATOR_PROPOSAL)).toBe(true);
+    expect(reviewItems(entries, rejections).map(item => item.proposal.kind)).toEqual(['text']);
+  });
+
+  test('should decide with the first matching policy rule', () => {
+    const policy: ReviewPolicy = {
+      rules: [
+        { kind: 'text', target: 'UI_TEXT.*', minConfidence: 0.9, decision: 'accept' },
+        { kind: 'locator', decision: 'pending' },
+      ],
+    };
+
+    expect(applyPolicy(policy, TEXT_PROPOSAL)).toEqual({ decision: 'accept', rule: 1 });
+    expect(applyPolicy(policy, { ...TEXT_PROPOSAL, confidence: 0.8 })).toBeUndefined();
+    expect(applyPolicy(policy, { ...TEXT_PROPOSAL, target: "getByText('Sign In')" })).toBeUndefined();
+    expect(applyPolicy(policy, LOCATOR_PROPOSAL)).toEqual({ decision: 'pending', rule: 2 });
+  });
+
+  test('should never accept locator proposals by policy', () => {
+    expect(applyPolicy({ rules: [{ minConfidence: 0.9, decision: 'accept' }] }, LOCATOR_PROPOSAL))
+      .toEqual({ decision: 'pending', rule: 1 });
+    expect(applyPolicy({ rules: [{ kind: 'locator', decision: 'reject' }] }, LOCATOR_PROPOSAL))
+      .toEqual({ decision: 'reject', rule: 1 });
+
+    const file = test.info().outputPath('policy.yaml');
+    fs.writeFileSync(file, 'rules:\n  - minConfidence: 0.9\n    decision: accept\n');
+    expect(() => loadPolicy(file)).toThrow(/rule 1 accepts locator proposals; accept rules need "kind: text"/);
+    expect(loadPolicy(path.join(ROOT_DIR, 'healing', 'review-policy.yaml')).rules).toHaveLength(2);
+  });
+
+  test('should patch accepted text and locator proposals and ignore rejected ones', () => {
+    const [locator, text] = reviewItems([entry('Login › one', 'chromium', [TEXT_PROPOSAL, LOCATOR_PROPOSAL])]);
+    const plan = planReviewedHeals([
+      decide(text, 'accepted', 'policy rule 1', '"Log In"'),
+      decide(locator, 'accepted', 'reviewer'),
+      decide({ ...text, id: 'other', proposal: { ...TEXT_PROPOSAL, target: 'UI_TEXT.initial.modalTitle' } }, 'rejected', 'reviewer'),
+    ], { rootDir: ROOT_DIR });
+
+    expect(plan.skipped).toEqual([]);
+    expect(plan.patches.map(patch => patch.summary)).toEqual([
+      "Update UI_TEXT.initial.loginButton: 'Sign In' -> 'Log In'",
+      "Try getByTestId('create-user-button') first for DashboardPage.addUserButton",
+    ]);
+    expect(plan.patches[0].rationale).toMatch(/Accepted by policy rule 1, edited\.$/);
+
+    const diff = renderDiff(patchedFiles(plan, ROOT_DIR));
+    expect(diff).toContain("-    loginButton: 'Sign In',\n+    loginButton: 'Log In',");
+    expect(diff).toContain("+      by.testId('create-user-button'),\n       testId('add-user-button'),");
+  });
+
+  test('should leave proposals it cannot patch for manual review', () => {
+    const [item] = reviewItems([entry('Login › one', 'chromium', [
+      { ...LOCATOR_PROPOSAL, target: "getByText('Sign In')", after: "getByTestId('login-submit')" },
+    ])]);
+    const plan = planReviewedHeals([decide(item, 'accepted', 'reviewer')], { rootDir: ROOT_DIR });
+
+    expect(plan.patches).toEqual([]);
+    expect(plan.skipped[0].reason).toMatch(/^No automatic patch for locator proposals on getByText/);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Healing Baseline Capture
+ *
+ * Visits every page and fingerprints every POM field into the baseline
+ * store, so elements that no other test touches still get a baseline, and
+ * stores a snapshot of each route for the DOM diffs attached to failures.
+ * Only runs with HEALING_MODE=baseline (see `npm run test:baseline`).
+ */
+
+import { Page } from '@playwright/test';
+import { test } from './helpers/fixtures';
+import { LoginPage, DashboardPage, UserModal, ProfilePage, DevToolsPage } from './helpers/page-objects';
+import { HealingLocator, isHealingLocator } from './helpers/healing-locator';
+import { HEALING_CONFIG } from './helpers/healing-config';
+import { RouteName, SnapshotStore, captureRouteSnapshot } from './helpers/dom-snapshot';
+
+const snapshots = new SnapshotStore(HEALING_CONFIG.snapshotDir);
+
+function healingFields(pageObject: object): HealingLocator[] {
+  return Object.values(pageObject).filter(
+    (value): value is HealingLocator => typeof value === 'object' && value !== null && isHealingLocator(value)
+  );
+}
+
+async function captureAll(pageObject: object) {
+  for (const field of healingFields(pageObject)) {
+    await field.healing.primary.waitFor({ state: 'attached' });
+    await field.healing.captureBaseline();
+  }
+}
+
+async function captureSnapshot(page: Page, route: RouteName) {
+  snapshots.save(test.info().project.name, await captureRouteSnapshot(page, route));
+}
+
+test.describe('Healing Baseline Capture', () => {
+  test.skip(HEALING_CONFIG.mode !== 'baseline', 'Run with HEALING_MODE=baseline to capture fingerprints');
+
+  test('capture login page', async ({ page }) => {
+    const loginPage = new LoginPage(page);
+    await loginPage.goto();
+    await captureAll(loginPage);
+    await captureSnapshot(page, 'login');
+  });
+
+  test.describe(() => {
+    test.use({ loggedIn: true });
+
+    test('capture dashboard page and user modal', async ({ authedPage }) => {
+      const dashboardPage = new DashboardPage(authedPage);
+      const userModal = new UserModal(authedPage);
+      await dashboardPage.goto();
+      await captureAll(dashboardPage);
+      await captureSnapshot(authedPage, 'dashboard');
+
+      await dashboardPage.addUserButton.click();
+      await captureAll(userModal);
+    });
+
+    test('capture profile page', async ({ authedPage }) => {
+      const profilePage = new ProfilePage(authedPage);
+      await profilePage.goto();
+      await captureAll(profilePage);
+      await captureSnapshot(authedPage, 'profile');
+    });
+  });
+
+  test('capture dev tools page', async ({ page }) => {
+    const devToolsPage = new DevToolsPage(page);
+    await devToolsPage.goto();
+    await captureAll(devToolsPage);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Healing Locator Tests
+ *
+ * Declares HealingLocators against small pages set with setContent and checks
+ * which strategy wins: the primary when it matches, else the first fallback
+ * that matches exactly one element. Absence checks stay on the primary.
+ */
+
+import { test, expect, Page } from '@playwright/test';
+import { by, healingLocator } from './helpers/healing-locator';
+
+const PRIMARY_TIMEOUT = 100;
+
+/** A Save button whose test id drifted, next to two links that also read "Save". */
+const DRIFTED_PAGE = `
+  <button data-testid="save-user">Save</button>
+  <a href="#">Save</a>
+  <a href="#">Save</a>
+`;
+
+function saveButton(page: Page) {
+  return healingLocator(page, 'UserModal.saveButton', [
+    by.testId('save-button'),
+    by.text('Save'),
+    by.role('button', { name: 'Save' }),
+    by.css('button'),
+  ], { primaryTimeout: PRIMARY_TIMEOUT });
+}
+
+test.describe('Healing Locator', () => {
+  test('should keep the primary strategy while it matches', async ({ page }) => {
+    await page.setContent('<button data-testid="save-button">Save</button><button>Cancel</button>');
+    const button = saveButton(page);
+
+    await button.click();
+
+    expect(button.healing.lastResolution).toMatchObject({ rank: 0, healed: false });
+    expect(test.info().annotations.filter(annotation => annotation.type === 'healing-locator')).toEqual([]);
+  });
+
+  test('should skip ambiguous fallbacks and take the first unique one', async ({ page }) => {
+    await page.setContent(DRIFTED_PAGE);
+    const button = saveButton(page);
+
+    await button.click();
+
+    // getByText('Save') matches three elements, so the role strategy wins over the CSS one.
+    expect(button.healing.lastResolution).toMatchObject({ rank: 2, healed: true });
+    expect(button.healing.lastResolution?.strategy.description).toBe("getByRole('button', { name: 'Save' })");
+    expect(test.info().annotations).toContainEqual({
+      type: 'healing-locator',
+      description: "UserModal.saveButton: getByTestId('save-button') missed, resolved with getByRole('button', { name: 'Save' })",
+    });
+  });
+
+  test('should heal presence assertions and waitFor', async ({ page }) => {
+    await page.setContent(DRIFTED_PAGE);
+    const button = saveButton(page);
+
+    await expect(button).toBeVisible();
+    await expect(button).not.toBeHidden();
+    await button.waitFor();
+
+    expect(button.healing.lastResolution).toMatchObject({ rank: 2, healed: true });
+  });
+
+  test('should check absence on the primary, not on a fallback', async ({ page }) => {
+    await page.setContent(DRIFTED_PAGE);
+    const button = saveButton(page);
+
+    await expect(button).toBeHidden();
+    await expect(button).not.toBeVisible();
+    await expect(button).toHaveCount(0);
+    await expect(button).not.toBeAttached();
+    await button.waitFor({ state: 'detached', timeout: PRIMARY_TIMEOUT });
+
+    expect(button.healing.lastResolution).toBeUndefined();
+  });
+});
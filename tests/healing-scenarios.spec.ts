@@ -6,16 +6,17 @@
  * Apply UI changes from /dev: some fail (need healing)
  */
 
-import { test, expect } from '@playwright/test';
-import { LoginPage, DashboardPage, UserModal } from './helpers/page-objects';
-import { TEST_USERS, UI_TEXT } from './helpers/test-data';
+import { test, expect } from './helpers/fixtures';
+import { LoginPage, DashboardPage, UserModal, DevToolsPage } from './helpers/page-objects';
+import { TEST_USERS } from './helpers/test-data';
+import { EXPECTED_UI, UiScenarioId } from './helpers/ui-scenarios';
 
 test.describe('Healing Scenario 1: Login Button Text Change', () => {
   test('using text content selector - FRAGILE', async ({ page }) => {
     await page.goto('/login');
     
     // This will BREAK when Change #1 is applied (text changes)
-    const button = page.getByText(UI_TEXT.initial.loginButton);
+    const button = page.getByText(EXPECTED_UI.loginButton);
     await expect(button).toBeVisible();
   });
 
@@ -29,7 +30,9 @@ test.describe('Healing Scenario 1: Login Button Text Change', () => {
 });
 
 test.describe('Healing Scenario 2: Table Column Addition', () => {
-  test('checking column count - FRAGILE', async ({ page }) => {
+  test.use({ loggedIn: true });
+
+  test('checking column count - FRAGILE', async ({ authedPage: page }) => {
     await page.goto('/dashboard');
     
     // This will BREAK when Change #2 is applied (adds Department column)
@@ -37,7 +40,7 @@ test.describe('Healing Scenario 2: Table Column Addition', () => {
     await expect(headers).toHaveCount(4); // Name, Email, Role, Actions
   });
 
-  test('checking column by index - FRAGILE', async ({ page }) => {
+  test('checking column by index - FRAGILE', async ({ authedPage: page }) => {
     await page.goto('/dashboard');
     
     // This will BREAK when Change #2 is applied
@@ -45,7 +48,7 @@ test.describe('Healing Scenario 2: Table Column Addition', () => {
     await expect(roleHeader).toContainText('Role');
   });
 
-  test('checking specific column by testid - STABLE', async ({ page }) => {
+  test('checking specific column by testid - STABLE', async ({ authedPage: page }) => {
     await page.goto('/dashboard');
     
     // This will NOT break when Change #2 is applied
@@ -55,16 +58,18 @@ test.describe('Healing Scenario 2: Table Column Addition', () => {
 });
 
 test.describe('Healing Scenario 3: Modal Title Change', () => {
-  test('checking exact text - FRAGILE', async ({ page }) => {
+  test.use({ loggedIn: true });
+
+  test('checking exact text - FRAGILE', async ({ authedPage: page }) => {
     await page.goto('/dashboard');
     await page.getByTestId('add-user-button').click();
     
     // This will BREAK when Change #3 is applied
-    const title = page.getByText(UI_TEXT.initial.modalTitle);
+    const title = page.getByText(EXPECTED_UI.modalTitle);
     await expect(title).toBeVisible();
   });
 
-  test('checking with testid - STABLE', async ({ page }) => {
+  test('checking with testid - STABLE', async ({ authedPage: page }) => {
     await page.goto('/dashboard');
     await page.getByTestId('add-user-button').click();
     
@@ -75,37 +80,61 @@ test.describe('Healing Scenario 3: Modal Title Change', () => {
 });
 
 test.describe('UI Change Verification', () => {
-  test('verify all changes can be applied and reset', async ({ page }) => {
-    // Navigate to dev tools
-    await page.goto('/login');
-    await page.evaluate(() => {
-      window.location.href = '/dev';
-    });
-    await page.waitForURL('**/dev');
-    
+  test('verify all changes can be applied and reset', async ({ page, uiChanges }) => {
     // Apply all changes
-    await page.getByTestId('apply-change-1').click();
-    await page.waitForTimeout(200);
-    await page.getByTestId('apply-change-2').click();
-    await page.waitForTimeout(200);
-    await page.getByTestId('apply-change-3').click();
-    await page.waitForTimeout(200);
+    await uiChanges.apply('login-button-text', 'department-column', 'modal-title');
     
     // Verify changes took effect
     await page.getByTestId('nav-to-login').click();
-    await expect(page.getByTestId('login-submit')).toContainText('Log In Now');
+    await expect(page.getByTestId('login-submit')).toContainText(uiChanges.expected().loginButton);
     
     // Reset
-    await page.evaluate(() => {
-      window.location.href = '/dev';
-    });
-    await page.waitForURL('**/dev');
-    await page.getByTestId('reset-changes').click();
-    await page.waitForTimeout(200);
+    await uiChanges.reset();
     
     // Verify reset worked
     await page.getByTestId('nav-to-login').click();
-    await expect(page.getByTestId('login-submit')).toContainText('Sign In');
+    await expect(page.getByTestId('login-submit')).toContainText(uiChanges.expected().loginButton);
   });
 });
 
+const SCENARIO_COMBINATIONS: UiScenarioId[][] = [
+  ['login-button-text'],
+  ['department-column'],
+  ['modal-title'],
+  ['login-button-text', 'department-column', 'modal-title'],
+];
+
+for (const combination of SCENARIO_COMBINATIONS) {
+  test.describe(`UI Changes: ${combination.join(' + ')}`, () => {
+    test.use({ loggedIn: true });
+
+    test('each change is visible in the app', async ({ authedPage: page, uiChanges }) => {
+      await uiChanges.apply(...combination);
+      const expected = uiChanges.expected();
+
+      // The changes live in the running app, so move on with its own links:
+      // a page.goto() would reload it and drop them.
+      const devTools = new DevToolsPage(page);
+      const loginPage = new LoginPage(page);
+      const dashboardPage = new DashboardPage(page);
+
+      if (combination.includes('login-button-text')) {
+        await devTools.navToLogin.click();
+        await expect(loginPage.submitButton).toHaveText(expected.loginButton);
+        await loginPage.login(TEST_USERS.login.email, TEST_USERS.login.password);
+      } else {
+        await devTools.navToDashboard.click();
+      }
+      await expect(dashboardPage.dashboardTitle).toBeVisible();
+
+      if (combination.includes('department-column')) {
+        await expect(page.getByTestId('header-department')).toBeVisible();
+      }
+
+      if (combination.includes('modal-title')) {
+        await dashboardPage.addUserButton.click();
+        await expect(new UserModal(page).modalTitle).toHaveText(expected.modalTitle);
+      }
+    });
+  });
+}
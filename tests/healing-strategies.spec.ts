@@ -0,0 +1,139 @@
+/**
+ * Healing Strategy Tests
+ *
+ * The offline strategy gets hand-built failure contexts; the HTTP strategy
+ * gets the same ones through the mock heal server.
+ */
+
+import { test, expect } from '@playwright/test';
+import { AddressInfo } from 'net';
+import { DomNode } from './helpers/dom-snapshot';
+import { createMockHealServer, MockHealServer } from '../healing/mock-heal-server';
+import { HttpStrategy } from '../healing/http-strategy';
+import { OfflineStrategy } from '../healing/offline-strategy';
+import { FailureContext, HealProposal, uiTextSource } from '../healing/strategy';
+import { failureContext } from './helpers/heal-test-data';
+
+function node(tag: string, testId: string | null, text: string, attributes: Record<string, string> = {}): DomNode {
+  return { path: `body > ${tag}`, tag, testId, text, attributes: testId ? { ...attributes, 'data-testid': testId } : attributes };
+}
+
+const LOGIN_NODES = [
+  node('h1', 'login-title', 'Dummy QA App'),
+  node('input', 'login-email', '', { type: 'email' }),
+  node('input', 'login-password', '', { type: 'password' }),
+  node('button', 'login-submit-btn', 'Sign In', { type: 'submit' }),
+];
+
+function missingSubmitButton(overrides: Partial<FailureContext> = {}): FailureContext {
+  return failureContext({
+    snapshot: { route: 'login', url: 'http://localhost:4300/login', capturedAt: '2026-01-01T00:00:00.000Z', aria: '', nodes: LOGIN_NODES },
+    ...overrides,
+  });
+}
+
+test.describe('Healing Strategies: Offline', () => {
+  const strategy = new OfflineStrategy();
+
+  test('should follow a test id the DOM diff shows renamed', () => {
+    const context = missingSubmitButton({
+      domDiff: {
+        route: 'login',
+        baselineCapturedAt: '2026-01-01T00:00:00.000Z',
+        capturedAt: '2026-01-02T00:00:00.000Z',
+        aria: '',
+        changes: [{ kind: 'renamed', node: LOGIN_NODES[3], from: 'login-submit', to: 'login-submit-btn' }],
+      },
+    });
+
+    const [proposal, ...rest] = strategy.propose(context);
+
+    expect(rest).toHaveLength(0);
+    expect(proposal).toMatchObject({
+      strategy: 'offline',
+      kind: 'locator',
+      target: 'LoginPage.submitButton',
+      before: "getByTestId('login-submit')",
+      after: "getByTestId('login-submit-btn')",
+    });
+    expect(proposal.confidence).toBeGreaterThan(0.9);
+  });
+
+  test('should rank snapshot elements by test id, text and role', () => {
+    const proposals = strategy.propose(missingSubmitButton());
+
+    expect(proposals[0].after).toBe("getByTestId('login-submit-btn')");
+    expect(proposals[0].rationale).toContain('role button matches');
+    expect(proposals.map(proposal => proposal.confidence)).toEqual(
+      [...proposals.map(proposal => proposal.confidence)].sort((a, b) => b - a)
+    );
+  });
+
+  test('should propose updating the UI_TEXT constant on a text mismatch', () => {
+    const proposals = strategy.propose(missingSubmitButton({
+      category: 'text-mismatch',
+      matcher: 'toHaveText',
+      expected: { value: 'Sign In', source: uiTextSource('Sign In') },
+      received: 'Log In Now',
+    }));
+
+    expect(proposals).toEqual([expect.objectContaining({
+      kind: 'text',
+      target: 'UI_TEXT.initial.loginButton',
+      before: '"Sign In"',
+      after: '"Log In Now"',
+    })]);
+  });
+
+  test('should not guess without a snapshot', () => {
+    expect(strategy.propose(missingSubmitButton({ snapshot: undefined }))).toEqual([]);
+  });
+});
+
+test.describe('Healing Strategies: HTTP', () => {
+  const recorded: HealProposal = {
+    strategy: 'model-v1',
+    kind: 'locator',
+    target: 'LoginPage.submitButton',
+    before: "getByTestId('login-submit')",
+    after: "getByRole('button', { name: 'Sign In' })",
+    confidence: 0.8,
+    rationale: 'Recorded response',
+  };
+
+  let mock: MockHealServer;
+  let endpoint: string;
+
+  test.beforeEach(async () => {
+    mock = createMockHealServer({ 'should login successfully': [recorded] });
+    await new Promise<void>(resolve => mock.server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(mock.server.address() as AddressInfo).port}/propose`;
+  });
+
+  test.afterEach(async () => {
+    await new Promise(resolve => mock.server.close(resolve));
+  });
+
+  test('should replay recorded proposals from the endpoint', async () => {
+    const context = missingSubmitButton();
+
+    const proposals = await new HttpStrategy({ endpoint }).propose(context);
+
+    expect(proposals).toEqual([recorded]);
+    expect(mock.requests).toEqual([context]);
+  });
+
+  test('should answer unrecorded failures with offline proposals', async () => {
+    const context = missingSubmitButton({ test: { ...missingSubmitButton().test, title: 'not recorded' } });
+
+    const proposals = await new HttpStrategy({ endpoint }).propose(context);
+
+    expect(proposals[0]).toMatchObject({ strategy: 'offline', after: "getByTestId('login-submit-btn')" });
+  });
+
+  test('should surface endpoint errors', async () => {
+    const strategy = new HttpStrategy({ endpoint: endpoint.replace('/propose', '/missing') });
+
+    await expect(strategy.propose(missingSubmitButton())).rejects.toThrow(/answered 404/);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Authentication Helpers
+ *
+ * Where the setup projects store each project's logged-in storage state, and
+ * assertions for routes that must not be reachable without logging in.
+ */
+
+import path from 'path';
+import { expect, Page } from '@playwright/test';
+import { LoginPage } from './page-objects';
+import { ROUTES } from './test-data';
+
+export const AUTH_DIR = path.join(__dirname, '..', '..', 'playwright', '.auth');
+
+/** Routes that redirect anonymous users to the login page. */
+export const PROTECTED_ROUTES = [ROUTES.dashboard, ROUTES.profile];
+
+export function storageStatePath(project: string): string {
+  return path.join(AUTH_DIR, `${project.replace(/[^\w-]+/g, '_')}.json`);
+}
+
+/** The setup project that logs in for a browser project (see auth.setup.ts). */
+export function setupProjectName(project: string): string {
+  return `${project}-setup`;
+}
+
+/** The browser project a setup project logs in for. */
+export function authedProjectOf(setupProject: string): string {
+  return setupProject.replace(/-setup$/, '');
+}
+
+/** Visits `route` and expects to land on the login page instead. */
+export async function expectLoginRedirect(page: Page, route: string) {
+  await page.goto(route);
+  await expect(page).toHaveURL(new RegExp(`${ROUTES.login}$`));
+  await expect(new LoginPage(page).loginTitle).toBeVisible();
+}
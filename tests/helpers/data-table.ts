@@ -0,0 +1,144 @@
+/**
+ * DataTable Component Object
+ *
+ * Reads a table by column instead of by position. Columns are resolved from
+ * the header row by header text ('Department'), key ('department') or test
+ * id ('header-department'), so adding or reordering columns does not affect
+ * callers that don't use them.
+ *
+ *   const table = dashboardPage.table;
+ *   await expect(await table.getCell(1, 'Email')).toHaveText('john.doe@example.com');
+ *   const users = await table.rowsAsObjects();
+ */
+
+import { Locator } from '@playwright/test';
+
+export interface TableColumn {
+  /** `department` for `header-department`, otherwise the lower-camel-cased header text. */
+  key: string;
+  header: string;
+  testId: string | null;
+  index: number;
+}
+
+export interface DataTableOptions<T> {
+  /** Rows are `[data-testid="<prefix><rowKey>"]`, e.g. `user-row-` for `user-row-3`. */
+  rowTestIdPrefix: string;
+  /** Maps a row key and its cells (by column key) to a record. */
+  toRecord: (rowKey: string, cells: Record<string, string>) => T;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+function columnKey(testId: string | null, header: string): string {
+  if (testId?.startsWith('header-')) {
+    return testId.slice('header-'.length);
+  }
+  return header.trim().toLowerCase().replace(/[^a-z0-9]+(.)/g, (_, next: string) => next.toUpperCase());
+}
+
+export class DataTable<T> {
+  readonly root: Locator;
+  private readonly options: DataTableOptions<T>;
+
+  constructor(root: Locator, options: DataTableOptions<T>) {
+    this.root = root;
+    this.options = options;
+  }
+
+  /** Columns in display order. Waits for the table to render. */
+  async columns(): Promise<TableColumn[]> {
+    await this.root.waitFor();
+    // Not getByRole('columnheader'): Playwright gives a <th> without `scope` the role `cell`.
+    const headers = await this.root.locator('thead th').evaluateAll(cells => cells.map(cell => ({
+      header: (cell.textContent || '').trim(),
+      testId: cell.getAttribute('data-testid'),
+    })));
+
+    return headers.map((header, index) => ({ ...header, key: columnKey(header.testId, header.header), index }));
+  }
+
+  async columnHeaders(): Promise<string[]> {
+    return (await this.columns()).map(column => column.header);
+  }
+
+  /** Resolves a column by header text, key or `header-*` test id (case-insensitive). */
+  async column(name: string): Promise<TableColumn> {
+    const columns = await this.columns();
+    const wanted = name.toLowerCase();
+    const column = columns.find(candidate =>
+      candidate.header.toLowerCase() === wanted
+      || candidate.key.toLowerCase() === wanted
+      || candidate.testId?.toLowerCase() === wanted);
+
+    if (!column) {
+      throw new Error(`No column "${name}" in table (columns: ${columns.map(candidate => candidate.header).join(', ')})`);
+    }
+
+    return column;
+  }
+
+  rows(): Locator {
+    return this.root.locator(`[data-testid^="${this.options.rowTestIdPrefix}"]`);
+  }
+
+  row(rowKey: string | number): Locator {
+    return this.root.getByTestId(`${this.options.rowTestIdPrefix}${rowKey}`);
+  }
+
+  async getCell(rowKey: string | number, columnName: string): Promise<Locator> {
+    const column = await this.column(columnName);
+    // The position comes from the header row, so it follows added or moved columns.
+    return this.row(rowKey).locator(`td:nth-child(${column.index + 1})`);
+  }
+
+  async rowsAsObjects(): Promise<T[]> {
+    return (await this.readRows()).map(row => row.record);
+  }
+
+  /** Rows whose fields equal every field in `match`. */
+  async filterRows(match: Partial<T>): Promise<T[]> {
+    return (await this.readRows()).filter(row => this.matches(row.record, match)).map(row => row.record);
+  }
+
+  /** The row of the first record matching `match`, or undefined. */
+  async findRow(match: Partial<T>): Promise<Locator | undefined> {
+    const row = (await this.readRows()).find(candidate => this.matches(candidate.record, match));
+    return row && this.row(row.rowKey);
+  }
+
+  async columnValues(columnName: string): Promise<string[]> {
+    const column = await this.column(columnName);
+    return (await this.readRows()).map(row => row.cells[column.key]);
+  }
+
+  async isSortedBy(columnName: string, direction: SortDirection = 'asc'): Promise<boolean> {
+    const values = await this.columnValues(columnName);
+    const sorted = [...values].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    if (direction === 'desc') {
+      sorted.reverse();
+    }
+    return values.every((value, index) => value === sorted[index]);
+  }
+
+  private matches(record: T, match: Partial<T>): boolean {
+    return (Object.keys(match) as (keyof T)[]).every(key => record[key] === match[key]);
+  }
+
+  private async readRows(): Promise<{ rowKey: string; cells: Record<string, string>; record: T }[]> {
+    const columns = await this.columns();
+    const rows = await this.rows().evaluateAll(elements => elements.map(element => ({
+      testId: element.getAttribute('data-testid') || '',
+      cells: Array.from(element.children).map(cell => (cell.textContent || '').trim()),
+    })));
+
+    return rows.map(row => {
+      const rowKey = row.testId.slice(this.options.rowTestIdPrefix.length);
+      const cells: Record<string, string> = {};
+      for (const column of columns) {
+        cells[column.key] = row.cells[column.index] ?? '';
+      }
+      return { rowKey, cells, record: this.options.toRecord(rowKey, cells) };
+    });
+  }
+}
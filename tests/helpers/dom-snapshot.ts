@@ -0,0 +1,287 @@
+/**
+ * Route Snapshots
+ *
+ * An ARIA snapshot plus a flat DOM snapshot (tag, test id, own text and
+ * tracked attributes of every element) of one route. A baseline run stores
+ * one per route and browser project; when a test fails, the page it failed
+ * on is snapshotted again and diffed structurally against the baseline:
+ * added, removed and renamed (test id changed) elements, text changes,
+ * attribute changes and tag changes. The diff is attached to the report and
+ * read by the heal CLI as context.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createTwoFilesPatch } from 'diff';
+import { Page } from '@playwright/test';
+import { ROUTES } from './test-data';
+import { jaccard, textSimilarity } from './similarity';
+
+export type RouteName = keyof typeof ROUTES;
+
+/** Routes a baseline run snapshots. */
+export const SNAPSHOT_ROUTES: RouteName[] = ['login', 'dashboard', 'profile'];
+
+export interface DomNode {
+  /** CSS path from <body>, e.g. `body > main:nth-of-type(1) > button:nth-of-type(1)`. */
+  path: string;
+  tag: string;
+  testId: string | null;
+  /** Text of the element's own text nodes, not its descendants'. */
+  text: string;
+  attributes: Record<string, string>;
+}
+
+export interface RouteSnapshot {
+  route: RouteName;
+  url: string;
+  capturedAt: string;
+  aria: string;
+  nodes: DomNode[];
+}
+
+export type SnapshotChange =
+  | { kind: 'added'; node: DomNode }
+  | { kind: 'removed'; node: DomNode }
+  | { kind: 'renamed'; node: DomNode; from: string; to: string | null }
+  | { kind: 'text'; node: DomNode; from: string; to: string }
+  | { kind: 'attribute'; node: DomNode; attribute: string; from: string | null; to: string | null }
+  | { kind: 'tag'; node: DomNode; from: string; to: string };
+
+export interface SnapshotDiff {
+  route: RouteName;
+  baselineCapturedAt: string;
+  capturedAt: string;
+  changes: SnapshotChange[];
+  /** Unified diff of the ARIA snapshots; empty when they match. */
+  aria: string;
+}
+
+/** Attributes recorded per node, here and by the trace analyzer (healing/trace-analyzer.ts). */
+export const TRACKED_ATTRIBUTES = [
+  'id', 'class', 'name', 'type', 'href', 'role', 'placeholder', 'title', 'aria-label', 'data-testid',
+] as const;
+
+/** Nodes kept per snapshot. */
+export const MAX_NODES = 1500;
+
+/** Pairs below this similarity are reported as removed + added instead. */
+const MIN_PAIR_SIMILARITY = 0.6;
+
+/**
+ * Runs inside the browser, so it must stay self-contained: no imports and no
+ * references to module scope. TRACKED_ATTRIBUTES comes in as the argument.
+ */
+export function snapshotNodes(elements: Element[], trackedAttributes: readonly string[]): DomNode[] {
+  const clean = (value: string) => value.replace(/\s+/g, ' ').trim().slice(0, 200);
+
+  const domPath = (el: Element): string => {
+    const segments: string[] = [];
+    let current: Element | null = el;
+
+    while (current && current !== document.body && current.parentElement) {
+      const tag = current.tagName.toLowerCase();
+      const sameTag = Array.from(current.parentElement.children).filter(sibling => sibling.tagName === current!.tagName);
+      segments.unshift(`${tag}:nth-of-type(${sameTag.indexOf(current) + 1})`);
+      current = current.parentElement;
+    }
+
+    return ['body', ...segments].join(' > ');
+  };
+
+  return elements.map(el => {
+    const attributes: Record<string, string> = {};
+    for (const attribute of trackedAttributes) {
+      const value = el.getAttribute(attribute);
+      if (value !== null) attributes[attribute] = value;
+    }
+
+    const ownText = Array.from(el.childNodes)
+      .filter(node => node.nodeType === Node.TEXT_NODE)
+      .map(node => node.textContent || '')
+      .join(' ');
+
+    return {
+      path: domPath(el),
+      tag: el.tagName.toLowerCase(),
+      testId: el.getAttribute('data-testid'),
+      text: clean(ownText),
+      attributes,
+    };
+  });
+}
+
+/** The ROUTES entry for the page's current path, if any. */
+export function routeOf(page: Page): RouteName | undefined {
+  const pathname = new URL(page.url(), 'http://localhost').pathname;
+  return (Object.keys(ROUTES) as RouteName[]).find(route => ROUTES[route] === pathname);
+}
+
+export async function captureRouteSnapshot(page: Page, route: RouteName): Promise<RouteSnapshot> {
+  const body = page.locator('body');
+  const nodes = await body.locator('*:not(script):not(style):not(link):not(meta)').evaluateAll(snapshotNodes, TRACKED_ATTRIBUTES);
+
+  return {
+    route,
+    url: page.url(),
+    capturedAt: new Date().toISOString(),
+    aria: await body.ariaSnapshot(),
+    nodes: nodes.slice(0, MAX_NODES),
+  };
+}
+
+function similarity(a: DomNode, b: DomNode): number {
+  const attributes = (node: DomNode) => Object.entries(node.attributes)
+    .filter(([key]) => key !== 'data-testid')
+    .map(([key, value]) => `${key}=${value}`);
+
+  return (a.tag === b.tag ? 0.3 : 0)
+    + 0.4 * textSimilarity(a.text, b.text)
+    + 0.3 * jaccard(attributes(a), attributes(b));
+}
+
+function compare(before: DomNode, after: DomNode): SnapshotChange[] {
+  const changes: SnapshotChange[] = [];
+
+  if (before.testId && before.testId !== after.testId) {
+    changes.push({ kind: 'renamed', node: after, from: before.testId, to: after.testId });
+  }
+  if (before.tag !== after.tag) {
+    changes.push({ kind: 'tag', node: after, from: before.tag, to: after.tag });
+  }
+  if (before.text !== after.text) {
+    changes.push({ kind: 'text', node: after, from: before.text, to: after.text });
+  }
+
+  const names = new Set([...Object.keys(before.attributes), ...Object.keys(after.attributes)]);
+  names.delete('data-testid');
+  for (const attribute of names) {
+    const from = before.attributes[attribute] ?? null;
+    const to = after.attributes[attribute] ?? null;
+    if (from !== to) {
+      changes.push({ kind: 'attribute', node: after, attribute, from, to });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Pairs baseline and current elements by test id, then by DOM path, then by
+ * similarity, and reports what changed between the pairs and what is left.
+ */
+export function diffSnapshots(baseline: RouteSnapshot, current: RouteSnapshot): SnapshotDiff {
+  const before = [...baseline.nodes];
+  const after = [...current.nodes];
+  const pairs: [DomNode, DomNode][] = [];
+
+  const pairBy = (key: (node: DomNode) => string | null) => {
+    for (let i = 0; i < before.length; i++) {
+      const wanted = key(before[i]);
+      const match = wanted === null ? -1 : after.findIndex(node => key(node) === wanted);
+      if (match !== -1) {
+        pairs.push([before[i], after[match]]);
+        before.splice(i--, 1);
+        after.splice(match, 1);
+      }
+    }
+  };
+
+  pairBy(node => node.testId);
+  pairBy(node => node.testId ? null : `${node.path}|${node.tag}`);
+
+  // Whatever is left was renamed, retagged or moved; take the best pairs first.
+  const candidates = before
+    .flatMap(a => after.map(b => ({ a, b, score: similarity(a, b) })))
+    .filter(candidate => candidate.score >= MIN_PAIR_SIMILARITY)
+    .sort((x, y) => y.score - x.score);
+
+  for (const { a, b } of candidates) {
+    if (before.includes(a) && after.includes(b)) {
+      pairs.push([a, b]);
+      before.splice(before.indexOf(a), 1);
+      after.splice(after.indexOf(b), 1);
+    }
+  }
+
+  return {
+    route: current.route,
+    baselineCapturedAt: baseline.capturedAt,
+    capturedAt: current.capturedAt,
+    changes: [
+      ...pairs.flatMap(([a, b]) => compare(a, b)),
+      ...before.map(node => ({ kind: 'removed' as const, node })),
+      ...after.map(node => ({ kind: 'added' as const, node })),
+    ],
+    aria: baseline.aria === current.aria
+      ? ''
+      : createTwoFilesPatch(`baseline/${baseline.route}`, `current/${current.route}`, baseline.aria + '\n', current.aria + '\n', '', ''),
+  };
+}
+
+function describeNode(node: DomNode): string {
+  const testId = node.testId ? `[data-testid="${node.testId}"]` : '';
+  const text = node.text ? ` "${node.text}"` : '';
+  return `<${node.tag}${testId}>${text}`;
+}
+
+export function renderSnapshotDiff(diff: SnapshotDiff): string {
+  const lines = [`DOM diff for ${diff.route} (baseline ${diff.baselineCapturedAt})`, ''];
+
+  for (const change of diff.changes) {
+    switch (change.kind) {
+      case 'added':
+      case 'removed':
+        lines.push(`${change.kind === 'added' ? '+' : '-'} ${change.kind} ${describeNode(change.node)}`);
+        break;
+      case 'renamed':
+        lines.push(`~ renamed data-testid "${change.from}" -> ${change.to ? `"${change.to}"` : '(none)'} ${describeNode(change.node)}`);
+        break;
+      case 'text':
+        lines.push(`~ text "${change.from}" -> "${change.to}" ${describeNode(change.node)}`);
+        break;
+      case 'attribute':
+        lines.push(`~ ${change.attribute} ${JSON.stringify(change.from)} -> ${JSON.stringify(change.to)} ${describeNode(change.node)}`);
+        break;
+      case 'tag':
+        lines.push(`~ tag <${change.from}> -> <${change.to}> ${describeNode(change.node)}`);
+        break;
+    }
+  }
+
+  if (!diff.changes.length) {
+    lines.push('No structural changes.');
+  }
+
+  if (diff.aria) {
+    lines.push('', 'ARIA snapshot:', diff.aria);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Baseline snapshots on disk: `<dir>/<project>/<route>.json`.
+ */
+export class SnapshotStore {
+  readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  filePath(project: string, route: RouteName): string {
+    return path.join(this.dir, project.replace(/[^\w-]+/g, '_'), `${route}.json`);
+  }
+
+  load(project: string, route: RouteName): RouteSnapshot | undefined {
+    const file = this.filePath(project, route);
+    return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) as RouteSnapshot : undefined;
+  }
+
+  save(project: string, snapshot: RouteSnapshot) {
+    const file = this.filePath(project, snapshot.route);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(snapshot, null, 2) + '\n');
+  }
+}
@@ -0,0 +1,352 @@
+/**
+ * Element Fingerprints
+ *
+ * A fingerprint is everything we know about how a POM element looked during
+ * a baseline run: tag, role, accessible name, text, attributes, DOM path,
+ * bounding box and neighbours. When a locator later stops matching, every
+ * element on the current page is scored against the stored fingerprint and
+ * the best candidate is proposed together with a confidence score.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Page, Locator } from '@playwright/test';
+import { textSimilarity, tokenSimilarity, jaccard } from './similarity';
+
+export interface ElementFingerprint {
+  tag: string;
+  role: string;
+  name: string;
+  text: string;
+  attributes: Record<string, string>;
+  /** Unique CSS path from <body>, usable as a selector. */
+  domPath: string;
+  boundingBox: { x: number; y: number; width: number; height: number } | null;
+  neighbours: { parent: string; previous: string; next: string };
+}
+
+export interface FingerprintEntry {
+  /** Bumped every time a baseline run records a different fingerprint. */
+  version: number;
+  capturedAt: string;
+  url: string;
+  fingerprint: ElementFingerprint;
+}
+
+export interface FingerprintStoreData {
+  schemaVersion: number;
+  updatedAt: string;
+  elements: Record<string, FingerprintEntry>;
+}
+
+export const FINGERPRINT_SCHEMA_VERSION = 1;
+
+/** A lock file older than this was left by a worker that died holding it. */
+const STALE_LOCK_MS = 5000;
+
+/**
+ * Runs inside the browser, so it must stay self-contained: no imports and no
+ * references to module scope.
+ */
+export function fingerprintElements(elements: Element[]): ElementFingerprint[] {
+  const TRACKED_ATTRIBUTES = [
+    'id', 'class', 'name', 'type', 'href', 'placeholder', 'title',
+    'aria-label', 'data-testid',
+  ];
+
+  const clean = (value: string | null | undefined) => (value || '').replace(/\s+/g, ' ').trim().slice(0, 200);
+
+  const implicitRole = (el: Element): string => {
+    const explicit = el.getAttribute('role');
+    if (explicit) return explicit;
+
+    const tag = el.tagName.toLowerCase();
+    if (/^h[1-6]$/.test(tag)) return 'heading';
+    if (tag === 'a') return el.hasAttribute('href') ? 'link' : '';
+    if (tag === 'input') {
+      const type = (el.getAttribute('type') || 'text').toLowerCase();
+      if (type === 'checkbox' || type === 'radio') return type;
+      if (type === 'submit' || type === 'button' || type === 'reset') return 'button';
+      return 'textbox';
+    }
+
+    const roles: Record<string, string> = {
+      button: 'button', select: 'combobox', textarea: 'textbox', table: 'table',
+      thead: 'rowgroup', tbody: 'rowgroup', tr: 'row', th: 'columnheader', td: 'cell',
+      ul: 'list', ol: 'list', li: 'listitem', nav: 'navigation', form: 'form',
+      img: 'img', dialog: 'dialog', main: 'main', header: 'banner', footer: 'contentinfo',
+    };
+    return roles[tag] || '';
+  };
+
+  const accessibleName = (el: Element): string => {
+    const ariaLabel = el.getAttribute('aria-label');
+    if (ariaLabel) return clean(ariaLabel);
+
+    const labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      return clean(labelledBy.split(/\s+/).map(id => document.getElementById(id)?.textContent).join(' '));
+    }
+
+    const tag = el.tagName.toLowerCase();
+    if (tag === 'input' || tag === 'select' || tag === 'textarea') {
+      const label = (el.id && document.querySelector(`label[for="${CSS.escape(el.id)}"]`)) || el.closest('label');
+      if (label) return clean(label.textContent);
+      return clean(el.getAttribute('placeholder') || el.getAttribute('title'));
+    }
+
+    return clean(el.textContent || el.getAttribute('title'));
+  };
+
+  const domPath = (el: Element): string => {
+    const segments: string[] = [];
+    let current: Element | null = el;
+
+    while (current && current !== document.body && current.parentElement) {
+      const tag = current.tagName.toLowerCase();
+      const sameTag = Array.from(current.parentElement.children).filter(sibling => sibling.tagName === current!.tagName);
+      segments.unshift(`${tag}:nth-of-type(${sameTag.indexOf(current) + 1})`);
+      current = current.parentElement;
+    }
+
+    return ['body', ...segments].join(' > ');
+  };
+
+  const describe = (el: Element | null): string => {
+    if (!el) return '';
+    const testId = el.getAttribute('data-testid');
+    return clean(`${el.tagName.toLowerCase()}${testId ? `[${testId}]` : ''} ${el.textContent || ''}`).slice(0, 80);
+  };
+
+  return elements.map(el => {
+    const attributes: Record<string, string> = {};
+    for (const attribute of TRACKED_ATTRIBUTES) {
+      const value = el.getAttribute(attribute);
+      if (value !== null) attributes[attribute] = value;
+    }
+
+    const rect = el.getBoundingClientRect();
+
+    return {
+      tag: el.tagName.toLowerCase(),
+      role: implicitRole(el),
+      name: accessibleName(el),
+      text: clean(el.textContent),
+      attributes,
+      domPath: domPath(el),
+      boundingBox: rect.width || rect.height
+        ? { x: rect.x, y: rect.y, width: rect.width, height: rect.height }
+        : null,
+      neighbours: {
+        parent: describe(el.parentElement),
+        previous: describe(el.previousElementSibling),
+        next: describe(el.nextElementSibling),
+      },
+    };
+  });
+}
+
+export async function captureFingerprint(locator: Locator): Promise<ElementFingerprint> {
+  const [fingerprint] = await locator.evaluateAll(fingerprintElements);
+  if (!fingerprint) {
+    throw new Error(`Cannot fingerprint ${locator}: no element matched`);
+  }
+  return fingerprint;
+}
+
+const MAX_CANDIDATES = 1500;
+
+/**
+ * Fingerprints every rendered element on the page as a healing candidate.
+ */
+export async function collectCandidates(page: Page): Promise<ElementFingerprint[]> {
+  const candidates = await page.locator('body *:not(script):not(style):not(link):not(meta)').evaluateAll(fingerprintElements);
+  return candidates.filter(candidate => candidate.boundingBox).slice(0, MAX_CANDIDATES);
+}
+
+const WEIGHTS = {
+  tag: 0.1,
+  role: 0.15,
+  name: 0.2,
+  text: 0.1,
+  testId: 0.15,
+  attributes: 0.1,
+  domPath: 0.1,
+  position: 0.05,
+  neighbours: 0.05,
+};
+
+export type ScoreBreakdown = Partial<Record<keyof typeof WEIGHTS, number>>;
+
+export interface FingerprintMatch {
+  fingerprint: ElementFingerprint;
+  score: number;
+  breakdown: ScoreBreakdown;
+}
+
+function attributeTokens(fingerprint: ElementFingerprint): string[] {
+  return Object.entries(fingerprint.attributes)
+    .filter(([key]) => key !== 'data-testid')
+    .flatMap(([key, value]) => key === 'class'
+      ? value.split(/\s+/).filter(Boolean).map(token => `class=${token}`)
+      : [`${key}=${value}`]);
+}
+
+function positionSimilarity(a: ElementFingerprint['boundingBox'], b: ElementFingerprint['boundingBox']): number {
+  if (!a || !b) return 0;
+  const distance = Math.hypot(a.x + a.width / 2 - (b.x + b.width / 2), a.y + a.height / 2 - (b.y + b.height / 2));
+  return 1 - Math.min(1, distance / 500);
+}
+
+/**
+ * Weighted similarity of a candidate against a baseline fingerprint.
+ * Features the baseline never had (e.g. no test id) are left out of the
+ * average rather than counted as a mismatch.
+ */
+export function scoreFingerprint(baseline: ElementFingerprint, candidate: ElementFingerprint): FingerprintMatch {
+  const baselineTestId = baseline.attributes['data-testid'];
+  const breakdown: ScoreBreakdown = {
+    tag: baseline.tag === candidate.tag ? 1 : 0,
+    role: baseline.role === candidate.role ? 1 : 0,
+    name: Math.max(textSimilarity(baseline.name, candidate.name), tokenSimilarity(baseline.name, candidate.name)),
+    text: textSimilarity(baseline.text, candidate.text),
+    testId: baselineTestId ? textSimilarity(baselineTestId, candidate.attributes['data-testid']) : undefined,
+    attributes: jaccard(attributeTokens(baseline), attributeTokens(candidate)),
+    domPath: textSimilarity(baseline.domPath, candidate.domPath),
+    position: baseline.boundingBox ? positionSimilarity(baseline.boundingBox, candidate.boundingBox) : undefined,
+    neighbours: (
+      textSimilarity(baseline.neighbours.parent, candidate.neighbours.parent)
+      + textSimilarity(baseline.neighbours.previous, candidate.neighbours.previous)
+      + textSimilarity(baseline.neighbours.next, candidate.neighbours.next)
+    ) / 3,
+  };
+
+  let total = 0;
+  let weight = 0;
+  for (const [feature, value] of Object.entries(breakdown) as [keyof typeof WEIGHTS, number | undefined][]) {
+    if (value === undefined) {
+      delete breakdown[feature];
+      continue;
+    }
+    total += value * WEIGHTS[feature];
+    weight += WEIGHTS[feature];
+  }
+
+  return { fingerprint: candidate, score: weight ? total / weight : 0, breakdown };
+}
+
+export function rankCandidates(baseline: ElementFingerprint, candidates: ElementFingerprint[]): FingerprintMatch[] {
+  return candidates
+    .map(candidate => scoreFingerprint(baseline, candidate))
+    .sort((a, b) => b.score - a.score);
+}
+
+export async function findBestMatch(page: Page, baseline: ElementFingerprint): Promise<FingerprintMatch | undefined> {
+  const [best] = rankCandidates(baseline, await collectCandidates(page));
+  return best;
+}
+
+/**
+ * JSON-file store of baseline fingerprints keyed by POM field name
+ * (e.g. `LoginPage.submitButton`). Writes are serialized with a lock file
+ * because parallel workers share the store.
+ */
+export class FingerprintStore {
+  readonly filePath: string;
+  private data: FingerprintStoreData | undefined;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  get(name: string): FingerprintEntry | undefined {
+    return this.load().elements[name];
+  }
+
+  load(): FingerprintStoreData {
+    if (!this.data) {
+      this.data = this.read();
+    }
+    return this.data;
+  }
+
+  async record(name: string, url: string, fingerprint: ElementFingerprint): Promise<FingerprintEntry> {
+    return await this.withLock(() => {
+      const data = this.read();
+      const previous = data.elements[name];
+      const unchanged = previous && JSON.stringify(previous.fingerprint) === JSON.stringify(fingerprint);
+
+      const entry: FingerprintEntry = {
+        version: unchanged ? previous.version : (previous?.version || 0) + 1,
+        capturedAt: new Date().toISOString(),
+        url,
+        fingerprint,
+      };
+
+      data.elements[name] = entry;
+      data.updatedAt = entry.capturedAt;
+
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2) + '\n');
+      this.data = data;
+
+      return entry;
+    });
+  }
+
+  private read(): FingerprintStoreData {
+    if (!fs.existsSync(this.filePath)) {
+      return { schemaVersion: FINGERPRINT_SCHEMA_VERSION, updatedAt: '', elements: {} };
+    }
+
+    const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as FingerprintStoreData;
+    if (data.schemaVersion !== FINGERPRINT_SCHEMA_VERSION) {
+      throw new Error(
+        `Fingerprint store ${this.filePath} has schema v${data.schemaVersion}, expected v${FINGERPRINT_SCHEMA_VERSION}. ` +
+        'Re-run the baseline capture.'
+      );
+    }
+    return data;
+  }
+
+  private async withLock<T>(action: () => T): Promise<T> {
+    const lockPath = `${this.filePath}.lock`;
+    const deadline = Date.now() + 10000;
+
+    fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+
+    while (true) {
+      try {
+        fs.closeSync(fs.openSync(lockPath, 'wx'));
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+        if (isStale(lockPath)) {
+          fs.rmSync(lockPath, { force: true });
+          continue;
+        }
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for fingerprint store lock ${lockPath}`);
+        }
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+    }
+
+    try {
+      return action();
+    } finally {
+      fs.rmSync(lockPath, { force: true });
+    }
+  }
+}
+
+function isStale(lockPath: string): boolean {
+  try {
+    return Date.now() - fs.statSync(lockPath).mtimeMs > STALE_LOCK_MS;
+  } catch {
+    // Released between our open and stat: not stale, just retry.
+    return false;
+  }
+}
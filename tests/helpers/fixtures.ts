@@ -0,0 +1,279 @@
+/**
+ * Test Fixtures
+ *
+ * Extends Playwright's `test` with fixtures shared across specs. Import
+ * `test` and `expect` from here instead of '@playwright/test' to use them.
+ *
+ *   test('title', async ({ page, uiChanges }) => {
+ *     await uiChanges.apply('login-button-text', 'modal-title');
+ *     ...
+ *   });
+ *
+ * Describe blocks whose tests visit protected routes set
+ * `test.use({ loggedIn: true })`: their contexts start from the storage state
+ * the setup project saved (see auth.setup.ts), and they ask for `authedPage`.
+ * Tests that must start logged out ask for `anonymousPage`. Asking for
+ * `usersApi` serves /api/users from an in-memory mock for the test.
+ *
+ * With MUTATIONS set, every page gets the DOM mutation engine (see
+ * mutations.ts) before it loads the app.
+ *
+ * With HEALING_STEPS=retry or strict, failing `test.step`s are retried with
+ * the top heal proposal (see step-healing.ts).
+ *
+ * When a test fails on a known route, the page's snapshot is attached as
+ * `dom-snapshot`; with a baseline snapshot for the route, a structural diff
+ * against it is attached as `dom-diff` (JSON, read by the heal CLI) and
+ * `dom-diff-summary` (text). Failures a heal could fix also get the strategy's
+ * proposals as `heal-proposals` and a screenshot outlining the proposed
+ * element as `heal-highlight` (see heal-attachments.ts).
+ */
+
+import fs from 'fs';
+import { test as base, expect, Page } from '@playwright/test';
+import { storageStatePath } from './auth';
+import { DevToolsPage } from './page-objects';
+import { HEALING_CONFIG } from './healing-config';
+import { ACTIVE_MUTATIONS, MUTATIONS, installMutations } from './mutations';
+import {
+  RouteSnapshot, SnapshotDiff, SnapshotStore, captureRouteSnapshot, diffSnapshots, renderSnapshotDiff, routeOf,
+} from './dom-snapshot';
+import { attachHealProposals } from './heal-attachments';
+import { StepHealer, healingSteps } from './step-healing';
+import { UserFactory, seedFrom } from './test-data';
+import { ACTIVE_SCENARIOS, ExpectedUi, UI_CHANGE_ANNOTATION, UI_CHANGE_SCENARIOS, UiScenarioId, expectedUi } from './ui-scenarios';
+import { UserManagement } from './user-management';
+import { UsersApiMock } from './users-api';
+
+/**
+ * Applies and resets UI change scenarios through the /dev page, waiting on
+ * the change log instead of sleeping. Anything applied is reset when the
+ * test ends, and annotated so the heal history knows what the test ran with.
+ */
+export class UiChanges {
+  private readonly devTools: DevToolsPage;
+  private scenarios: UiScenarioId[] = [...ACTIVE_SCENARIOS];
+  private applied = false;
+
+  constructor(private readonly page: Page) {
+    this.devTools = new DevToolsPage(page);
+  }
+
+  /** Applies the scenarios and leaves the page on /dev. */
+  async apply(...ids: UiScenarioId[]) {
+    const fixtureOnly = ids.filter(id => UI_CHANGE_SCENARIOS[id].mutation.fixtureOnly);
+    base.skip(
+      fixtureOnly.length > 0 && process.env.TEST_APP !== 'fixture',
+      `Only the fixture app implements ${fixtureOnly.join(', ')} (run with TEST_APP=fixture)`
+    );
+
+    await this.openDevTools();
+
+    for (const id of ids) {
+      await this.devTools.applyScenario(id);
+      await expect(this.devTools.changeLog).toContainText(UI_CHANGE_SCENARIOS[id].mutation.logEntry);
+      this.applied = true;
+      base.info().annotations.push({ type: UI_CHANGE_ANNOTATION, description: id });
+
+      if (!this.scenarios.includes(id)) {
+        this.scenarios.push(id);
+      }
+    }
+  }
+
+  /** Resets every change, including ones the run started with, and leaves the page on /dev. */
+  async reset() {
+    await this.openDevTools();
+    await this.devTools.resetChanges();
+
+    for (const id of this.scenarios) {
+      await expect(this.devTools.changeLog).not.toContainText(UI_CHANGE_SCENARIOS[id].mutation.logEntry);
+    }
+
+    this.scenarios = [];
+    this.applied = false;
+  }
+
+  /** Scenarios active in the app as far as this test knows. */
+  active(): UiScenarioId[] {
+    return [...this.scenarios];
+  }
+
+  /** The UI the active scenarios produce. */
+  expected(): ExpectedUi {
+    return expectedUi(this.active());
+  }
+
+  /** Teardown: reset only when the test changed something. */
+  async dispose() {
+    if (this.applied && !this.page.isClosed()) {
+      await this.reset();
+    }
+  }
+
+  /**
+   * Applied changes live in the app's memory, so once the app is loaded this
+   * routes to /dev in-app (as the back button would) instead of reloading.
+   */
+  private async openDevTools() {
+    const url = new URL(this.page.url(), 'http://localhost');
+    if (url.pathname === '/dev') {
+      return;
+    }
+
+    if (!url.protocol.startsWith('http')) {
+      await this.devTools.goto();
+      return;
+    }
+
+    await this.page.evaluate(() => {
+      history.pushState(null, '', '/dev');
+      dispatchEvent(new PopStateEvent('popstate'));
+    });
+    await expect(this.devTools.devToolsTitle).toBeVisible();
+  }
+}
+
+const snapshotStore = new SnapshotStore(HEALING_CONFIG.snapshotDir);
+
+/** TEST_DATA_SEED reproduces a run's data; otherwise the seed comes from the worker and test. */
+function testDataSeed(workerIndex: number, testId: string): number {
+  const fixed = process.env.TEST_DATA_SEED;
+  return fixed ? Number(fixed) : seedFrom(workerIndex, testId);
+}
+
+export const test = base.extend<{
+  /** Option: contexts start from the setup project's logged-in storage state. */
+  loggedIn: boolean;
+  authedPage: Page;
+  anonymousPage: Page;
+  uiChanges: UiChanges;
+  userManagement: UserManagement;
+  usersApi: UsersApiMock;
+  testData: UserFactory;
+  domMutations: void;
+  stepHealing: void;
+  failureSnapshot: void;
+}>({
+  loggedIn: [false, { option: true }],
+
+  storageState: async ({ loggedIn, storageState }, use, testInfo) => {
+    if (!loggedIn) {
+      await use(storageState);
+      return;
+    }
+
+    const file = storageStatePath(testInfo.project.name);
+    if (!fs.existsSync(file)) {
+      throw new Error(`No storage state for project "${testInfo.project.name}" at ${file}; run it with its setup project (see tests/auth.setup.ts)`);
+    }
+    await use(file);
+  },
+
+  authedPage: async ({ page, loggedIn }, use) => {
+    if (!loggedIn) {
+      throw new Error('authedPage needs `test.use({ loggedIn: true })` in its describe block or file');
+    }
+    await use(page);
+  },
+
+  anonymousPage: async ({ page, loggedIn }, use) => {
+    if (loggedIn) {
+      throw new Error('anonymousPage cannot be used where `test.use({ loggedIn: true })` is set');
+    }
+    await use(page);
+  },
+
+  uiChanges: async ({ page }, use) => {
+    const uiChanges = new UiChanges(page);
+    await use(uiChanges);
+    await uiChanges.dispose();
+  },
+
+  userManagement: async ({ authedPage }, use) => {
+    await use(new UserManagement(authedPage));
+  },
+
+  usersApi: async ({ page }, use) => {
+    const usersApi = new UsersApiMock(page);
+    await usersApi.install();
+    await use(usersApi);
+    await usersApi.dispose();
+  },
+
+  domMutations: [async ({ context }, use) => {
+    if (ACTIVE_MUTATIONS.length) {
+      await context.addInitScript(installMutations, ACTIVE_MUTATIONS.flatMap(id => MUTATIONS[id].mutations));
+    }
+    await use();
+  }, { auto: true }],
+
+  stepHealing: [async ({ page }, use, testInfo) => {
+    if (HEALING_CONFIG.stepHealing === 'off') {
+      await use();
+      return;
+    }
+
+    const healer = new StepHealer(page, testInfo);
+    StepHealer.current = healer;
+    try {
+      await use();
+    } finally {
+      StepHealer.current = undefined;
+      await healer.dispose();
+    }
+  }, { auto: true }],
+
+  // Depends on uiChanges so it is torn down first: the page is captured on
+  // the route the test failed on, before the reset moves it to /dev.
+  failureSnapshot: [async ({ page, uiChanges: _uiChanges }, use, testInfo) => {
+    await use();
+
+    const route = routeOf(page);
+    if (testInfo.status === testInfo.expectedStatus || HEALING_CONFIG.mode === 'baseline' || !route || page.isClosed()) {
+      return;
+    }
+
+    let snapshot: RouteSnapshot | undefined;
+    let diff: SnapshotDiff | undefined;
+    try {
+      snapshot = await captureRouteSnapshot(page, route);
+      const snapshotFile = testInfo.outputPath('dom-snapshot.json');
+      fs.writeFileSync(snapshotFile, JSON.stringify(snapshot, null, 2));
+      await testInfo.attach('dom-snapshot', { path: snapshotFile, contentType: 'application/json' });
+
+      const baseline = snapshotStore.load(testInfo.project.name, route);
+      if (baseline) {
+        diff = diffSnapshots(baseline, snapshot);
+        const file = testInfo.outputPath('dom-diff.json');
+        fs.writeFileSync(file, JSON.stringify(diff, null, 2));
+        await testInfo.attach('dom-diff', { path: file, contentType: 'application/json' });
+        await testInfo.attach('dom-diff-summary', { body: renderSnapshotDiff(diff), contentType: 'text/plain' });
+      }
+    } catch (error) {
+      console.warn(`[${testInfo.title}] could not snapshot the page: ${(error as Error).message.split('\n')[0]}`);
+    }
+
+    try {
+      await attachHealProposals(page, testInfo, { snapshot, domDiff: diff });
+    } catch (error) {
+      console.warn(`[${testInfo.title}] could not propose heals: ${(error as Error).message.split('\n')[0]}`);
+    }
+  }, { auto: true }],
+
+  testData: async ({}, use, testInfo) => {
+    const factory = new UserFactory(testDataSeed(testInfo.workerIndex, testInfo.testId));
+    await use(factory);
+
+    if (testInfo.status !== testInfo.expectedStatus) {
+      testInfo.annotations.push({ type: 'test-data-seed', description: String(factory.seed) });
+      console.log(`[${testInfo.title}] test data seed ${factory.seed}; reproduce with TEST_DATA_SEED=${factory.seed}`);
+    }
+  },
+});
+
+if (HEALING_CONFIG.stepHealing !== 'off') {
+  test.step = healingSteps(test.step);
+}
+
+export { expect };
@@ -0,0 +1,494 @@
+/**
+ * Declarative Flows
+ *
+ * Loads user journeys written as data (`*.flow.yaml` or `*.flow.json`);
+ * flows.spec.ts registers each flow as a test, and FlowRunner runs every step
+ * as a named `test.step` reported at its line in the flow file:
+ *
+ *   name: User Journeys
+ *   session: anonymous            # or authed (the `authedPage` fixture)
+ *   flows:
+ *     - name: add a user from the dashboard
+ *       steps:
+ *         - goto: login
+ *         - fill: { LoginPage: { emailInput: '${login.email}', passwordInput: '${login.password}' } }
+ *         - click: LoginPage.submitButton
+ *         - expect: url /dashboard/
+ *         - name: add a new user    # a named group of steps
+ *           steps:
+ *             - click: DashboardPage.addUserButton
+ *             - fill: { UserModal: { nameInput: '${user.name}', emailInput: '${user.email}' } }
+ *             - call: UserModal.save
+ *             - expect: visible "${user.name}"
+ *
+ * Actions:
+ * - `goto: <ROUTES key>`
+ * - `click: Class.field`
+ * - `fill: { Class: { field: value } }`, selecting the option on a <select>
+ * - `call: Class.method`, or `call: { Class.method: [args] }`
+ * - `expect: url <ROUTES key or /regexp/>`, `visible Class.field`,
+ *   `hidden Class.field`, `visible "text"` or `text Class.field <text>`
+ *
+ * Any action step may set `name` to title its `test.step`. Values may use
+ * `${login.email}` and `${login.password}` (TEST_USERS.login) and
+ * `${user.<field>}` (one `testData.user()` per flow).
+ *
+ * Flow files are validated when they load, before any test runs, against the
+ * page object classes (read from page-objects.ts with the TypeScript compiler
+ * API) and ROUTES, so a typo fails collection naming the file, flow and step.
+ * Healing a flow means editing its file, not code.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { Document, LineCounter, parseDocument } from 'yaml';
+import { Locator, Page } from '@playwright/test';
+import { parseSource } from '../../healing/source-edits';
+import { test, expect } from './fixtures';
+import { DashboardPage, DevToolsPage, LoginPage, ProfilePage, UserModal } from './page-objects';
+import { NewUser, ROUTES, TEST_USERS, UserFactory } from './test-data';
+
+export type FlowSession = 'anonymous' | 'authed';
+
+/** `Class.member` on one of PAGE_OBJECTS. */
+export interface MemberRef {
+  pageObject: string;
+  member: string;
+}
+
+export type FlowAssertion =
+  | { kind: 'url'; pattern: RegExp }
+  | { kind: 'visible' | 'hidden'; target: MemberRef }
+  | { kind: 'visible-text'; text: string }
+  | { kind: 'text'; target: MemberRef; text: string };
+
+export type FlowAction =
+  | { kind: 'goto'; route: keyof typeof ROUTES }
+  | { kind: 'click'; target: MemberRef }
+  | { kind: 'fill'; pageObject: string; values: Record<string, string> }
+  | { kind: 'call'; target: MemberRef; args: unknown[] }
+  | { kind: 'expect'; assertion: FlowAssertion };
+
+/** An action, or a named group of steps. */
+export interface FlowStep {
+  title: string;
+  /** Line in the flow file. */
+  line: number;
+  action?: FlowAction;
+  steps?: FlowStep[];
+}
+
+export interface Flow {
+  name: string;
+  session: FlowSession;
+  steps: FlowStep[];
+}
+
+export interface FlowFile {
+  file: string;
+  /** Title of the flows' `test.describe`. */
+  name: string;
+  flows: Flow[];
+}
+
+/** Locator fields and public methods of one page object class. */
+export interface PageObjectMembers {
+  locators: Set<string>;
+  methods: Map<string, { required: number; total: number }>;
+}
+
+/** The classes flows can refer to. */
+export const PAGE_OBJECTS: Record<string, new (page: Page) => object> = {
+  LoginPage,
+  DashboardPage,
+  UserModal,
+  ProfilePage,
+  DevToolsPage,
+};
+
+/** A page object as flows see it: members looked up by the names in MemberRef. */
+type PageObjectInstance = Record<string, Locator | ((...args: unknown[]) => Promise<unknown>)>;
+
+const PAGE_OBJECTS_FILE = path.join(__dirname, 'page-objects.ts');
+const LOCATOR_TYPES = new Set(['Locator', 'HealingLocator']);
+const ACTIONS = ['goto', 'click', 'fill', 'call', 'expect'] as const;
+const SESSIONS: FlowSession[] = ['anonymous', 'authed'];
+const USER_FIELDS = Object.keys(new UserFactory(0).user());
+const PLACEHOLDER = /\$\{([\w.]+)\}/g;
+
+/** Reads the locator fields and public methods of PAGE_OBJECTS from their source. */
+export function scanPageObjects(file = PAGE_OBJECTS_FILE): Record<string, PageObjectMembers> {
+  const members: Record<string, PageObjectMembers> = {};
+
+  for (const statement of parseSource(file).statements) {
+    if (!ts.isClassDeclaration(statement) || !statement.name || !(statement.name.text in PAGE_OBJECTS)) continue;
+
+    const classMembers: PageObjectMembers = { locators: new Set(), methods: new Map() };
+    for (const member of statement.members) {
+      const isPrivate = ts.getCombinedModifierFlags(member) & (ts.ModifierFlags.Private | ts.ModifierFlags.Protected);
+      if (isPrivate || !member.name || !ts.isIdentifier(member.name)) continue;
+
+      if (ts.isPropertyDeclaration(member) && member.type && ts.isTypeReferenceNode(member.type)
+        && LOCATOR_TYPES.has(member.type.typeName.getText())) {
+        classMembers.locators.add(member.name.text);
+      } else if (ts.isMethodDeclaration(member)) {
+        const required = member.parameters.filter(parameter => !parameter.questionToken && !parameter.initializer).length;
+        classMembers.methods.set(member.name.text, { required, total: member.parameters.length });
+      }
+    }
+    members[statement.name.text] = classMembers;
+  }
+
+  return members;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Where a problem is, for error messages: `file: flow "x", step 2.1`. */
+class FlowLocation {
+  constructor(readonly file: string, readonly flow?: string, readonly step?: string) {}
+
+  at(flow: string): FlowLocation {
+    return new FlowLocation(this.file, flow);
+  }
+
+  child(index: number): FlowLocation {
+    return new FlowLocation(this.file, this.flow, this.step ? `${this.step}.${index + 1}` : String(index + 1));
+  }
+
+  error(problem: string): Error {
+    const where = [this.flow && `flow "${this.flow}"`, this.step && `step ${this.step}`].filter(Boolean).join(', ');
+    return new Error(`${this.file}${where ? `: ${where}` : ''}: ${problem}`);
+  }
+}
+
+class FlowParser {
+  private readonly lineCounter = new LineCounter();
+  private readonly document: Document;
+
+  constructor(private readonly file: string, text: string, private readonly members: Record<string, PageObjectMembers>) {
+    this.document = parseDocument(text, { lineCounter: this.lineCounter });
+    if (this.document.errors.length) {
+      throw new Error(`${file}: ${this.document.errors[0].message}`);
+    }
+  }
+
+  parse(): FlowFile {
+    const location = new FlowLocation(path.basename(this.file));
+    const data = this.document.toJS() as Record<string, unknown> | null;
+    if (!data || typeof data !== 'object' || typeof data.name !== 'string') {
+      throw location.error('needs a "name" for its describe block');
+    }
+    if (!Array.isArray(data.flows) || !data.flows.length) {
+      throw location.error('needs a non-empty "flows" list');
+    }
+
+    const session = this.session(data.session, 'anonymous', location);
+    const names = new Set<string>();
+    const flows = data.flows.map((flow: Record<string, unknown>, index: number) => {
+      if (!flow || typeof flow.name !== 'string') {
+        throw location.error(`flow ${index + 1} needs a "name"`);
+      }
+      if (names.has(flow.name)) {
+        throw location.error(`duplicate flow name "${flow.name}"`);
+      }
+      names.add(flow.name);
+
+      const flowLocation = location.at(flow.name);
+      return {
+        name: flow.name,
+        session: this.session(flow.session, session, flowLocation),
+        steps: this.steps(flow.steps, ['flows', index, 'steps'], flowLocation),
+      };
+    });
+
+    return { file: this.file, name: data.name, flows };
+  }
+
+  private session(value: unknown, fallback: FlowSession, location: FlowLocation): FlowSession {
+    if (value === undefined) return fallback;
+    if (!SESSIONS.includes(value as FlowSession)) {
+      throw location.error(`unknown session "${value}". Known: ${SESSIONS.join(', ')}`);
+    }
+    return value as FlowSession;
+  }
+
+  private steps(value: unknown, nodePath: (string | number)[], location: FlowLocation): FlowStep[] {
+    if (!Array.isArray(value) || !value.length) {
+      throw location.error('needs a non-empty "steps" list');
+    }
+    return value.map((step, index) => this.step(step, [...nodePath, index], location.child(index)));
+  }
+
+  private step(value: unknown, nodePath: (string | number)[], location: FlowLocation): FlowStep {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw location.error('a step is a mapping such as "click: DashboardPage.addUserButton"');
+    }
+
+    const step = value as Record<string, unknown>;
+    const line = this.lineOf(nodePath);
+    const name = step.name === undefined ? undefined : String(step.name);
+
+    if ('steps' in step) {
+      if (!name) throw location.error('a group of steps needs a "name"');
+      return { title: name, line, steps: this.steps(step.steps, [...nodePath, 'steps'], location) };
+    }
+
+    const keys = Object.keys(step).filter(key => key !== 'name');
+    const [kind] = keys;
+    if (keys.length !== 1 || !ACTIONS.includes(kind as typeof ACTIONS[number])) {
+      throw location.error(`expected exactly one of ${ACTIONS.join(', ')} (or "steps"), got ${keys.join(', ') || 'nothing'}`);
+    }
+
+    const action = this.action(kind as typeof ACTIONS[number], step[kind], location);
+    return { title: name ?? `${kind} ${describeArgument(step[kind])}`, line, action };
+  }
+
+  private action(kind: typeof ACTIONS[number], argument: unknown, location: FlowLocation): FlowAction {
+    switch (kind) {
+      case 'goto':
+        return { kind, route: this.route(argument, location) };
+
+      case 'click':
+        return { kind, target: this.member(argument, 'locator', location) };
+
+      case 'fill': {
+        const entries = argument && typeof argument === 'object' ? Object.entries(argument) : [];
+        const [[pageObject, values] = ['', undefined]] = entries;
+        if (entries.length !== 1 || !values || typeof values !== 'object') {
+          throw location.error('fill takes one page object with its fields, such as "fill: { UserModal: { nameInput: ... } }"');
+        }
+        const filled = Object.fromEntries(Object.entries(values).map(([field, value]) => {
+          this.member(`${pageObject}.${field}`, 'locator', location);
+          return [field, this.text(value, location)];
+        }));
+        return { kind, pageObject, values: filled };
+      }
+
+      case 'call': {
+        const [target, args] = typeof argument === 'string'
+          ? [argument, []]
+          : Object.entries(argument && typeof argument === 'object' ? argument : {})[0] ?? [];
+        const member = this.member(target, 'method', location);
+        const list = Array.isArray(args) ? args : [args];
+        const { required, total } = this.members[member.pageObject].methods.get(member.member)!;
+        if (list.length < required || list.length > total) {
+          throw location.error(`${target} takes ${required === total ? total : `${required}-${total}`} argument(s), got ${list.length}`);
+        }
+        list.filter(arg => typeof arg === 'string').forEach(arg => this.text(arg, location));
+        return { kind, target: member, args: list };
+      }
+
+      case 'expect':
+        return { kind, assertion: this.assertion(argument, location) };
+    }
+  }
+
+  private assertion(argument: unknown, location: FlowLocation): FlowAssertion {
+    const match = typeof argument === 'string' ? argument.trim().match(/^(url|visible|hidden|text)\s+(.+)$/) : null;
+    if (!match) {
+      throw location.error(`unknown expectation "${argument}". Use url, visible, hidden or text`);
+    }
+
+    const [, kind, rest] = match;
+    switch (kind) {
+      case 'url': {
+        const regexp = rest.match(/^\/(.+)\/([a-z]*)$/);
+        if (regexp) return { kind, pattern: new RegExp(regexp[1], regexp[2]) };
+        return { kind, pattern: new RegExp(`${escapeRegExp(ROUTES[this.route(rest, location)])}(?:[?#]|$)`) };
+      }
+
+      case 'visible':
+      case 'hidden': {
+        const quoted = rest.match(/^(["'])(.*)\1$/);
+        if (quoted && kind === 'visible') return { kind: 'visible-text', text: this.text(quoted[2], location) };
+        return { kind, target: this.member(rest, 'locator', location) };
+      }
+
+      default: {
+        const [target, ...text] = rest.split(/\s+/);
+        if (!text.length) throw location.error(`"expect: text" needs a field and the text, such as "text ProfilePage.profileName Jane"`);
+        return { kind: 'text', target: this.member(target, 'locator', location), text: this.text(rest.slice(target.length).trim(), location) };
+      }
+    }
+  }
+
+  private route(value: unknown, location: FlowLocation): keyof typeof ROUTES {
+    if (typeof value !== 'string' || !(value in ROUTES)) {
+      throw location.error(`unknown route "${value}". Known: ${Object.keys(ROUTES).join(', ')}`);
+    }
+    return value as keyof typeof ROUTES;
+  }
+
+  private member(value: unknown, kind: 'locator' | 'method', location: FlowLocation): MemberRef {
+    const [pageObject, member, ...extra] = typeof value === 'string' ? value.split('.') : [];
+    const classMembers = this.members[pageObject];
+    if (!classMembers || !member || extra.length) {
+      throw location.error(`"${value}" is not Class.${kind === 'locator' ? 'field' : 'method'}. Classes: ${Object.keys(this.members).join(', ')}`);
+    }
+
+    const known = kind === 'locator' ? [...classMembers.locators] : [...classMembers.methods.keys()];
+    if (!known.includes(member)) {
+      throw location.error(`${pageObject} has no ${kind} "${member}". Known: ${known.join(', ')}`);
+    }
+    return { pageObject, member };
+  }
+
+  /** A string value, with its placeholders checked. */
+  private text(value: unknown, location: FlowLocation): string {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      throw location.error(`expected a text value, got ${JSON.stringify(value)}`);
+    }
+    for (const [, name] of String(value).matchAll(PLACEHOLDER)) {
+      const [scope, field] = name.split('.');
+      const fields = scope === 'login' ? Object.keys(TEST_USERS.login) : scope === 'user' ? USER_FIELDS : [];
+      if (!fields.includes(field)) {
+        throw location.error(`unknown placeholder \${${name}}. Known: ${[
+          ...Object.keys(TEST_USERS.login).map(key => `login.${key}`),
+          ...USER_FIELDS.map(key => `user.${key}`),
+        ].join(', ')}`);
+      }
+    }
+    return String(value);
+  }
+
+  private lineOf(nodePath: (string | number)[]): number {
+    const node = this.document.getIn(nodePath, true) as { range?: [number, number, number] } | undefined;
+    return node?.range ? this.lineCounter.linePos(node.range[0]).line : 1;
+  }
+}
+
+/** A step argument as a default step title. */
+function describeArgument(argument: unknown): string {
+  if (typeof argument === 'string') return argument;
+  const [[key, value] = []] = Object.entries(argument ?? {});
+  if (Array.isArray(value)) return `${key}(${value.map(arg => JSON.stringify(arg)).join(', ')})`;
+  return value && typeof value === 'object' ? `${key} (${Object.keys(value).join(', ')})` : String(key);
+}
+
+/** Parses and validates one flow file. */
+export function parseFlowFile(file: string, members = scanPageObjects(), text = fs.readFileSync(file, 'utf-8')): FlowFile {
+  return new FlowParser(file, text, members).parse();
+}
+
+/** Flow files in a directory, sorted by name. */
+export function flowFiles(dir: string): string[] {
+  return fs.readdirSync(dir)
+    .filter(file => /\.flow\.(ya?ml|json)$/.test(file))
+    .sort()
+    .map(file => path.join(dir, file));
+}
+
+/** Runs a flow's steps against one page, with one page object instance per class. */
+export class FlowRunner {
+  private readonly pageObjects = new Map<string, PageObjectInstance>();
+  private user?: NewUser;
+
+  constructor(private readonly page: Page, private readonly testData: UserFactory, private readonly file: string) {}
+
+  async run(steps: FlowStep[]) {
+    for (const step of steps) {
+      await test.step(
+        step.title,
+        () => step.steps ? this.run(step.steps) : this.perform(step.action!),
+        { location: { file: this.file, line: step.line, column: 1 } }
+      );
+    }
+  }
+
+  private async perform(action: FlowAction) {
+    switch (action.kind) {
+      case 'goto':
+        await this.page.goto(ROUTES[action.route]);
+        break;
+
+      case 'click':
+        await this.locator(action.target).click();
+        break;
+
+      case 'fill':
+        for (const [member, value] of Object.entries(action.values)) {
+          const locator = this.locator({ pageObject: action.pageObject, member });
+          const isSelect = await locator.evaluate(element => element.tagName === 'SELECT');
+          if (isSelect) {
+            await locator.selectOption(this.resolve(value));
+          } else {
+            await locator.fill(this.resolve(value));
+          }
+        }
+        break;
+
+      case 'call': {
+        const args = action.args.map(arg => typeof arg === 'string' ? this.resolve(arg) : arg);
+        const pageObject = this.pageObject(action.target.pageObject);
+        const method = pageObject[action.target.member];
+        if (typeof method !== 'function') {
+          throw new Error(`${action.target.pageObject}.${action.target.member} is not a method`);
+        }
+        await method.apply(pageObject, args);
+        break;
+      }
+
+      case 'expect':
+        await this.assert(action.assertion);
+        break;
+    }
+  }
+
+  private async assert(assertion: FlowAssertion) {
+    switch (assertion.kind) {
+      case 'url':
+        await expect(this.page).toHaveURL(assertion.pattern);
+        break;
+      case 'visible':
+        await expect(this.locator(assertion.target)).toBeVisible();
+        break;
+      case 'hidden':
+        await expect(this.locator(assertion.target)).toBeHidden();
+        break;
+      case 'visible-text':
+        await expect(this.page.getByText(this.resolve(assertion.text))).toBeVisible();
+        break;
+      case 'text':
+        await expect(this.locator(assertion.target)).toContainText(this.resolve(assertion.text));
+        break;
+    }
+  }
+
+  private pageObject(name: string): PageObjectInstance {
+    let instance = this.pageObjects.get(name);
+    if (!instance) {
+      instance = new PAGE_OBJECTS[name](this.page) as PageObjectInstance;
+      this.pageObjects.set(name, instance);
+    }
+    return instance;
+  }
+
+  /** Flow files are checked against the scanned members when they load, so a miss here is a bug. */
+  private locator({ pageObject, member }: MemberRef): Locator {
+    const locator = this.pageObject(pageObject)[member];
+    if (!locator || typeof locator === 'function') {
+      throw new Error(`${pageObject}.${member} is not a locator field`);
+    }
+    return locator;
+  }
+
+  /** Replaces `${login.*}` and `${user.*}` placeholders. */
+  private resolve(value: string): string {
+    return value.replace(PLACEHOLDER, (_match, name: string) => {
+      const [scope, field] = name.split('.');
+      if (scope === 'login') return TEST_USERS.login[field as keyof typeof TEST_USERS.login];
+      this.user ??= this.testData.user();
+      return String(this.user[field as keyof NewUser] ?? '');
+    });
+  }
+}
+
+/** Parses and validates every flow file in `dir`. */
+export function loadFlowFiles(dir: string): FlowFile[] {
+  const members = scanPageObjects();
+  return flowFiles(dir).map(file => parseFlowFile(file, members));
+}
@@ -0,0 +1,110 @@
+/**
+ * Heal Attachments
+ *
+ * When a test fails on drift, asks the healing strategy (HEALING_STRATEGY)
+ * for proposals while the page is still open and attaches them to the report:
+ *
+ * - `heal-proposals` (JSON): the classification and the proposals, best first
+ * - `heal-highlight` (PNG): the page with the element of the top locator
+ *   proposal outlined, or the failing element for text proposals
+ *
+ * The heal report (healing/heal-report-reporter.ts) builds its pages from
+ * them; both also show up in Playwright's HTML report.
+ *
+ * Called from the `failureSnapshot` fixture, which is torn down before
+ * `uiChanges` resets the app, so proposals and highlight come from the page
+ * the test failed on. The highlight is skipped if the page has moved on since
+ * the failure snapshot was taken.
+ */
+
+import { Page, TestInfo } from '@playwright/test';
+import { RejectionStore } from '../../healing/review';
+import { createStrategy, failureContextFrom, FailureContext, HealProposal } from '../../healing/strategy';
+import { classifyFailure, stripAnsi } from '../../healing/triage';
+import { RouteSnapshot, SnapshotDiff } from './dom-snapshot';
+import { HEALING_CONFIG } from './healing-config';
+import { parseStrategy } from './healing-locator';
+
+export interface HealProposalsAttachment {
+  category: FailureContext['category'];
+  reason: string;
+  proposals: HealProposal[];
+  /** The locator outlined on `heal-highlight`, if one was. */
+  highlighted?: string;
+}
+
+const OUTLINE_ID = '__heal-highlight';
+
+const rejections = new RejectionStore(HEALING_CONFIG.rejectedProposals);
+
+/** The locator to outline: the top locator proposal, else the one that failed. */
+function highlightCandidate(proposals: HealProposal[], context: FailureContext): string | undefined {
+  const locatorProposal = proposals.find(proposal => proposal.kind === 'locator' && parseStrategy(proposal.after));
+  return locatorProposal?.after ?? context.locator.selector;
+}
+
+/** Screenshot of the viewport with the element outlined; undefined unless exactly one element matches. */
+async function highlightScreenshot(page: Page, description: string): Promise<Buffer | undefined> {
+  const strategy = parseStrategy(description);
+  const locator = strategy?.build(page);
+  if (!locator || await locator.count() !== 1) return undefined;
+
+  const box = await locator.boundingBox();
+  if (!box) return undefined;
+
+  await page.evaluate(({ id, box }) => {
+    const outline = document.createElement('div');
+    outline.id = id;
+    Object.assign(outline.style, {
+      position: 'fixed', left: `${box.x - 4}px`, top: `${box.y - 4}px`, width: `${box.width + 8}px`, height: `${box.height + 8}px`,
+      border: '3px solid #e53935', borderRadius: '4px', boxSizing: 'border-box', pointerEvents: 'none', zIndex: '2147483647',
+    });
+    document.body.appendChild(outline);
+  }, { id: OUTLINE_ID, box });
+
+  try {
+    return await page.screenshot();
+  } finally {
+    await page.evaluate(id => document.getElementById(id)?.remove(), OUTLINE_ID);
+  }
+}
+
+/** Attaches proposals for a failed test; does nothing for failures a heal cannot fix. */
+export async function attachHealProposals(
+  page: Page,
+  testInfo: TestInfo,
+  evidence: { snapshot?: RouteSnapshot; domDiff?: SnapshotDiff }
+) {
+  const message = stripAnsi(testInfo.errors.map(error => error.message || error.value || '').join('\n\n'));
+  const annotations = testInfo.annotations;
+  const failure = { ...classifyFailure({ message, annotations }), message, annotations };
+  if (!failure.needsHealing) return;
+
+  const context = failureContextFrom({
+    test: {
+      title: testInfo.titlePath.slice(1).join(' › '),
+      file: testInfo.file,
+      line: testInfo.line,
+      project: testInfo.project.name,
+    },
+    failure,
+    ...evidence,
+  });
+
+  const strategy = createStrategy(HEALING_CONFIG.strategy, { endpoint: HEALING_CONFIG.strategyEndpoint });
+  const proposals = (await strategy.propose(context)).filter(proposal => !rejections.has(proposal));
+  const candidate = highlightCandidate(proposals, context);
+  const samePage = !evidence.snapshot || page.url() === evidence.snapshot.url;
+  const screenshot = candidate && samePage ? await highlightScreenshot(page, candidate) : undefined;
+
+  const attachment: HealProposalsAttachment = {
+    category: failure.category,
+    reason: failure.reason,
+    proposals,
+    ...(screenshot && { highlighted: candidate }),
+  };
+  await testInfo.attach('heal-proposals', { body: JSON.stringify(attachment, null, 2), contentType: 'application/json' });
+  if (screenshot) {
+    await testInfo.attach('heal-highlight', { body: screenshot, contentType: 'image/png' });
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Heal Test Data
+ *
+ * Hand-made records of the healing pipeline for the unit specs: proposals,
+ * failure contexts, history records and heal report rows. Factories take
+ * overrides for the fields a test is about and fill the rest with a failing
+ * login button on chromium.
+ *
+ *   const context = failureContext({ category: 'text-mismatch' });
+ *   reportTest(key, 'firefox', { proposals: [TEXT_PROPOSAL] });
+ */
+
+import { HealReportTest, testPageName } from '../../healing/heal-report';
+import { HistoryRecord } from '../../healing/history';
+import { FailureContext, HealProposal } from '../../healing/strategy';
+
+/** The offline strategy's fix for Change #1: the login button's new text. */
+export const TEXT_PROPOSAL: HealProposal = {
+  strategy: 'offline',
+  kind: 'text',
+  target: 'UI_TEXT.initial.loginButton',
+  before: '"Sign In"',
+  after: '"Log In Now"',
+  confidence: 0.92,
+  rationale: 'The button now reads "Log In Now".',
+};
+
+export const LOCATOR_PROPOSAL: HealProposal = {
+  strategy: 'offline',
+  kind: 'locator',
+  target: 'DashboardPage.addUserButton',
+  before: "getByTestId('add-user-button')",
+  after: "getByTestId('create-user-button')",
+  confidence: 0.95,
+  rationale: 'The DOM diff shows add-user-button renamed to create-user-button.',
+};
+
+/** A login test whose submit button click timed out. */
+export function failureContext(overrides: Partial<FailureContext> = {}): FailureContext {
+  return {
+    test: { title: 'should login successfully', file: 'tests/core-functionality.spec.ts', line: 20, project: 'chromium' },
+    category: 'locator-not-found',
+    error: "locator.click: Timeout 10000ms exceeded.\nCall log:\n  - waiting for getByTestId('login-submit')",
+    locator: {
+      pomField: 'LoginPage.submitButton',
+      strategies: ["getByTestId('login-submit')", "getByRole('button', { name: 'Sign In' })"],
+      selector: "getByTestId('login-submit')",
+    },
+    ...overrides,
+  };
+}
+
+const HOUR = 3_600_000;
+
+let run = 0;
+
+/** One test's result in a new run, an hour after the previous record. */
+export function historyRecord(test: string, status: HistoryRecord['status'], overrides: Partial<HistoryRecord> = {}): HistoryRecord {
+  run++;
+  return {
+    runId: `run-${run}`,
+    startedAt: new Date(Date.UTC(2026, 0, 1) + run * HOUR).toISOString(),
+    test,
+    project: 'chromium',
+    status,
+    ...(status === 'failed' && { category: 'locator-not-found' }),
+    scenarios: [],
+    heals: { proposed: 0, accepted: 0 },
+    targets: [],
+    ...overrides,
+  };
+}
+
+/** A failed text-mismatch row of the heal report; `key` is `file › describe › title`. */
+export function reportTest(key: string, project: string, overrides: Partial<HealReportTest> = {}): HealReportTest {
+  return {
+    key,
+    title: key.split(' › ').slice(1).join(' › '),
+    file: `tests/${key.split(' › ')[0]}`,
+    line: 10,
+    project,
+    status: 'failed',
+    category: 'text-mismatch',
+    reason: 'Expected text differs',
+    needsHealing: true,
+    proposals: [],
+    heals: [],
+    scenarios: [],
+    page: testPageName(key, project),
+    ...overrides,
+  };
+}
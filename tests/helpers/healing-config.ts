@@ -0,0 +1,73 @@
+/**
+ * Healing Configuration
+ *
+ * Centralized switches for the self-healing helpers, read from the
+ * environment so the same suite can run as baseline, healing or plain run.
+ */
+
+import path from 'path';
+
+/**
+ * - `propose` (default): on a locator miss, attach the best baseline match as
+ *   an annotation but let the test fail as usual.
+ * - `baseline`: capture a fingerprint of every POM element that resolves via
+ *   its primary selector into the fingerprint store, and a snapshot of each
+ *   route into the snapshot directory.
+ * - `heal`: like `propose`, but use the match when it is confident enough.
+ */
+export type HealingMode = 'propose' | 'baseline' | 'heal';
+
+/**
+ * In-run step healing (see step-healing.ts):
+ * - `off` (default): steps run as written.
+ * - `retry`: a step that fails on locator or text drift is retried once with
+ *   the top heal proposal; if it passes, the test goes on and is annotated
+ *   `healed`.
+ * - `strict`: the step is not retried; it fails as written, with the top
+ *   proposal annotated. Meant for CI.
+ */
+export type StepHealingMode = 'off' | 'retry' | 'strict';
+
+function readStepHealing(value: string | undefined): StepHealingMode {
+  return value === 'retry' || value === 'strict' ? value : 'off';
+}
+
+function readMode(value: string | undefined): HealingMode {
+  if (value === 'baseline' || value === 'heal') {
+    return value;
+  }
+  return 'propose';
+}
+
+export const HEALING_CONFIG = {
+  mode: readMode(process.env.HEALING_MODE),
+
+  stepHealing: readStepHealing(process.env.HEALING_STEPS),
+
+  /** Set HEALING_FALLBACKS=off to pin every HealingLocator to its primary strategy. */
+  fallbacks: process.env.HEALING_FALLBACKS !== 'off',
+
+  fingerprintStore: process.env.HEALING_STORE
+    || path.join(__dirname, '..', '..', 'healing', 'baseline', 'fingerprints.json'),
+
+  /** Baseline route snapshots (see dom-snapshot.ts), one directory per browser project. */
+  snapshotDir: process.env.HEALING_SNAPSHOTS
+    || path.join(__dirname, '..', '..', 'healing', 'baseline', 'snapshots'),
+
+  /** Append-only heal history (see healing/history.ts), kept across runs. */
+  historyFile: process.env.HEALING_HISTORY
+    || path.join(__dirname, '..', '..', 'healing', 'history', 'runs.jsonl'),
+
+  /** Heal proposals rejected in review (see healing/review.ts), never raised again. */
+  rejectedProposals: process.env.HEALING_REJECTED
+    || path.join(__dirname, '..', '..', 'healing', 'rejected-proposals.json'),
+
+  /** Proposal strategy for `npm run propose` (see healing/strategy.ts): `offline` or `http`. */
+  strategy: process.env.HEALING_STRATEGY || 'offline',
+
+  /** Proposal service the `http` strategy posts failure contexts to. */
+  strategyEndpoint: process.env.HEALING_ENDPOINT || 'http://localhost:4310/propose',
+
+  /** Minimum similarity for a fingerprint match to be used in `heal` mode. */
+  minConfidence: Number(process.env.HEALING_MIN_CONFIDENCE || 0.7),
+};
@@ -0,0 +1,367 @@
+/**
+ * Self-Healing Locators
+ *
+ * A HealingLocator is a regular Playwright Locator declared with a primary
+ * selector plus ranked fallbacks. Before every auto-waiting action or presence
+ * assertion it resolves to the first strategy that matches exactly one element
+ * and records which strategy won, so POM fields keep working (and tell us why)
+ * when the UI drifts away from the primary selector.
+ *
+ * When no strategy matches, the element's baseline fingerprint (see
+ * fingerprint.ts) is compared against the current page to propose, or in
+ * `heal` mode use, the most similar element.
+ */
+
+import { Page, Locator, test } from '@playwright/test';
+import { HEALING_CONFIG } from './healing-config';
+import { FingerprintStore, FingerprintMatch, captureFingerprint, findBestMatch } from './fingerprint';
+import { assertsAbsence, EXPECT_HOOK, expectHookSupported, LocatorExpect, locatorExpect } from './locator-expect';
+
+export type LocatorStrategyKind = 'testId' | 'role' | 'label' | 'text' | 'css' | 'fingerprint';
+
+export interface LocatorStrategy {
+  kind: LocatorStrategyKind;
+  description: string;
+  build(page: Page): Locator;
+}
+
+type RoleName = Parameters<Page['getByRole']>[0];
+type RoleOptions = Parameters<Page['getByRole']>[1];
+
+/**
+ * Strategy builders, listed from most to least stable.
+ */
+export const by = {
+  testId: (testId: string): LocatorStrategy => ({
+    kind: 'testId',
+    description: `getByTestId('${testId}')`,
+    build: page => page.getByTestId(testId),
+  }),
+
+  role: (role: RoleName, options?: RoleOptions): LocatorStrategy => ({
+    kind: 'role',
+    description: `getByRole('${role}'${options?.name ? `, { name: ${formatText(options.name)} }` : ''})`,
+    build: page => page.getByRole(role, options),
+  }),
+
+  label: (text: string | RegExp): LocatorStrategy => ({
+    kind: 'label',
+    description: `getByLabel(${formatText(text)})`,
+    build: page => page.getByLabel(text),
+  }),
+
+  text: (text: string | RegExp, options?: { exact?: boolean }): LocatorStrategy => ({
+    kind: 'text',
+    description: `getByText(${formatText(text)})`,
+    build: page => page.getByText(text, options),
+  }),
+
+  css: (selector: string): LocatorStrategy => ({
+    kind: 'css',
+    description: `locator('${selector}')`,
+    build: page => page.locator(selector),
+  }),
+
+  fingerprint: (match: FingerprintMatch): LocatorStrategy => ({
+    kind: 'fingerprint',
+    description: `locator('${match.fingerprint.domPath}') /* fingerprint match, confidence ${match.score.toFixed(2)} */`,
+    build: page => page.locator(match.fingerprint.domPath),
+  }),
+};
+
+function formatText(text: string | RegExp): string {
+  return typeof text === 'string' ? `'${text}'` : text.toString();
+}
+
+/**
+ * The strategy a description stands for, e.g. `getByRole('button', { name: 'Save' })`,
+ * as written by the builders above and by heal proposals. Regex names are not supported.
+ */
+export function parseStrategy(description: string): LocatorStrategy | undefined {
+  const quoted = `'((?:[^'\\\\]|\\\\.)*)'`;
+  const unquote = (text: string) => text.replace(/\\(.)/g, '$1');
+  const match = (pattern: string) => description.trim().match(new RegExp(`^${pattern}$`));
+
+  const testId = match(`getByTestId\\(${quoted}\\)`);
+  if (testId) return by.testId(unquote(testId[1]));
+
+  const role = match(`getByRole\\(${quoted}(?:, \\{ name: ${quoted} \\})?\\)`);
+  if (role) return by.role(unquote(role[1]) as RoleName, role[2] === undefined ? undefined : { name: unquote(role[2]) });
+
+  const label = match(`getByLabel\\(${quoted}\\)`);
+  if (label) return by.label(unquote(label[1]));
+
+  const text = match(`getByText\\(${quoted}\\)`);
+  if (text) return by.text(unquote(text[1]));
+
+  const css = match(`locator\\(${quoted}\\)`);
+  if (css) return by.css(unquote(css[1]));
+
+  return undefined;
+}
+
+export interface LocatorResolution {
+  strategy: LocatorStrategy;
+  rank: number;
+  healed: boolean;
+  /** Similarity score, only set for fingerprint matches. */
+  confidence?: number;
+}
+
+export interface HealingLocatorOptions {
+  /** How long to wait for the primary strategy before trying fallbacks. */
+  primaryTimeout?: number;
+}
+
+const DEFAULT_PRIMARY_TIMEOUT = 2000;
+
+export const fingerprintStore = new FingerprintStore(HEALING_CONFIG.fingerprintStore);
+
+/** POM fields already fingerprinted by this worker during a baseline run. */
+const capturedBaselines = new Set<string>();
+
+/**
+ * State for in-run step healing (see step-healing.ts): strategies that replace
+ * a POM field for the rest of the test, and whether a miss with a baseline
+ * match should throw right away instead of letting the action wait for the
+ * primary until the test times out.
+ */
+export const inRunHealing = {
+  overrides: new Map<string, LocatorStrategy>(),
+  failFast: false,
+};
+
+/**
+ * Auto-waiting Locator methods that act on a single element. These are the
+ * calls worth healing; multi-element and instant probes (count, isVisible...)
+ * go straight to the current locator so they keep their semantics.
+ */
+const HEALABLE_METHODS = [
+  'blur', 'boundingBox', 'check', 'clear', 'click', 'dblclick', 'dispatchEvent',
+  'dragTo', 'elementHandle', 'evaluate', 'evaluateHandle', 'fill', 'focus',
+  'getAttribute', 'hover', 'innerHTML', 'innerText', 'inputValue', 'press',
+  'pressSequentially', 'screenshot', 'scrollIntoViewIfNeeded', 'selectOption',
+  'selectText', 'setChecked', 'setInputFiles', 'tap', 'textContent', 'type',
+  'uncheck', 'waitFor',
+] as const satisfies readonly (keyof Locator)[];
+
+type HealableMethod = typeof HEALABLE_METHODS[number];
+
+function isHealableMethod(prop: PropertyKey): prop is HealableMethod {
+  return (HEALABLE_METHODS as readonly PropertyKey[]).includes(prop);
+}
+
+/**
+ * `waitFor({ state: 'hidden' })` and `'detached'` wait for the element to go
+ * away; a fallback must not stand in for it.
+ */
+function waitsForAbsence(method: HealableMethod, args: unknown[]): boolean {
+  if (method !== 'waitFor') {
+    return false;
+  }
+  const state = (args[0] as { state?: string } | undefined)?.state;
+  return state === 'hidden' || state === 'detached';
+}
+
+/** Calls a healable method on the resolved locator; the overloads differ, the call shape does not. */
+function callMethod(locator: Locator, method: HealableMethod, args: unknown[]): Promise<unknown> {
+  const fn = locator[method] as (this: Locator, ...args: unknown[]) => Promise<unknown>;
+  return fn.apply(locator, args);
+}
+
+export class LocatorResolver {
+  readonly page: Page;
+  readonly name: string;
+  readonly strategies: LocatorStrategy[];
+  readonly primary: Locator;
+  private readonly primaryTimeout: number;
+  private resolution: LocatorResolution | undefined;
+  private resolved: Locator | undefined;
+
+  constructor(page: Page, name: string, strategies: LocatorStrategy[], options: HealingLocatorOptions = {}) {
+    if (strategies.length === 0) {
+      throw new Error(`HealingLocator "${name}" needs at least one strategy`);
+    }
+
+    this.page = page;
+    this.name = name;
+    this.strategies = strategies;
+    this.primary = strategies[0].build(page);
+    this.primaryTimeout = options.primaryTimeout ?? DEFAULT_PRIMARY_TIMEOUT;
+  }
+
+  /** The strategy that won the most recent resolution, if any. */
+  get lastResolution(): LocatorResolution | undefined {
+    return this.resolution;
+  }
+
+  /** The locator sync calls are forwarded to: the last winner, else the primary. */
+  get current(): Locator {
+    return this.resolved ?? this.primary;
+  }
+
+  /** `action` is the Locator method about to run, if any. */
+  async resolve(action?: string): Promise<Locator> {
+    if (!HEALING_CONFIG.fallbacks) {
+      return this.primary;
+    }
+
+    const override = inRunHealing.overrides.get(this.name);
+    if (override) {
+      return this.accept(override, this.strategies.length, override.build(this.page));
+    }
+
+    if (this.resolved && this.resolution?.healed && await this.resolved.count() === 1) {
+      return this.resolved;
+    }
+
+    if (await this.primaryMatches()) {
+      if (HEALING_CONFIG.mode === 'baseline') {
+        await this.captureBaseline();
+      }
+      return this.accept(this.strategies[0], 0, this.primary);
+    }
+
+    for (let rank = 1; rank < this.strategies.length; rank++) {
+      const candidate = this.strategies[rank].build(this.page);
+      if (await candidate.count() === 1) {
+        return this.accept(this.strategies[rank], rank, candidate);
+      }
+    }
+
+    const match = await this.matchBaseline();
+    if (match) {
+      const strategy = by.fingerprint(match);
+      annotate('healing-proposal', `${this.name}: no strategy matched, closest baseline element is ${strategy.description}`);
+
+      if (HEALING_CONFIG.mode === 'heal' && match.score >= HEALING_CONFIG.minConfidence) {
+        return this.accept(strategy, this.strategies.length, strategy.build(this.page), match.score);
+      }
+    }
+
+    // Nothing matched uniquely: let the primary produce Playwright's usual
+    // error, and record which POM field it was for the failure context.
+    annotate('healing-miss', `${this.name}: ${this.strategies.map(strategy => strategy.description).join(' | ')}`);
+
+    // Inside a healing step, an element the baseline still recognizes is
+    // worth a retry: stop now so it happens in time. Without a match the
+    // action keeps its own timeout and error.
+    if (inRunHealing.failFast && action && match) {
+      throw new Error(`locator.${action}: no strategy of ${this.name} matched within ${this.primaryTimeout}ms `
+        + `(stopped early for step healing)\n  - waiting for ${this.strategies[0].description}`);
+    }
+    return this.primary;
+  }
+
+  /**
+   * Records the primary element's fingerprint in the baseline store, once
+   * per worker. Callers must make sure the primary is attached.
+   */
+  async captureBaseline(): Promise<void> {
+    if (capturedBaselines.has(this.name)) {
+      return;
+    }
+    capturedBaselines.add(this.name);
+    await fingerprintStore.record(this.name, this.page.url(), await captureFingerprint(this.primary));
+  }
+
+  /** Scores the current page against the stored fingerprint, if there is one. */
+  async matchBaseline(): Promise<FingerprintMatch | undefined> {
+    const entry = fingerprintStore.get(this.name);
+    if (!entry) {
+      return undefined;
+    }
+    return await findBestMatch(this.page, entry.fingerprint);
+  }
+
+  private async primaryMatches(): Promise<boolean> {
+    try {
+      await this.primary.waitFor({ state: 'attached', timeout: this.primaryTimeout });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private accept(strategy: LocatorStrategy, rank: number, locator: Locator, confidence?: number): Locator {
+    const healed = rank > 0;
+    const changed = this.resolution?.strategy.description !== strategy.description;
+
+    this.resolution = { strategy, rank, healed, confidence };
+    this.resolved = locator;
+
+    if (healed && changed) {
+      annotate(
+        'healing-locator',
+        `${this.name}: ${this.strategies[0].description} missed, resolved with ${strategy.description}`
+      );
+    }
+
+    return locator;
+  }
+}
+
+function annotate(type: string, description: string) {
+  try {
+    test.info().annotations.push({ type, description });
+  } catch {
+    // Not inside a running test (e.g. global setup) - nothing to annotate.
+  }
+}
+
+export type HealingLocator = Locator & { readonly healing: LocatorResolver };
+
+export function isHealingLocator(locator: Locator): locator is HealingLocator {
+  return (locator as Partial<HealingLocator>).healing instanceof LocatorResolver;
+}
+
+/**
+ * Declares a POM field. The first strategy is the primary selector, the rest
+ * are ranked fallbacks. The returned object is a drop-in Locator, including
+ * for `expect(...)` matchers.
+ */
+export function healingLocator(
+  page: Page,
+  name: string,
+  strategies: LocatorStrategy[],
+  options?: HealingLocatorOptions
+): HealingLocator {
+  const resolver = new LocatorResolver(page, name, strategies, options);
+
+  return new Proxy(resolver.primary, {
+    get(_target, prop) {
+      if (prop === 'healing') {
+        return resolver;
+      }
+
+      if (isHealableMethod(prop)) {
+        return async (...args: unknown[]) => {
+          const locator = waitsForAbsence(prop, args) ? resolver.current : await resolver.resolve(prop);
+          return callMethod(locator, prop, args);
+        };
+      }
+
+      // expect() matchers funnel through the private _expect() (see
+      // locator-expect.ts). Absence assertions (toBeHidden, toHaveCount(0),
+      // not.toBeVisible...) are never healed, otherwise they could pass or
+      // fail on the wrong element.
+      if (prop === EXPECT_HOOK && expectHookSupported) {
+        const hook: LocatorExpect = async (expression, options) => {
+          const locator = assertsAbsence(expression, options) ? resolver.current : await resolver.resolve();
+          return locatorExpect(locator)(expression, options);
+        };
+        return hook;
+      }
+
+      const current = resolver.current;
+      const value = Reflect.get(current, prop, current);
+
+      // expect() checks `constructor.name === 'Locator'`, so never bind it.
+      if (typeof value === 'function' && prop !== 'constructor') {
+        return value.bind(current);
+      }
+
+      return value;
+    },
+  }) as HealingLocator;
+}
@@ -0,0 +1,77 @@
+/**
+ * Locator Expect Hook
+ *
+ * expect() matchers on a Locator funnel through Locator's private
+ * `_expect(expression, options)`, e.g. `_expect('to.have.text', { isNot,
+ * expectedText, timeout })`. HealingLocator intercepts it so assertions heal
+ * like actions do. This is the only Playwright private API the suite uses,
+ * and this module is the only place that touches it.
+ *
+ * The hook is checked against the installed Playwright: on a version outside
+ * the range it was verified with, it is disabled with a warning and
+ * assertions run on the primary locator unhealed. If `_expect` itself is
+ * gone, the assertion fails with a pointer to this file.
+ */
+
+import fs from 'fs';
+import { Locator } from '@playwright/test';
+
+/** The options fields the healing decision reads; Playwright passes more. */
+export interface LocatorExpectOptions {
+  isNot: boolean;
+  expectedNumber?: number;
+  [option: string]: unknown;
+}
+
+export type LocatorExpect = (expression: string, options: LocatorExpectOptions) => Promise<unknown>;
+
+export const EXPECT_HOOK = '_expect';
+
+/** Playwright versions the hook's signature was checked against. */
+const SUPPORTED_VERSIONS = { major: 1, minMinor: 40, maxMinor: 56 };
+
+function playwrightVersion(): string {
+  const manifest = require.resolve('@playwright/test/package.json');
+  return (JSON.parse(fs.readFileSync(manifest, 'utf-8')) as { version: string }).version;
+}
+
+function checkSupport(): boolean {
+  const version = playwrightVersion();
+  const [major, minor] = version.split('.').map(Number);
+  const { major: wantedMajor, minMinor, maxMinor } = SUPPORTED_VERSIONS;
+
+  if (major !== wantedMajor || minor < minMinor || minor > maxMinor) {
+    console.warn(`Playwright ${version} is outside ${wantedMajor}.${minMinor}-${wantedMajor}.${maxMinor}; `
+      + `HealingLocator assertions run unhealed until locator-expect.ts is checked against it`);
+    return false;
+  }
+  return true;
+}
+
+/** Whether HealingLocator may intercept `_expect` with the installed Playwright. */
+export const expectHookSupported = checkSupport();
+
+/** Matchers that pass when the element is gone: toBeHidden, toBeDetached (`toBeAttached({ attached: false })`), toHaveCount(0). */
+function isAbsenceMatcher(expression: string, options: LocatorExpectOptions): boolean {
+  return expression === 'to.be.hidden'
+    || expression === 'to.be.detached'
+    || (expression === 'to.have.count' && options.expectedNumber === 0);
+}
+
+/**
+ * Whether the assertion can pass on a missing element: an absence matcher,
+ * or a negated presence matcher (`not.toBeVisible()`). `not.toBeHidden()`
+ * asserts presence.
+ */
+export function assertsAbsence(expression: string, options: LocatorExpectOptions): boolean {
+  return options.isNot !== isAbsenceMatcher(expression, options);
+}
+
+/** The locator's `_expect`, bound to it; throws if this Playwright has none. */
+export function locatorExpect(locator: Locator): LocatorExpect {
+  const hook: unknown = Reflect.get(locator, EXPECT_HOOK);
+  if (typeof hook !== 'function') {
+    throw new Error(`Locator.${EXPECT_HOOK} is missing in this Playwright version; see tests/helpers/locator-expect.ts`);
+  }
+  return (expression, options) => Promise.resolve(hook.call(locator, expression, options));
+}
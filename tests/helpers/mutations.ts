@@ -0,0 +1,206 @@
+/**
+ * DOM Mutation Engine
+ *
+ * Mutation testing for selectors: an init script rewrites the app's DOM as
+ * it renders (new text, an extra table column, reordered siblings, extra
+ * wrappers, renamed test ids, different tags, late rendering) without
+ * touching the app. A test that still passes under a mutation survived it;
+ * one that fails was killed, which points at a locator that needs hardening.
+ *
+ * The mutations active for a run are read from MUTATIONS, e.g.
+ *   MUTATIONS=button-text,wrap-fields npm test
+ * `npm run mutate` runs the suite under each one and writes the matrix.
+ */
+
+export type Mutation =
+  | { kind: 'text'; selector: string; text: string }
+  | { kind: 'insert-column'; selector: string; header: string; value: string; at: number }
+  | { kind: 'reorder'; selector: string }
+  | { kind: 'wrap'; selector: string; tag: string }
+  | { kind: 'rename-testid'; from: string; to: string }
+  | { kind: 'retag'; selector: string; tag: string }
+  | { kind: 'delay'; selector: string; ms: number };
+
+export type MutationId =
+  | 'button-text'
+  | 'table-column'
+  | 'reorder-siblings'
+  | 'wrap-fields'
+  | 'rename-testids'
+  | 'retag-titles'
+  | 'delay-table';
+
+export interface MutationSpec {
+  id: MutationId;
+  description: string;
+  mutations: Mutation[];
+}
+
+export const MUTATIONS: Record<MutationId, MutationSpec> = {
+  'button-text': {
+    id: 'button-text',
+    description: 'Login, save and add-user buttons get new labels',
+    mutations: [
+      { kind: 'text', selector: '[data-testid="login-submit"]', text: 'Continue' },
+      { kind: 'text', selector: '[data-testid="save-button"]', text: 'Submit' },
+      { kind: 'text', selector: '[data-testid="add-user-button"]', text: 'New Member' },
+    ],
+  },
+  'table-column': {
+    id: 'table-column',
+    description: 'Unlabelled Status column inserted second in the user table',
+    mutations: [
+      { kind: 'insert-column', selector: '[data-testid="user-table"]', header: 'Status', value: 'Active', at: 1 },
+    ],
+  },
+  'reorder-siblings': {
+    id: 'reorder-siblings',
+    description: 'User table columns and navigation links in reverse order',
+    mutations: [
+      { kind: 'reorder', selector: '[data-testid="user-table"] tr' },
+      { kind: 'reorder', selector: 'nav' },
+    ],
+  },
+  'wrap-fields': {
+    id: 'wrap-fields',
+    description: 'Every form control and button wrapped in an extra <div>',
+    mutations: [
+      { kind: 'wrap', selector: 'form input, form select, form button', tag: 'div' },
+    ],
+  },
+  'rename-testids': {
+    id: 'rename-testids',
+    description: 'save-button and profile-link test ids renamed',
+    mutations: [
+      { kind: 'rename-testid', from: 'save-button', to: 'submit-button' },
+      { kind: 'rename-testid', from: 'profile-link', to: 'account-link' },
+    ],
+  },
+  'retag-titles': {
+    id: 'retag-titles',
+    description: 'Page and modal titles rendered as <div> instead of headings',
+    mutations: [
+      { kind: 'retag', selector: 'h1, h2', tag: 'div' },
+    ],
+  },
+  'delay-table': {
+    id: 'delay-table',
+    description: 'User table hidden for 2s after it renders',
+    mutations: [
+      { kind: 'delay', selector: '[data-testid="user-table"]', ms: 2000 },
+    ],
+  },
+};
+
+/**
+ * Runs inside the browser as an init script, so it must stay self-contained:
+ * no imports and no references to module scope. Mutations are re-applied
+ * whenever the app renders; each element is mutated at most once per
+ * mutation.
+ */
+export function installMutations(mutations: Mutation[]) {
+  const done = mutations.map(() => new WeakSet<Element>());
+  const hideUntil = new Map<number, number>();
+
+  const retag = (el: Element, tag: string): Element => {
+    const replacement = document.createElement(tag);
+    for (const attribute of Array.from(el.attributes)) {
+      replacement.setAttribute(attribute.name, attribute.value);
+    }
+    replacement.append(...Array.from(el.childNodes));
+    // Listeners stay on the original element, so forward clicks to it.
+    replacement.addEventListener('click', event => {
+      event.preventDefault();
+      if (el.getAttribute('type') === 'submit') {
+        replacement.closest('form')?.requestSubmit();
+      } else {
+        (el as HTMLElement).click();
+      }
+    });
+    el.replaceWith(replacement);
+    return replacement;
+  };
+
+  const mutate = (mutation: Mutation, index: number, el: Element) => {
+    switch (mutation.kind) {
+      case 'text':
+        el.textContent = mutation.text;
+        break;
+      case 'insert-column': {
+        const cell = document.createElement(el.closest('thead') ? 'th' : 'td');
+        cell.textContent = el.closest('thead') ? mutation.header : mutation.value;
+        el.insertBefore(cell, el.children[mutation.at] || null);
+        break;
+      }
+      case 'reorder':
+        Array.from(el.children).reverse().forEach(child => el.appendChild(child));
+        break;
+      case 'wrap': {
+        const wrapper = document.createElement(mutation.tag);
+        el.replaceWith(wrapper);
+        wrapper.appendChild(el);
+        break;
+      }
+      case 'rename-testid':
+        el.setAttribute('data-testid', mutation.to);
+        break;
+      case 'retag':
+        done[index].add(retag(el, mutation.tag));
+        break;
+      case 'delay': {
+        const until = hideUntil.get(index) ?? Date.now() + mutation.ms;
+        hideUntil.set(index, until);
+        if (Date.now() < until) {
+          const element = el as HTMLElement;
+          const display = element.style.display;
+          element.style.display = 'none';
+          setTimeout(() => { element.style.display = display; }, until - Date.now());
+        }
+        break;
+      }
+    }
+  };
+
+  const selectorOf = (mutation: Mutation): string => {
+    if (mutation.kind === 'rename-testid') return `[data-testid="${mutation.from}"]`;
+    if (mutation.kind === 'insert-column') return `${mutation.selector} tr`;
+    return mutation.selector;
+  };
+
+  const observer = new MutationObserver(() => apply());
+
+  function apply() {
+    // Our own edits must not trigger another pass.
+    observer.disconnect();
+
+    mutations.forEach((mutation, index) => {
+      for (const el of Array.from(document.querySelectorAll(selectorOf(mutation)))) {
+        if (done[index].has(el)) continue;
+        done[index].add(el);
+        mutate(mutation, index, el);
+      }
+    });
+
+    observer.observe(document, { childList: true, subtree: true });
+  }
+
+  apply();
+}
+
+export function isMutationId(id: string): id is MutationId {
+  return Object.prototype.hasOwnProperty.call(MUTATIONS, id);
+}
+
+export function parseMutationIds(value: string | undefined): MutationId[] {
+  const ids = (value || '').split(',').map(id => id.trim()).filter(Boolean);
+  const unknown = ids.filter(id => !isMutationId(id));
+
+  if (unknown.length) {
+    throw new Error(`Unknown mutation(s): ${unknown.join(', ')}. Known: ${Object.keys(MUTATIONS).join(', ')}`);
+  }
+
+  return ids as MutationId[];
+}
+
+/** Mutations injected into every page for this run (MUTATIONS). */
+export const ACTIVE_MUTATIONS = parseMutationIds(process.env.MUTATIONS);
@@ -3,23 +3,52 @@
  * 
  * These POMs provide a clean interface for interacting with pages,
  * making tests more maintainable and easier to heal when UI changes.
+ *
+ * The `// #region generated` blocks are rewritten by `npm run generate:poms`
+ * (see healing/pom-generator.ts); edit everything around them by hand.
  */
 
 import { Page, Locator } from '@playwright/test';
+import { HealingLocator, healingLocator, by } from './healing-locator';
+import { DataTable } from './data-table';
+import { User } from './test-data';
+import { EXPECTED_UI, UI_CHANGE_SCENARIOS, UiScenarioId, expectedTestId } from './ui-scenarios';
+
+/** Test id strategy that follows ids renamed by the active UI change scenarios. */
+const testId = (id: string) => by.testId(expectedTestId(id));
 
 export class LoginPage {
   readonly page: Page;
-  readonly emailInput: Locator;
-  readonly passwordInput: Locator;
-  readonly submitButton: Locator;
-  readonly loginTitle: Locator;
+  readonly emailInput: HealingLocator;
+  readonly passwordInput: HealingLocator;
+  readonly submitButton: HealingLocator;
+  readonly loginTitle: HealingLocator;
+  // #region generated fields
+  // #endregion generated fields
 
   constructor(page: Page) {
     this.page = page;
-    this.emailInput = page.getByTestId('email-input');
-    this.passwordInput = page.getByTestId('password-input');
-    this.submitButton = page.getByTestId('login-submit');
-    this.loginTitle = page.getByTestId('login-title');
+    this.emailInput = healingLocator(page, 'LoginPage.emailInput', [
+      testId('email-input'),
+      by.label(/email/i),
+      by.css('input[type="email"]'),
+    ]);
+    this.passwordInput = healingLocator(page, 'LoginPage.passwordInput', [
+      testId('password-input'),
+      by.label(/password/i),
+      by.css('input[type="password"]'),
+    ]);
+    this.submitButton = healingLocator(page, 'LoginPage.submitButton', [
+      testId('login-submit'),
+      by.role('button', { name: /sign in|log in/i }),
+      by.css('form button[type="submit"]'),
+    ]);
+    this.loginTitle = healingLocator(page, 'LoginPage.loginTitle', [
+      testId('login-title'),
+      by.role('heading', { level: 1 }),
+    ]);
+    // #region generated constructor
+    // #endregion generated constructor
   }
 
   async goto() {
@@ -35,23 +64,86 @@ export class LoginPage {
   async getSubmitButtonText(): Promise<string> {
     return await this.submitButton.textContent() || '';
   }
+
+  // #region generated methods
+  // #endregion generated methods
 }
 
 export class DashboardPage {
   readonly page: Page;
-  readonly dashboardTitle: Locator;
-  readonly addUserButton: Locator;
-  readonly userTable: Locator;
-  readonly profileLink: Locator;
-  readonly logoutButton: Locator;
+  readonly dashboardTitle: HealingLocator;
+  readonly addUserButton: HealingLocator;
+  readonly userTable: HealingLocator;
+  readonly profileLink: HealingLocator;
+  readonly logoutButton: HealingLocator;
+  readonly table: DataTable<User>;
+  /** Shown when loading or deleting users fails. */
+  readonly usersError: Locator;
+  // #region generated fields
+  /** <th> "Name" */
+  readonly headerName: HealingLocator;
+  /** <th> "Email" */
+  readonly headerEmail: HealingLocator;
+  /** <th> "Role" */
+  readonly headerRole: HealingLocator;
+  /** <th> "Actions" */
+  readonly headerActions: HealingLocator;
+  // #endregion generated fields
 
   constructor(page: Page) {
     this.page = page;
-    this.dashboardTitle = page.getByTestId('dashboard-title');
-    this.addUserButton = page.getByTestId('add-user-button');
-    this.userTable = page.getByTestId('user-table');
-    this.profileLink = page.getByTestId('profile-link');
-    this.logoutButton = page.getByTestId('logout-button');
+    this.dashboardTitle = healingLocator(page, 'DashboardPage.dashboardTitle', [
+      testId('dashboard-title'),
+      by.role('heading', { name: /dashboard/i }),
+    ]);
+    this.addUserButton = healingLocator(page, 'DashboardPage.addUserButton', [
+      testId('add-user-button'),
+      by.role('button', { name: /add (user|member)/i }),
+      by.text(/add (user|member)/i),
+    ]);
+    this.userTable = healingLocator(page, 'DashboardPage.userTable', [
+      testId('user-table'),
+      by.role('table'),
+      by.css('table:has(thead)'),
+    ]);
+    this.profileLink = healingLocator(page, 'DashboardPage.profileLink', [
+      testId('profile-link'),
+      by.role('link', { name: /profile/i }),
+      by.css('a[href$="/profile"]'),
+    ]);
+    this.logoutButton = healingLocator(page, 'DashboardPage.logoutButton', [
+      testId('logout-button'),
+      by.role('button', { name: /log ?out|sign out/i }),
+    ]);
+    this.table = new DataTable<User>(this.userTable, {
+      rowTestIdPrefix: 'user-row-',
+      toRecord: (rowKey, cells) => ({
+        id: Number(rowKey),
+        name: cells.name,
+        email: cells.email,
+        role: cells.role,
+        ...(cells.department !== undefined && { department: cells.department }),
+      }),
+    });
+    this.usersError = page.getByTestId('users-error');
+    // #region generated constructor
+    this.headerName = healingLocator(page, 'DashboardPage.headerName', [
+      testId('header-name'),
+      by.role('cell', { name: 'Name' }),
+    ]);
+    this.headerEmail = healingLocator(page, 'DashboardPage.headerEmail', [
+      testId('header-email'),
+      by.role('cell', { name: 'Email' }),
+    ]);
+    this.headerRole = healingLocator(page, 'DashboardPage.headerRole', [
+      testId('header-role'),
+      by.role('cell', { name: 'Role' }),
+    ]);
+    this.headerActions = healingLocator(page, 'DashboardPage.headerActions', [
+      testId('header-actions'),
+      by.role('cell', { name: 'Actions' }),
+    ]);
+    // #endregion generated constructor
   }
 
   async goto() {
@@ -68,50 +160,92 @@ export class DashboardPage {
 
   async clickDeleteUser(userId: number) {
     // Note: Dialog must be handled by the test before calling this method
-    // Use: page.once('dialog', dialog => dialog.accept());
+    // Use UserManagement.clickDelete(), or deleteUser(), which also checks it
     await this.page.getByTestId(`delete-user-${userId}`).click();
   }
 
+  async logout() {
+    const menu = EXPECTED_UI.menus['logout-button'];
+    if (menu) {
+      await this.page.getByTestId(menu).click();
+    }
+    await this.logoutButton.click();
+  }
+
   async getUserCount(): Promise<number> {
+    // The table may render after the page (see the delayed-rendering scenario).
+    await this.userTable.waitFor();
     const rows = this.page.locator('[data-testid^="user-row-"]');
     return await rows.count();
   }
 
+  /** @fragile structural-selector every header in display order, so comparing it breaks when a column is added */
   async getTableHeaders(): Promise<string[]> {
-    const headers = this.page.locator('thead th');
-    const count = await headers.count();
-    const headerTexts: string[] = [];
-    
-    for (let i = 0; i < count; i++) {
-      const text = await headers.nth(i).textContent();
-      headerTexts.push(text?.trim() || '');
-    }
-    
-    return headerTexts;
+    return await this.table.columnHeaders();
   }
+
+  // #region generated methods
+  // #endregion generated methods
 }
 
 export class UserModal {
   readonly page: Page;
-  readonly modalBackdrop: Locator;
-  readonly modalTitle: Locator;
-  readonly nameInput: Locator;
-  readonly emailInput: Locator;
-  readonly departmentInput: Locator;
-  readonly roleSelect: Locator;
-  readonly saveButton: Locator;
-  readonly cancelButton: Locator;
+  readonly modalBackdrop: HealingLocator;
+  readonly modalTitle: HealingLocator;
+  readonly nameInput: HealingLocator;
+  readonly emailInput: HealingLocator;
+  readonly departmentInput: HealingLocator;
+  readonly roleSelect: HealingLocator;
+  readonly saveButton: HealingLocator;
+  readonly cancelButton: HealingLocator;
+  /** Only rendered after a failed save, so it is not a healing (baseline-captured) field. */
+  readonly formError: Locator;
+  // #region generated fields
+  // #endregion generated fields
 
   constructor(page: Page) {
     this.page = page;
-    this.modalBackdrop = page.getByTestId('modal-backdrop');
-    this.modalTitle = page.getByTestId('modal-title');
-    this.nameInput = page.getByTestId('name-input');
-    this.emailInput = page.getByTestId('email-input');
-    this.departmentInput = page.getByTestId('department-input');
-    this.roleSelect = page.getByTestId('role-select');
-    this.saveButton = page.getByTestId('save-button');
-    this.cancelButton = page.getByTestId('cancel-button');
+    this.modalBackdrop = healingLocator(page, 'UserModal.modalBackdrop', [
+      testId('modal-backdrop'),
+      by.css('.modal-backdrop'),
+    ]);
+    this.modalTitle = healingLocator(page, 'UserModal.modalTitle', [
+      testId('modal-title'),
+      by.text(/user information|team member/i),
+      by.css('.modal h2, .modal h3'),
+    ]);
+    this.nameInput = healingLocator(page, 'UserModal.nameInput', [
+      testId('name-input'),
+      by.label(/name/i),
+      by.css('input[name="name"]'),
+    ]);
+    this.emailInput = healingLocator(page, 'UserModal.emailInput', [
+      testId('email-input'),
+      by.label(/email/i),
+      by.css('input[name="email"]'),
+    ]);
+    this.departmentInput = healingLocator(page, 'UserModal.departmentInput', [
+      testId('department-input'),
+      by.label(/department/i),
+      by.css('input[name="department"]'),
+    ]);
+    this.roleSelect = healingLocator(page, 'UserModal.roleSelect', [
+      testId('role-select'),
+      by.label(/role/i),
+      by.css('select[name="role"]'),
+    ]);
+    this.saveButton = healingLocator(page, 'UserModal.saveButton', [
+      testId('save-button'),
+      by.role('button', { name: /save/i }),
+    ]);
+    this.cancelButton = healingLocator(page, 'UserModal.cancelButton', [
+      testId('cancel-button'),
+      by.role('button', { name: /cancel/i }),
+      by.role('link', { name: /cancel/i }),
+    ]);
+    this.formError = page.getByTestId('form-error');
+    // #region generated constructor
+    // #endregion generated constructor
   }
 
   async fillForm(data: {
@@ -120,7 +254,7 @@ export class UserModal {
     department?: string;
     role?: string;
   }) {
-    await this.nameInput.fill(data.name);
+    await this.fillName(data.name);
     await this.emailInput.fill(data.email);
     
     if (data.department) {
@@ -132,6 +266,19 @@ export class UserModal {
     }
   }
 
+  /** Fills the name, or its first/last parts when the split-name-field scenario is active. */
+  async fillName(name: string) {
+    const parts = EXPECTED_UI.splitFields['name-input'];
+    if (!parts) {
+      await this.nameInput.fill(name);
+      return;
+    }
+
+    const [first, ...rest] = name.split(' ');
+    await this.page.getByTestId(parts[0]).fill(first);
+    await this.page.getByTestId(parts[1]).fill(rest.join(' '));
+  }
+
   async save() {
     await this.saveButton.click();
   }
@@ -147,47 +294,104 @@ export class UserModal {
   async getModalTitle(): Promise<string> {
     return await this.modalTitle.textContent() || '';
   }
+
+  // #region generated methods
+  // #endregion generated methods
 }
 
 export class ProfilePage {
   readonly page: Page;
-  readonly profileTitle: Locator;
-  readonly profileName: Locator;
-  readonly profileEmail: Locator;
-  readonly dashboardLink: Locator;
-  readonly logoutButton: Locator;
+  readonly profileTitle: HealingLocator;
+  readonly profileName: HealingLocator;
+  readonly profileEmail: HealingLocator;
+  readonly dashboardLink: HealingLocator;
+  readonly logoutButton: HealingLocator;
+  // #region generated fields
+  // #endregion generated fields
 
   constructor(page: Page) {
     this.page = page;
-    this.profileTitle = page.getByTestId('profile-title');
-    this.profileName = page.getByTestId('profile-name');
-    this.profileEmail = page.getByTestId('profile-email');
-    this.dashboardLink = page.getByTestId('dashboard-link');
-    this.logoutButton = page.getByTestId('logout-button');
+    this.profileTitle = healingLocator(page, 'ProfilePage.profileTitle', [
+      testId('profile-title'),
+      by.role('heading', { name: /profile/i }),
+    ]);
+    this.profileName = healingLocator(page, 'ProfilePage.profileName', [
+      testId('profile-name'),
+    ]);
+    this.profileEmail = healingLocator(page, 'ProfilePage.profileEmail', [
+      testId('profile-email'),
+    ]);
+    this.dashboardLink = healingLocator(page, 'ProfilePage.dashboardLink', [
+      testId('dashboard-link'),
+      by.role('link', { name: /dashboard/i }),
+      by.css('a[href$="/dashboard"]'),
+    ]);
+    this.logoutButton = healingLocator(page, 'ProfilePage.logoutButton', [
+      testId('logout-button'),
+      by.role('button', { name: /log ?out|sign out/i }),
+    ]);
+    // #region generated constructor
+    // #endregion generated constructor
   }
 
   async goto() {
     await this.page.goto('/profile');
   }
+
+  // #region generated methods
+  // #endregion generated methods
 }
 
 export class DevToolsPage {
   readonly page: Page;
-  readonly devToolsTitle: Locator;
-  readonly applyChange1Button: Locator;
-  readonly applyChange2Button: Locator;
-  readonly applyChange3Button: Locator;
-  readonly resetChangesButton: Locator;
-  readonly changeLog: Locator;
+  readonly devToolsTitle: HealingLocator;
+  readonly applyChange1Button: HealingLocator;
+  readonly applyChange2Button: HealingLocator;
+  readonly applyChange3Button: HealingLocator;
+  readonly resetChangesButton: HealingLocator;
+  readonly changeLog: HealingLocator;
+  // #region generated fields
+  /** <a> "Go to Login" */
+  readonly navToLogin: HealingLocator;
+  /** <a> "Go to Dashboard" */
+  readonly navToDashboard: HealingLocator;
+  // #endregion generated fields
 
   constructor(page: Page) {
     this.page = page;
-    this.devToolsTitle = page.getByTestId('dev-tools-title');
-    this.applyChange1Button = page.getByTestId('apply-change-1');
-    this.applyChange2Button = page.getByTestId('apply-change-2');
-    this.applyChange3Button = page.getByTestId('apply-change-3');
-    this.resetChangesButton = page.getByTestId('reset-changes');
-    this.changeLog = page.getByTestId('change-log');
+    this.devToolsTitle = healingLocator(page, 'DevToolsPage.devToolsTitle', [
+      testId('dev-tools-title'),
+      by.role('heading', { name: /dev tools/i }),
+    ]);
+    this.applyChange1Button = healingLocator(page, 'DevToolsPage.applyChange1Button', [
+      testId('apply-change-1'),
+      by.role('button', { name: /change #?1/i }),
+    ]);
+    this.applyChange2Button = healingLocator(page, 'DevToolsPage.applyChange2Button', [
+      testId('apply-change-2'),
+      by.role('button', { name: /change #?2/i }),
+    ]);
+    this.applyChange3Button = healingLocator(page, 'DevToolsPage.applyChange3Button', [
+      testId('apply-change-3'),
+      by.role('button', { name: /change #?3/i }),
+    ]);
+    this.resetChangesButton = healingLocator(page, 'DevToolsPage.resetChangesButton', [
+      testId('reset-changes'),
+      by.role('button', { name: /reset/i }),
+    ]);
+    this.changeLog = healingLocator(page, 'DevToolsPage.changeLog', [
+      testId('change-log'),
+    ]);
+    // #region generated constructor
+    this.navToLogin = healingLocator(page, 'DevToolsPage.navToLogin', [
+      testId('nav-to-login'),
+      by.role('link', { name: 'Go to Login' }),
+    ]);
+    this.navToDashboard = healingLocator(page, 'DevToolsPage.navToDashboard', [
+      testId('nav-to-dashboard'),
+      by.role('link', { name: 'Go to Dashboard' }),
+    ]);
+    // #endregion generated constructor
   }
 
   async goto() {
@@ -210,8 +414,20 @@ export class DevToolsPage {
     await this.resetChangesButton.click();
   }
 
+  /** The /dev control that applies a UI change scenario. */
+  scenarioControl(id: UiScenarioId): Locator {
+    return this.page.getByTestId(`apply-change-${UI_CHANGE_SCENARIOS[id].mutation.change}`);
+  }
+
+  async applyScenario(id: UiScenarioId) {
+    await this.scenarioControl(id).click();
+  }
+
   async getChangeLogText(): Promise<string> {
     return await this.changeLog.textContent() || '';
   }
+
+  // #region generated methods
+  // #endregion generated methods
 }
 
@@ -0,0 +1,61 @@
+/**
+ * String Similarity Helpers
+ *
+ * Small, dependency-free scoring functions shared by the healing helpers.
+ * Every score is normalized to the 0..1 range (1 = identical).
+ */
+
+export function normalizeText(value: string | null | undefined): string {
+  return (value || '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(current[j - 1] + 1, previous[j] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/** Edit-distance similarity, case and whitespace insensitive. */
+export function textSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+
+  if (!left && !right) return 1;
+  if (!left || !right) return 0;
+
+  return 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+}
+
+/** Jaccard index of two sets of tokens. */
+export function jaccard(a: Iterable<string>, b: Iterable<string>): number {
+  const left = new Set(a);
+  const right = new Set(b);
+
+  if (!left.size && !right.size) return 1;
+
+  let shared = 0;
+  for (const item of left) {
+    if (right.has(item)) shared++;
+  }
+
+  return shared / (left.size + right.size - shared);
+}
+
+/** Token overlap of two phrases, useful when words are reordered or added. */
+export function tokenSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const tokens = (value: string | null | undefined) => normalizeText(value).split(/[^a-z0-9]+/).filter(Boolean);
+  return jaccard(tokens(a), tokens(b));
+}
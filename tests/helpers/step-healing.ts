@@ -0,0 +1,249 @@
+/**
+ * In-Run Step Healing
+ *
+ * With HEALING_STEPS=retry, a `test.step` that fails on locator or text drift
+ * asks the healing strategy (HEALING_STRATEGY, see healing/strategy.ts) for
+ * proposals and retries the step once with the top one applied:
+ *
+ * - `locator` proposals for a POM field replace that field's strategies for
+ *   the rest of the test
+ * - `text` proposals for a `UI_TEXT` constant replace its value for the rest
+ *   of the test
+ *
+ * If the retry passes, the test goes on and is annotated `healed` with the
+ * original and replacement locator. HEALING_STEPS=strict (for CI) does not
+ * re-run the step: it fails with the original error and annotates the
+ * proposal as `healing-proposal`, so a real bug is never masked and no step
+ * side effect runs twice. Every proposal is attached to the test as
+ * `step-heals` (JSON).
+ *
+ * Proposals below HEALING_MIN_CONFIDENCE, proposals rejected in review (see
+ * healing/review.ts), failures that do not look like drift, and proposals for
+ * raw spec locators are not retried. If the strategy itself fails, the step
+ * fails with its original error and the strategy error is annotated as
+ * `healing-error`.
+ */
+
+import { Location, Page, TestInfo, TestStepInfo, TestType } from '@playwright/test';
+import { RejectionStore } from '../../healing/review';
+import { createStrategy, failureContextFrom, HealingStrategy, HealProposal } from '../../healing/strategy';
+import { classifyFailure, stripAnsi } from '../../healing/triage';
+import { captureRouteSnapshot, diffSnapshots, routeOf, SnapshotStore } from './dom-snapshot';
+import { HEALING_CONFIG, StepHealingMode } from './healing-config';
+import { inRunHealing, parseStrategy } from './healing-locator';
+import { UI_TEXT } from './test-data';
+
+export interface StepHeal {
+  step: string;
+  proposal: HealProposal;
+  /** Whether the step passed with the proposal applied; unset in strict mode, which does not retry. */
+  passed?: boolean;
+  /** Why the step failed in the first place. */
+  error: string;
+}
+
+/** The parts of TestInfo a healer reads and reports to. */
+export type StepTestInfo = Pick<TestInfo, 'annotations' | 'attach' | 'titlePath' | 'file' | 'line' | 'project'>;
+
+type StepFunction = TestType<{}, {}>['step'];
+type StepOptions = { box?: boolean; location?: Location; timeout?: number };
+
+const HEALED_CATEGORIES = ['locator-not-found', 'text-mismatch'];
+
+const snapshotStore = new SnapshotStore(HEALING_CONFIG.snapshotDir);
+const rejections = new RejectionStore(HEALING_CONFIG.rejectedProposals);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/** Sets a `UI_TEXT.<path>` value; returns a function that restores the old one. */
+function overrideUiText(target: string, value: unknown): (() => void) | undefined {
+  const [root, ...keys] = target.split('.');
+  const last = keys.pop();
+  let node: unknown = root === 'UI_TEXT' ? UI_TEXT : undefined;
+  for (const key of keys) {
+    node = isRecord(node) ? node[key] : undefined;
+  }
+  if (!last || !isRecord(node) || !(last in node)) {
+    return undefined;
+  }
+
+  const parent = node;
+  const previous = parent[last];
+  parent[last] = value;
+  return () => { parent[last] = previous; };
+}
+
+export class StepHealer {
+  /** The healer of the running test, set by the `stepHealing` fixture. */
+  static current: StepHealer | undefined;
+
+  readonly heals: StepHeal[] = [];
+  private readonly strategy: HealingStrategy;
+  private readonly undo: (() => void)[] = [];
+  /** Errors already handled by a nested step, so outer steps do not retry them again. */
+  private readonly handled = new WeakSet<object>();
+
+  constructor(
+    private readonly page: Page | undefined,
+    private readonly testInfo: StepTestInfo,
+    readonly mode: StepHealingMode = HEALING_CONFIG.stepHealing,
+    strategy?: HealingStrategy
+  ) {
+    this.strategy = strategy ?? createStrategy(HEALING_CONFIG.strategy, { endpoint: HEALING_CONFIG.strategyEndpoint });
+  }
+
+  async run<T>(title: string, body: () => T | Promise<T>): Promise<T> {
+    const failFast = inRunHealing.failFast;
+    inRunHealing.failFast = true;
+
+    try {
+      return await body();
+    } catch (error) {
+      if (this.handled.has(error as object)) {
+        throw error;
+      }
+      this.handled.add(error as object);
+      return await this.retry(title, body, error);
+    } finally {
+      inRunHealing.failFast = failFast;
+    }
+  }
+
+  /** Attaches the heals and undoes the overrides. */
+  async dispose() {
+    if (this.heals.length) {
+      await this.testInfo.attach('step-heals', {
+        body: JSON.stringify(this.heals, null, 2),
+        contentType: 'application/json',
+      });
+    }
+    this.undo.splice(0).reverse().forEach(restore => restore());
+  }
+
+  private async retry<T>(title: string, body: () => T | Promise<T>, error: unknown): Promise<T> {
+    const message = stripAnsi(error instanceof Error ? error.message : String(error));
+    let proposal: HealProposal | undefined;
+    try {
+      proposal = await this.propose(message);
+    } catch (strategyError) {
+      this.testInfo.annotations.push({
+        type: 'healing-error',
+        description: `${title}: ${this.strategy.name} strategy failed: ${strategyError instanceof Error ? strategyError.message : strategyError}`,
+      });
+    }
+    if (!proposal) {
+      throw error;
+    }
+
+    const change = `${proposal.target}: ${proposal.before} -> ${proposal.after}`;
+    const source = `${proposal.strategy}, confidence ${proposal.confidence.toFixed(2)}`;
+
+    if (this.mode === 'strict') {
+      this.heals.push({ step: title, proposal, error: message.split('\n')[0] });
+      this.testInfo.annotations.push({ type: 'healing-proposal', description: `${title}: ${change} (${source}; not tried in strict mode)` });
+      throw error;
+    }
+
+    const restore = this.apply(proposal);
+    if (!restore) {
+      throw error;
+    }
+
+    let result: T | undefined;
+    let passed = false;
+    try {
+      result = await body();
+      passed = true;
+    } catch (retryError) {
+      this.handled.add(retryError as object);
+    }
+
+    this.heals.push({ step: title, proposal, passed, error: message.split('\n')[0] });
+
+    if (passed) {
+      this.undo.push(restore);
+      this.testInfo.annotations.push({ type: 'healed', description: `${title}: ${change} (${source})` });
+      return result as T;
+    }
+
+    restore();
+    this.testInfo.annotations.push({
+      type: 'healing-proposal',
+      description: `${title}: ${change} (${source}; the step still failed with it)`,
+    });
+    throw error;
+  }
+
+  private async propose(message: string): Promise<HealProposal | undefined> {
+    const annotations = this.testInfo.annotations;
+    const failure = { ...classifyFailure({ message, annotations }), message, annotations };
+    if (!HEALED_CATEGORIES.includes(failure.category)) {
+      return undefined;
+    }
+
+    const route = this.page && !this.page.isClosed() ? routeOf(this.page) : undefined;
+    const snapshot = route ? await captureRouteSnapshot(this.page!, route).catch(() => undefined) : undefined;
+    const baseline = snapshot && snapshotStore.load(this.testInfo.project.name, snapshot.route);
+
+    const context = failureContextFrom({
+      test: {
+        title: this.testInfo.titlePath.slice(1).join(' › '),
+        file: this.testInfo.file,
+        line: this.testInfo.line,
+        project: this.testInfo.project.name,
+      },
+      failure,
+      snapshot,
+      domDiff: baseline && snapshot ? diffSnapshots(baseline, snapshot) : undefined,
+    });
+
+    const [best] = (await this.strategy.propose(context)).filter(proposal => !rejections.has(proposal));
+    return best && best.confidence >= HEALING_CONFIG.minConfidence ? best : undefined;
+  }
+
+  /** Applies a proposal for the rest of the test; returns how to undo it, if it could be applied. */
+  private apply(proposal: HealProposal): (() => void) | undefined {
+    if (proposal.kind === 'text') {
+      try {
+        return overrideUiText(proposal.target, JSON.parse(proposal.after));
+      } catch {
+        return undefined;
+      }
+    }
+
+    const strategy = parseStrategy(proposal.after);
+    if (!strategy || !/^\w+\.\w+$/.test(proposal.target)) {
+      return undefined;
+    }
+
+    const previous = inRunHealing.overrides.get(proposal.target);
+    inRunHealing.overrides.set(proposal.target, strategy);
+    return () => {
+      if (previous) {
+        inRunHealing.overrides.set(proposal.target, previous);
+      } else {
+        inRunHealing.overrides.delete(proposal.target);
+      }
+    };
+  }
+}
+
+/** `file:line:column` of the code that called the step wrapper. */
+function callerLocation(): Location | undefined {
+  const frame = new Error().stack?.split('\n')[3];
+  const match = frame?.match(/\(?([^()\s]+):(\d+):(\d+)\)?$/);
+  return match ? { file: match[1], line: Number(match[2]), column: Number(match[3]) } : undefined;
+}
+
+/** Wraps `test.step` so failing steps go through the running test's StepHealer. */
+export function healingSteps(step: StepFunction): StepFunction {
+  const healingStep = <T>(title: string, body: (stepInfo: TestStepInfo) => T | Promise<T>, options: StepOptions = {}) =>
+    step(title, stepInfo => {
+      const healer = StepHealer.current;
+      return healer ? healer.run(title, () => body(stepInfo)) : body(stepInfo);
+    }, { location: callerLocation(), ...options });
+
+  return Object.assign(healingStep, { skip: step.skip });
+}
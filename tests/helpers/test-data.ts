@@ -4,6 +4,15 @@
  * Centralized test data for consistent testing across all test files.
  */
 
+/** A user as the app lists it in the user table. */
+export interface User {
+  id: number;
+  name: string;
+  email: string;
+  role: string;
+  department?: string;
+}
+
 export const TEST_USERS = {
   login: {
     email: 'test@example.com',
@@ -69,3 +78,106 @@ export const ROUTES = {
   dev: '/dev',
 };
 
+
+/** A user before the app assigns an id. */
+export type NewUser = Omit<User, 'id'>;
+
+export const USER_ROLES = ['Admin', 'User', 'Manager'] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+const FIRST_NAMES = ['Alice', 'Bruno', 'Chen', 'Dana', 'Elif', 'Farah', 'Gus', 'Hana', 'Ivan', 'Jonas', 'Kemi', 'Luis'];
+const LAST_NAMES = ['Williams', 'Novak', 'Okafor', 'Larsen', 'Tanaka', 'Moreau', 'Silva', 'Kowalski', 'Haddad', 'Reyes'];
+const DEPARTMENTS = ['Engineering', 'Marketing', 'Sales', 'Support', 'Finance', 'IT'];
+const UNICODE_NAMES = ['Zoë Ørsted', 'José Müller', 'Łukasz Żółć', 'Søren Åberg', '李 小龙', 'Ana-María Núñez'];
+
+/** FNV-1a hash, used to turn worker index and test id into a seed. */
+export function seedFrom(...parts: (string | number)[]): number {
+  let hash = 0x811c9dc5;
+  for (const char of parts.join(':')) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Generates valid, unique users from a seed (mulberry32), so the same seed
+ * produces the same users. Every user gets a distinct email.
+ *
+ *   const factory = new UserFactory(seedFrom(workerIndex, testId));
+ *   factory.user({ role: 'Admin' });
+ *   factory.build().withUnicodeName().withInvalidEmail().create();
+ */
+export class UserFactory {
+  readonly seed: number;
+  private state: number;
+  private sequence = 0;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  user(overrides: Partial<NewUser> = {}): NewUser {
+    const first = this.pick(FIRST_NAMES);
+    const last = this.pick(LAST_NAMES);
+    const tag = `${this.seed.toString(36)}${(++this.sequence).toString(36)}`;
+
+    return {
+      name: `${first} ${last}`,
+      email: `${first}.${last}.${tag}@example.com`.toLowerCase(),
+      role: this.pick(USER_ROLES),
+      department: this.pick(DEPARTMENTS),
+      ...overrides,
+    };
+  }
+
+  build(overrides: Partial<NewUser> = {}): UserBuilder {
+    return new UserBuilder(this, this.user(overrides));
+  }
+
+  /** Uniform float in [0, 1). */
+  random(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.random() * items.length)];
+  }
+}
+
+/** Builder-style variants of a generated user, for validation tests. */
+export class UserBuilder {
+  constructor(private readonly factory: UserFactory, private readonly data: NewUser) {}
+
+  with(overrides: Partial<NewUser>): UserBuilder {
+    return new UserBuilder(this.factory, { ...this.data, ...overrides });
+  }
+
+  withRole(role: UserRole): UserBuilder {
+    return this.with({ role });
+  }
+
+  withInvalidEmail(): UserBuilder {
+    const invalid = ['no-at-sign.example.com', 'two@@example.com', 'missing-domain@', '@missing-local.com', 'spaces in@example.com'];
+    return this.with({ email: this.factory.pick(invalid) });
+  }
+
+  withLongName(length = 256): UserBuilder {
+    const [first] = this.data.name.split(' ');
+    return this.with({ name: `${first} ${'x'.repeat(Math.max(1, length - first.length - 1))}` });
+  }
+
+  withUnicodeName(): UserBuilder {
+    return this.with({ name: this.factory.pick(UNICODE_NAMES) });
+  }
+
+  create(): NewUser {
+    return { ...this.data };
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * UI Change Scenarios
+ *
+ * Typed catalog of the UI changes the app can apply from its /dev page.
+ * Each scenario declares how it is applied and what it changes, so tests
+ * and POMs can compute the expected UI for any combination of scenarios
+ * instead of hard-coding `UI_TEXT.initial` values.
+ *
+ * The scenarios active for a run are read from UI_CHANGES, e.g.
+ *   UI_CHANGES=login-button-text,department-column npm test
+ */
+
+import { UI_TEXT } from './test-data';
+
+export type UiScenarioId =
+  | 'login-button-text'
+  | 'department-column'
+  | 'modal-title'
+  | 'renamed-testid'
+  | 'logout-in-menu'
+  | 'cancel-as-link'
+  | 'reordered-columns'
+  | 'split-name-field'
+  | 'delayed-rendering';
+
+export type UiDelta =
+  | { kind: 'text'; key: 'loginButton' | 'modalTitle'; value: string }
+  | { kind: 'insert-column'; column: string; before: string }
+  | { kind: 'move-column'; column: string; before: string }
+  | { kind: 'rename-testid'; from: string; to: string }
+  | { kind: 'move-into-menu'; testId: string; menuTestId: string }
+  | { kind: 'change-role'; testId: string; from: string; to: string }
+  | { kind: 'split-field'; testId: string; into: string[] }
+  | { kind: 'delay'; testId: string; ms: number };
+
+export interface UiMutation {
+  /** Change number on the /dev page; its control is `apply-change-<change>`. */
+  change: number;
+  /** Line the /dev change log shows once the change is applied. */
+  logEntry: string;
+  /** Only the bundled fixture app implements it, not the Angular app. */
+  fixtureOnly?: boolean;
+}
+
+export interface UiChangeScenario {
+  id: UiScenarioId;
+  description: string;
+  mutation: UiMutation;
+  deltas: UiDelta[];
+}
+
+export const UI_CHANGE_SCENARIOS: Record<UiScenarioId, UiChangeScenario> = {
+  'login-button-text': {
+    id: 'login-button-text',
+    description: 'Login button text "Sign In" -> "Log In Now"',
+    mutation: { change: 1, logEntry: 'Change #1 applied' },
+    deltas: [{ kind: 'text', key: 'loginButton', value: UI_TEXT.afterChange1.loginButton }],
+  },
+
+  'department-column': {
+    id: 'department-column',
+    description: 'Department column added to the user table',
+    mutation: { change: 2, logEntry: 'Change #2 applied' },
+    deltas: [{ kind: 'insert-column', column: 'Department', before: 'Actions' }],
+  },
+
+  'modal-title': {
+    id: 'modal-title',
+    description: 'Modal title "User Information" -> "Edit Team Member"',
+    mutation: { change: 3, logEntry: 'Change #3 applied' },
+    deltas: [{ kind: 'text', key: 'modalTitle', value: UI_TEXT.afterChange3.modalTitle }],
+  },
+
+  'renamed-testid': {
+    id: 'renamed-testid',
+    description: 'Add user button test id renamed to create-user-button',
+    mutation: { change: 4, logEntry: 'Change #4 applied', fixtureOnly: true },
+    deltas: [{ kind: 'rename-testid', from: 'add-user-button', to: 'create-user-button' }],
+  },
+
+  'logout-in-menu': {
+    id: 'logout-in-menu',
+    description: 'Dashboard logout button moved into an account menu',
+    mutation: { change: 5, logEntry: 'Change #5 applied', fixtureOnly: true },
+    deltas: [{ kind: 'move-into-menu', testId: 'logout-button', menuTestId: 'user-menu-button' }],
+  },
+
+  'cancel-as-link': {
+    id: 'cancel-as-link',
+    description: 'Modal cancel button rendered as a link',
+    mutation: { change: 6, logEntry: 'Change #6 applied', fixtureOnly: true },
+    deltas: [{ kind: 'change-role', testId: 'cancel-button', from: 'button', to: 'link' }],
+  },
+
+  'reordered-columns': {
+    id: 'reordered-columns',
+    description: 'Role column moved in front of Name',
+    mutation: { change: 7, logEntry: 'Change #7 applied', fixtureOnly: true },
+    deltas: [{ kind: 'move-column', column: 'Role', before: 'Name' }],
+  },
+
+  'split-name-field': {
+    id: 'split-name-field',
+    description: 'Name input split into first and last name',
+    mutation: { change: 8, logEntry: 'Change #8 applied', fixtureOnly: true },
+    deltas: [{ kind: 'split-field', testId: 'name-input', into: ['first-name-input', 'last-name-input'] }],
+  },
+
+  'delayed-rendering': {
+    id: 'delayed-rendering',
+    description: 'User table renders 1.5s after the dashboard',
+    mutation: { change: 9, logEntry: 'Change #9 applied', fixtureOnly: true },
+    deltas: [{ kind: 'delay', testId: 'user-table', ms: 1500 }],
+  },
+};
+
+/** The UI as tests should expect it once a set of scenarios is applied. */
+export interface ExpectedUi {
+  loginButton: string;
+  modalTitle: string;
+  tableHeaders: string[];
+  /** Original test id -> test id the app now renders. */
+  testIds: Record<string, string>;
+  /** Test id -> test id of the menu toggle that must be opened first. */
+  menus: Record<string, string>;
+  /** Test id -> ARIA role when it changed. */
+  roles: Record<string, string>;
+  /** Test id -> test ids of the fields that replaced it. */
+  splitFields: Record<string, string[]>;
+  /** Test id -> render delay in ms. */
+  delays: Record<string, number>;
+}
+
+function moveBefore(list: string[], item: string, before: string): string[] {
+  const rest = list.filter(entry => entry !== item);
+  const index = rest.indexOf(before);
+  return index === -1 ? [...rest, item] : [...rest.slice(0, index), item, ...rest.slice(index)];
+}
+
+function applyDelta(ui: ExpectedUi, delta: UiDelta): ExpectedUi {
+  switch (delta.kind) {
+    case 'text':
+      return { ...ui, [delta.key]: delta.value };
+    case 'insert-column':
+    case 'move-column':
+      return { ...ui, tableHeaders: moveBefore(ui.tableHeaders, delta.column, delta.before) };
+    case 'rename-testid':
+      return { ...ui, testIds: { ...ui.testIds, [delta.from]: delta.to } };
+    case 'move-into-menu':
+      return { ...ui, menus: { ...ui.menus, [delta.testId]: delta.menuTestId } };
+    case 'change-role':
+      return { ...ui, roles: { ...ui.roles, [delta.testId]: delta.to } };
+    case 'split-field':
+      return { ...ui, splitFields: { ...ui.splitFields, [delta.testId]: delta.into } };
+    case 'delay':
+      return { ...ui, delays: { ...ui.delays, [delta.testId]: delta.ms } };
+  }
+}
+
+export function expectedUi(ids: UiScenarioId[] = []): ExpectedUi {
+  const initial: ExpectedUi = {
+    loginButton: UI_TEXT.initial.loginButton,
+    modalTitle: UI_TEXT.initial.modalTitle,
+    tableHeaders: [...UI_TEXT.initial.tableHeaders],
+    testIds: {},
+    menus: {},
+    roles: {},
+    splitFields: {},
+    delays: {},
+  };
+
+  return ids
+    .flatMap(id => UI_CHANGE_SCENARIOS[id].deltas)
+    .reduce(applyDelta, initial);
+}
+
+export function isUiScenarioId(id: string): id is UiScenarioId {
+  return Object.prototype.hasOwnProperty.call(UI_CHANGE_SCENARIOS, id);
+}
+
+export function parseScenarioIds(value: string | undefined): UiScenarioId[] {
+  const ids = (value || '').split(',').map(id => id.trim()).filter(Boolean);
+  const unknown = ids.filter(id => !isUiScenarioId(id));
+
+  if (unknown.length) {
+    throw new Error(`Unknown UI change scenario(s): ${unknown.join(', ')}. Known: ${Object.keys(UI_CHANGE_SCENARIOS).join(', ')}`);
+  }
+
+  return ids as UiScenarioId[];
+}
+
+/** Annotation UiChanges adds for every scenario a test applies itself; the description is the id. */
+export const UI_CHANGE_ANNOTATION = 'ui-change';
+
+/** Scenarios applied to the app under test for this run (UI_CHANGES). */
+export const ACTIVE_SCENARIOS = parseScenarioIds(process.env.UI_CHANGES);
+
+/**
+ * The UI under the active scenarios. Every field is read through a getter,
+ * so a UI_TEXT value a step heal overrides (see step-healing.ts) shows up
+ * in the assertions of the retried step.
+ */
+export const EXPECTED_UI: ExpectedUi = liveExpectedUi(ACTIVE_SCENARIOS);
+
+function liveExpectedUi(ids: UiScenarioId[]): ExpectedUi {
+  const ui = {} as ExpectedUi;
+  for (const key of Object.keys(expectedUi(ids)) as (keyof ExpectedUi)[]) {
+    Object.defineProperty(ui, key, { enumerable: true, get: () => expectedUi(ids)[key] });
+  }
+  return ui;
+}
+
+/** The test id the app renders for `testId` under the active scenarios. */
+export function expectedTestId(testId: string): string {
+  return EXPECTED_UI.testIds[testId] ?? testId;
+}
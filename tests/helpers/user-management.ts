@@ -0,0 +1,134 @@
+/**
+ * User Management Service
+ *
+ * Domain-level operations on users, built on DashboardPage and UserModal.
+ * Users are addressed by the id the app assigned them (read from the new
+ * `user-row-*` element), never by assumed ids, so tests work regardless of
+ * pre-existing data.
+ *
+ *   const id = await userManagement.createUser({ name, email, role });
+ *   await userManagement.updateUser(id, { name: 'Renamed' });
+ *   await userManagement.deleteUser(id);
+ */
+
+import { expect, Page } from '@playwright/test';
+import { DashboardPage, UserModal } from './page-objects';
+import { NewUser, User } from './test-data';
+
+/** How long a delete click may take to open its confirm dialog. */
+const DIALOG_TIMEOUT_MS = 5000;
+
+export interface DeleteOptions {
+  /** Accept the confirm dialog (default) or dismiss it and expect the user to stay. */
+  confirm?: boolean;
+}
+
+export class UserManagement {
+  readonly page: Page;
+  readonly dashboardPage: DashboardPage;
+  readonly userModal: UserModal;
+
+  constructor(page: Page) {
+    this.page = page;
+    this.dashboardPage = new DashboardPage(page);
+    this.userModal = new UserModal(page);
+  }
+
+  async goto() {
+    await this.dashboardPage.goto();
+  }
+
+  async listUsers(): Promise<User[]> {
+    return await this.dashboardPage.table.rowsAsObjects();
+  }
+
+  async getUser(id: number): Promise<User> {
+    const user = (await this.listUsers()).find(candidate => candidate.id === id);
+    if (!user) {
+      throw new Error(`No user with id ${id} in the user table`);
+    }
+    return user;
+  }
+
+  /** Creates a user through the modal and returns the id the app assigned. */
+  async createUser(data: NewUser): Promise<number> {
+    const existing = new Set((await this.listUsers()).map(user => user.id));
+
+    await this.dashboardPage.addUserButton.click();
+    await this.userModal.fillForm(data);
+    await this.userModal.save();
+    await expect(this.userModal.modalBackdrop).not.toBeVisible();
+
+    let created: User[] = [];
+    await expect.poll(async () => {
+      created = (await this.listUsers()).filter(user => !existing.has(user.id));
+      return created.length;
+    }, { message: `new row for ${data.email}` }).toBeGreaterThan(0);
+
+    // Other additions may land at the same time; the email tells ours apart.
+    const user = created.length === 1 ? created[0] : created.find(candidate => candidate.email === data.email);
+    if (!user) {
+      throw new Error(`Could not tell which of the new rows (${created.map(row => row.id).join(', ')}) is ${data.email}`);
+    }
+
+    return user.id;
+  }
+
+  async updateUser(id: number, patch: Partial<NewUser>) {
+    await this.dashboardPage.clickEditUser(id);
+    await expect(this.userModal.modalBackdrop).toBeVisible();
+
+    if (patch.name !== undefined) {
+      await this.userModal.fillName(patch.name);
+    }
+    if (patch.email !== undefined) {
+      await this.userModal.emailInput.fill(patch.email);
+    }
+    if (patch.department !== undefined) {
+      await this.userModal.departmentInput.fill(patch.department);
+    }
+    if (patch.role !== undefined) {
+      await this.userModal.roleSelect.selectOption(patch.role);
+    }
+
+    await this.userModal.save();
+    await expect(this.userModal.modalBackdrop).not.toBeVisible();
+
+    // Department is only listed while its column is shown.
+    const { department, ...listed } = patch;
+    await expect.poll(() => this.getUser(id)).toMatchObject(listed);
+  }
+
+  /** Deletes a user, handling the confirm dialog and checking it names the user. */
+  async deleteUser(id: number, { confirm = true }: DeleteOptions = {}) {
+    const user = await this.getUser(id);
+
+    const { type, message } = await this.clickDelete(id, { confirm });
+    expect(type).toBe('confirm');
+    expect(message).toContain(user.name);
+
+    const row = await this.dashboardPage.getUserRow(id);
+    if (confirm) {
+      await expect(row).toHaveCount(0);
+    } else {
+      await expect(row).toBeVisible();
+    }
+  }
+
+  /**
+   * Clicks a user's delete button and answers the dialog it opens. Fails
+   * with the click's error when the button is missing, and within
+   * DIALOG_TIMEOUT_MS when the click opens no dialog.
+   */
+  async clickDelete(id: number, { confirm = true }: DeleteOptions = {}): Promise<{ type: string; message: string }> {
+    const dialog = this.page.waitForEvent('dialog', { timeout: DIALOG_TIMEOUT_MS });
+    // The click only settles once the dialog is answered, so it is not awaited before it.
+    const click = this.dashboardPage.clickDeleteUser(id);
+    const opened = await Promise.race([dialog, click.then(() => dialog)]);
+
+    const answered = { type: opened.type(), message: opened.message() };
+    await (confirm ? opened.accept() : opened.dismiss());
+    await click;
+    return answered;
+  }
+}
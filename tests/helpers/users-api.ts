@@ -0,0 +1,200 @@
+/**
+ * Users API Mock
+ *
+ * Serves /api/users from an in-memory store through `page.route`, so tests
+ * can seed and inspect app data, survive full page reloads, and force
+ * failures the real backend rarely produces. Available as the `usersApi`
+ * fixture, seeded with TEST_USERS.existing:
+ *
+ *   usersApi.seed([{ id: 7, name: 'Only User', ... }]);
+ *   usersApi.latency(500);
+ *   usersApi.fail('POST', { kind: 'error', status: 503 });
+ *   usersApi.fail('PUT', { kind: 'validation', errors: { email: 'Email is taken' } });
+ *   expect(usersApi.requests('POST')[0].body).toMatchObject({ name });
+ *
+ * GET /api/users, POST /api/users, PUT /api/users/:id and DELETE
+ * /api/users/:id behave like a REST backend, including 404 for unknown ids
+ * and 422 for a missing name or an invalid email.
+ */
+
+import { Page, Request, Route } from '@playwright/test';
+import { NewUser, TEST_USERS, User } from './test-data';
+
+export type ApiMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export type ApiFault =
+  | { kind: 'error'; status?: number; message?: string }
+  | { kind: 'validation'; errors: Record<string, string> }
+  | { kind: 'timeout' };
+
+export interface FaultOptions {
+  /** How many matching requests fail before the API recovers (default 1; Infinity for all). */
+  times?: number;
+}
+
+export interface ApiRequest {
+  method: ApiMethod;
+  /** Path without the origin, e.g. `/api/users/3`. */
+  path: string;
+  body: unknown;
+  /** The status served, or 'timeout' when the request was aborted. */
+  status: number | 'timeout';
+}
+
+interface PendingFault {
+  method: ApiMethod;
+  fault: ApiFault;
+  remaining: number;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function isUsersApi(url: URL): boolean {
+  return url.pathname === '/api/users' || url.pathname.startsWith('/api/users/');
+}
+
+function copy(users: readonly User[]): User[] {
+  return users.map(user => ({ ...user }));
+}
+
+export class UsersApiMock {
+  readonly page: Page;
+  private store: User[] = [];
+  private nextId = 1;
+  private delayMs = 0;
+  private faults: PendingFault[] = [];
+  private log: ApiRequest[] = [];
+
+  constructor(page: Page, users: readonly User[] = TEST_USERS.existing) {
+    this.page = page;
+    this.seed(users);
+  }
+
+  /** Starts serving the API. Must run before the page loads the app. */
+  async install() {
+    await this.page.route(isUsersApi, (route, request) => this.handle(route, request));
+  }
+
+  async dispose() {
+    await this.page.unroute(isUsersApi).catch(() => {});
+  }
+
+  /** Replaces every user; new ids continue after the highest seeded id. */
+  seed(users: readonly User[]) {
+    this.store = copy(users);
+    this.nextId = Math.max(0, ...users.map(user => user.id)) + 1;
+  }
+
+  /** The users the API currently holds. */
+  users(): User[] {
+    return copy(this.store);
+  }
+
+  /** Delays every response by `ms`. */
+  latency(ms: number) {
+    this.delayMs = ms;
+  }
+
+  /** Makes the next `times` requests with `method` fail with `fault`. */
+  fail(method: ApiMethod, fault: ApiFault, { times = 1 }: FaultOptions = {}) {
+    this.faults.push({ method, fault, remaining: times });
+  }
+
+  /** Requests served so far, optionally only those with `method`. */
+  requests(method?: ApiMethod): ApiRequest[] {
+    return this.log.filter(entry => !method || entry.method === method);
+  }
+
+  private async handle(route: Route, request: Request) {
+    const method = request.method() as ApiMethod;
+    const path = new URL(request.url()).pathname;
+    const body = request.postDataJSON() as unknown;
+
+    if (this.delayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.delayMs));
+    }
+
+    const fault = this.takeFault(method);
+    if (fault?.kind === 'timeout') {
+      this.log.push({ method, path, body, status: 'timeout' });
+      await route.abort('timedout').catch(() => {});
+      return;
+    }
+
+    const { status, json } = fault ? this.faultResponse(fault) : this.respond(method, path, body);
+    this.log.push({ method, path, body, status });
+    await route.fulfill({ status, json }).catch(() => {});
+  }
+
+  private takeFault(method: ApiMethod): ApiFault | undefined {
+    const pending = this.faults.find(candidate => candidate.method === method && candidate.remaining > 0);
+    if (!pending) {
+      return undefined;
+    }
+
+    pending.remaining--;
+    return pending.fault;
+  }
+
+  private faultResponse(fault: Exclude<ApiFault, { kind: 'timeout' }>): { status: number; json: unknown } {
+    if (fault.kind === 'validation') {
+      return { status: 422, json: { errors: fault.errors } };
+    }
+    // Without a message the app reports the status, e.g. "Could not save user (HTTP 500)".
+    return { status: fault.status ?? 500, json: fault.message ? { error: fault.message } : {} };
+  }
+
+  private respond(method: ApiMethod, path: string, body: unknown): { status: number; json: unknown } {
+    const id = Number(path.split('/')[3]);
+    const index = this.store.findIndex(user => user.id === id);
+
+    if (path === '/api/users') {
+      if (method === 'GET') {
+        return { status: 200, json: this.users() };
+      }
+      if (method === 'POST') {
+        const errors = this.validate(body as NewUser);
+        if (errors) {
+          return { status: 422, json: { errors } };
+        }
+        const user = { ...(body as NewUser), id: this.nextId++ };
+        this.store.push(user);
+        return { status: 201, json: user };
+      }
+      return { status: 405, json: { error: `${method} not allowed` } };
+    }
+
+    if (index === -1) {
+      return { status: 404, json: { error: `No user with id ${id}` } };
+    }
+
+    switch (method) {
+      case 'GET':
+        return { status: 200, json: this.store[index] };
+      case 'PUT': {
+        const user = { ...this.store[index], ...(body as Partial<NewUser>), id };
+        const errors = this.validate(user);
+        if (errors) {
+          return { status: 422, json: { errors } };
+        }
+        this.store[index] = user;
+        return { status: 200, json: user };
+      }
+      case 'DELETE':
+        return { status: 200, json: this.store.splice(index, 1)[0] };
+      default:
+        return { status: 405, json: { error: `${method} not allowed` } };
+    }
+  }
+
+  private validate(user: Partial<NewUser>): Record<string, string> | null {
+    const errors: Record<string, string> = {};
+    if (!user.name?.trim()) {
+      errors.name = 'Name is required';
+    }
+    if (!user.email || !EMAIL_PATTERN.test(user.email)) {
+      errors.email = 'Email is invalid';
+    }
+    return Object.keys(errors).length > 0 ? errors : null;
+  }
+}
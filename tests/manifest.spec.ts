@@ -0,0 +1,82 @@
+/**
+ * Expected-Failure Manifest Tests
+ *
+ * Compares hand-written run outcomes against a small manifest: expected and
+ * unexpected failures, passes the manifest did not predict, drift, and the
+ * healed phase.
+ */
+
+import { test, expect } from '@playwright/test';
+import { checkManifest, expectedFailures, FailureManifest, TestOutcome } from '../healing/manifest';
+
+const LOGIN_BUTTON = 'core-functionality.spec.ts › Login › should have correct button text';
+const TABLE_HEADERS = 'core-functionality.spec.ts › Dashboard › should have correct table structure';
+const MODAL_TITLE = 'core-functionality.spec.ts › User Modal › should have correct modal title';
+const SMOKE = 'core-functionality.spec.ts › Login › @smoke should display login form';
+const FIREFOX_ONLY = 'healing-scenarios.spec.ts › Healing Scenario 1 › using text content selector';
+
+const manifest: FailureManifest = {
+  schemaVersion: 1,
+  scenarios: {
+    'login-button-text': { '*': [LOGIN_BUTTON], firefox: [FIREFOX_ONLY] },
+    'department-column': { '*': [TABLE_HEADERS] },
+    'modal-title': { '*': [MODAL_TITLE] },
+    'department-column+modal-title': { '*': [TABLE_HEADERS] },
+  },
+};
+
+function outcome(key: string, failed: boolean, project = 'chromium'): TestOutcome {
+  return { key, project, failed };
+}
+
+test.describe('Expected-Failure Manifest', () => {
+  test('should merge `*` and per-project entries, and union combinations without their own entry', () => {
+    expect([...expectedFailures(manifest, ['login-button-text'], 'chromium')]).toEqual([LOGIN_BUTTON]);
+    expect([...expectedFailures(manifest, ['login-button-text'], 'firefox')]).toEqual([LOGIN_BUTTON, FIREFOX_ONLY]);
+    expect([...expectedFailures(manifest, ['login-button-text', 'modal-title'], 'chromium')]).toEqual([LOGIN_BUTTON, MODAL_TITLE]);
+    expect([...expectedFailures(manifest, ['modal-title', 'department-column'], 'chromium')]).toEqual([TABLE_HEADERS]);
+    expect(expectedFailures(manifest, [], 'chromium').size).toBe(0);
+    expect(() => expectedFailures(manifest, ['logout-in-menu'], 'chromium')).toThrow(/no entry for scenario "logout-in-menu"/);
+  });
+
+  test('should sort a broken run into expected failures, unexpected passes and unexpected failures', () => {
+    const check = checkManifest(manifest, ['login-button-text', 'department-column'], [
+      outcome(LOGIN_BUTTON, true),
+      outcome(TABLE_HEADERS, false),
+      outcome(SMOKE, true),
+      outcome(MODAL_TITLE, false),
+    ]);
+
+    expect(check.scenario).toBe('login-button-text+department-column');
+    expect(check.expectedFailures).toEqual([outcome(LOGIN_BUTTON, true)]);
+    expect(check.unexpectedPasses).toEqual([outcome(TABLE_HEADERS, false)]);
+    expect(check.unexpectedFailures).toEqual([outcome(SMOKE, true)]);
+    expect(check.drift).toEqual([]);
+    expect(check.matches).toBe(false);
+  });
+
+  test('should report drift only for spec files that were part of the run', () => {
+    const ranOneFile = checkManifest(manifest, ['login-button-text'], [outcome(FIREFOX_ONLY.replace('Healing Scenario 1', 'Renamed'), false, 'firefox')]);
+    expect(ranOneFile.drift).toEqual([{ key: FIREFOX_ONLY, project: 'firefox' }]);
+    expect(ranOneFile.matches).toBe(false);
+
+    const otherFile = checkManifest(manifest, ['login-button-text'], [outcome(SMOKE, false), outcome(LOGIN_BUTTON, true)]);
+    expect(otherFile.drift).toEqual([]);
+    expect(otherFile.matches).toBe(true);
+  });
+
+  test('should expect every test to pass in the healed phase', () => {
+    const check = checkManifest(manifest, ['modal-title'], [
+      outcome(MODAL_TITLE, false),
+      outcome(SMOKE, false),
+      outcome(LOGIN_BUTTON, true),
+    ], 'healed');
+
+    expect(check.healed).toEqual([outcome(MODAL_TITLE, false)]);
+    expect(check.unexpectedFailures).toEqual([outcome(LOGIN_BUTTON, true)]);
+    expect(check.unexpectedPasses).toEqual([]);
+    expect(check.matches).toBe(false);
+
+    expect(checkManifest(manifest, [], [outcome(SMOKE, false)]).scenario).toBe('none');
+  });
+});
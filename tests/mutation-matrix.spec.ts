@@ -0,0 +1,63 @@
+/**
+ * Robustness Matrix Tests
+ *
+ * Builds the mutation × test matrix from hand-written runs: survived and
+ * killed verdicts, tests a mutated run skipped, the locators to harden, and
+ * tests that were broken before any mutation.
+ */
+
+import { test, expect } from '@playwright/test';
+import { buildMatrix, MutationOutcome, MutationRun, renderMatrixMarkdown } from '../healing/mutation-matrix';
+
+const LOGIN = 'core-functionality.spec.ts › Login › should login successfully';
+const HEADERS = 'core-functionality.spec.ts › Dashboard › should have correct table structure';
+const MODAL = 'core-functionality.spec.ts › User Modal › should open';
+const BROKEN = 'users-api.spec.ts › Users API › should list the seeded users';
+
+function outcome(key: string, passed: boolean, locator?: string): MutationOutcome {
+  return { key, project: 'chromium', passed, ...(locator && { locator }) };
+}
+
+function mutationRun(mutations: string[], ...outcomes: MutationOutcome[]): MutationRun {
+  return { mutations, outcomes };
+}
+
+const BASELINE = mutationRun([], outcome(LOGIN, true), outcome(HEADERS, true), outcome(MODAL, true), outcome(BROKEN, false));
+
+test.describe('Robustness Matrix', () => {
+  test('should mark each healthy test survived, killed or not run per mutation', () => {
+    const matrix = buildMatrix(BASELINE, [
+      mutationRun(['button-text'], outcome(LOGIN, false, "getByRole('button', { name: 'Sign In' })"), outcome(HEADERS, true), outcome(MODAL, true)),
+      mutationRun(['table-column', 'wrap-fields'], outcome(LOGIN, true), outcome(HEADERS, false)),
+    ]);
+
+    expect(matrix.mutations).toEqual(['button-text', 'table-column+wrap-fields']);
+    expect(matrix.rows.map(row => [row.key, row.results])).toEqual([
+      [HEADERS, { 'button-text': 'survived', 'table-column+wrap-fields': 'killed' }],
+      [LOGIN, { 'button-text': 'killed', 'table-column+wrap-fields': 'survived' }],
+      [MODAL, { 'button-text': 'survived', 'table-column+wrap-fields': 'not-run' }],
+    ]);
+    expect(matrix.brokenWithoutMutations).toEqual([`[chromium] ${BROKEN}`]);
+  });
+
+  test('should score mutations on the tests that ran and name the locators they killed', () => {
+    const matrix = buildMatrix(BASELINE, [
+      mutationRun(['button-text'], outcome(LOGIN, false, "getByRole('button', { name: 'Sign In' })"), outcome(HEADERS, true), outcome(MODAL, false)),
+      mutationRun(['delay-table']),
+    ]);
+
+    expect(matrix.summary['button-text']).toEqual({
+      killed: 2,
+      survived: 1,
+      score: 1 / 3,
+      killedBy: { "getByRole('button', { name: 'Sign In' })": 1, '(no locator in error)': 1 },
+    });
+    expect(matrix.summary['delay-table']).toEqual({ killed: 0, survived: 0, score: 1, killedBy: {} });
+
+    const markdown = renderMatrixMarkdown(matrix);
+    expect(markdown).toContain('| `button-text` | 2 | 1 | 33% |');
+    expect(markdown).toContain(`| ${LOGIN} | chromium | ✗ | – |`);
+    expect(markdown).toContain("- `button-text`: `getByRole('button', { name: 'Sign In' })` (1), `(no locator in error)` (1)");
+    expect(markdown).toContain(`- [chromium] ${BROKEN}`);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * DOM Mutation Engine Tests
+ *
+ * Installs mutations on small pages set with setContent and checks the DOM
+ * each kind produces, including elements the page renders afterwards.
+ */
+
+import { test, expect, Page } from '@playwright/test';
+import { installMutations, Mutation, MUTATIONS } from './helpers/mutations';
+
+const USER_PAGE = `
+  <h1 data-testid="dashboard-title">Users</h1>
+  <nav><a href="#a">A</a><a href="#b">B</a></nav>
+  <table data-testid="user-table">
+    <thead><tr><th>Name</th><th>Email</th></tr></thead>
+    <tbody><tr data-testid="user-row-1"><td>John</td><td>john@example.com</td></tr></tbody>
+  </table>
+  <form><input data-testid="name-input"><button data-testid="save-button" type="button">Save</button></form>
+`;
+
+async function mutate(page: Page, mutations: Mutation[]) {
+  await page.setContent(USER_PAGE);
+  await page.evaluate(installMutations, mutations);
+}
+
+test.describe('DOM Mutation Engine', () => {
+  test('should rewrite text, rename test ids and retag titles', async ({ page }) => {
+    await mutate(page, [
+      { kind: 'text', selector: '[data-testid="save-button"]', text: 'Submit' },
+      ...MUTATIONS['rename-testids'].mutations,
+      ...MUTATIONS['retag-titles'].mutations,
+    ]);
+
+    await expect(page.getByTestId('submit-button')).toHaveText('Submit');
+    await expect(page.getByTestId('save-button')).toHaveCount(0);
+    await expect(page.getByRole('heading')).toHaveCount(0);
+    await expect(page.getByTestId('dashboard-title')).toHaveJSProperty('tagName', 'DIV');
+  });
+
+  test('should insert a column, reorder siblings and wrap fields', async ({ page }) => {
+    await mutate(page, [
+      ...MUTATIONS['table-column'].mutations,
+      { kind: 'reorder', selector: 'nav' },
+      ...MUTATIONS['wrap-fields'].mutations,
+    ]);
+
+    await expect(page.locator('thead th')).toHaveText(['Name', 'Status', 'Email']);
+    await expect(page.getByTestId('user-row-1').locator('td')).toHaveText(['John', 'Active', 'john@example.com']);
+    await expect(page.locator('nav a')).toHaveText(['B', 'A']);
+    await expect(page.locator('form > div > input')).toHaveCount(1);
+    await expect(page.locator('form > div > button')).toHaveCount(1);
+  });
+
+  test('should mutate elements rendered after install, once each', async ({ page }) => {
+    await mutate(page, MUTATIONS['table-column'].mutations);
+
+    await page.getByTestId('user-table').locator('tbody').evaluate(body =>
+      body.insertAdjacentHTML('beforeend', '<tr data-testid="user-row-2"><td>Jane</td><td>jane@example.com</td></tr>'));
+
+    await expect(page.getByTestId('user-row-2').locator('td')).toHaveText(['Jane', 'Active', 'jane@example.com']);
+    await expect(page.getByTestId('user-row-1').locator('td')).toHaveCount(3);
+  });
+
+  test('should hide delayed elements until the delay has passed', async ({ page }) => {
+    await mutate(page, [{ kind: 'delay', selector: '[data-testid="user-table"]', ms: 500 }]);
+
+    await expect(page.getByTestId('user-table')).toBeHidden();
+    await expect(page.getByTestId('user-table')).toBeVisible();
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Heal Patcher Tests
+ *
+ * Plans heals for triaged failures of a small spec and test data file
+ * written to the test's output directory: one per heal kind, plus the
+ * failures the planner must leave to a person.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { test, expect } from '@playwright/test';
+import { FingerprintStoreData } from './helpers/fingerprint';
+import { HealInput, HealPlan, patchedFiles, planHeals } from '../healing/patcher';
+
+const TEST_DATA = `export const UI_TEXT = {
+  initial: {
+    loginButton: 'Sign In',
+    tableHeaders: ['Name', 'Email', 'Role', 'Actions'],
+  },
+};
+`;
+
+const SPEC = `import { test, expect } from '@playwright/test';
+import { UI_TEXT } from './helpers/test-data';
+import { EXPECTED_UI } from './helpers/ui-scenarios';
+
+test('button text', async ({ page }) => {
+  await expect(page.getByTestId('login-submit')).toHaveText(EXPECTED_UI.loginButton);
+});
+
+test('text locator', async ({ page }) => {
+  await page.getByText('Add User').click();
+});
+
+test('renamed id', async ({ page }) => {
+  await page.getByTestId('add-user-button').click();
+});
+
+test('header count', async ({ page }) => {
+  await expect(page.locator('thead th')).toHaveCount(4);
+});
+
+test('header names', async ({ page }) => {
+  expect(await page.locator('thead th').allTextContents()).toEqual(UI_TEXT.initial.tableHeaders);
+});
+`;
+
+const SPEC_FILE = 'tests/app.spec.ts';
+
+const FINGERPRINTS: FingerprintStoreData = {
+  schemaVersion: 1,
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  elements: {
+    'DashboardPage.addUserButton': {
+      version: 1,
+      capturedAt: '2026-01-01T00:00:00.000Z',
+      url: 'http://localhost:4300/dashboard',
+      fingerprint: {
+        tag: 'button',
+        role: 'button',
+        name: 'Add User',
+        text: 'Add User',
+        attributes: { 'data-testid': 'add-user-button' },
+        domPath: 'body > main > button',
+        boundingBox: null,
+        neighbours: { parent: 'main', previous: '', next: '' },
+      },
+    },
+  },
+};
+
+function writeTree(): string {
+  const rootDir = test.info().outputPath('repo');
+  fs.mkdirSync(path.join(rootDir, 'tests', 'helpers'), { recursive: true });
+  fs.writeFileSync(path.join(rootDir, 'tests', 'helpers', 'test-data.ts'), TEST_DATA);
+  fs.writeFileSync(path.join(rootDir, SPEC_FILE), SPEC);
+  return rootDir;
+}
+
+function failure(title: string, overrides: Partial<HealInput>): HealInput {
+  const line = SPEC.split('\n').findIndex(text => text.startsWith(`test('${title}'`)) + 1;
+  return { title, file: SPEC_FILE, line, project: 'chromium', category: 'text-mismatch', ...overrides };
+}
+
+function plan(...failures: HealInput[]): HealPlan {
+  return planHeals(failures, { rootDir: writeTree(), fingerprints: FINGERPRINTS });
+}
+
+test.describe('Heal Patcher', () => {
+  test('should update the UI_TEXT constant behind an EXPECTED_UI assertion, once for all projects', () => {
+    const buttonText = { matcher: 'toHaveText', expected: 'Sign In', received: 'Log In Now' };
+    const { patches, skipped } = plan(failure('button text', buttonText), failure('button text', { ...buttonText, project: 'firefox' }));
+
+    expect(skipped).toEqual([]);
+    expect(patches).toEqual([expect.objectContaining({
+      kind: 'update-ui-text',
+      projects: ['chromium', 'firefox'],
+      summary: "Update UI_TEXT.initial.loginButton: 'Sign In' -> 'Log In Now'",
+    })]);
+    expect(patchedFiles({ patches, skipped }, test.info().outputPath('repo'))[0].after).toContain("loginButton: 'Log In Now',");
+  });
+
+  test('should swap a text locator for the test id its baseline fingerprint carries', () => {
+    const { patches } = plan(failure('text locator', { category: 'locator-not-found', locator: "getByText('Add User')" }));
+
+    expect(patches).toEqual([expect.objectContaining({ kind: 'swap-to-testid', summary: "Swap getByText('Add User') for getByTestId('add-user-button')" })]);
+    expect(patches[0].edits).toEqual([expect.objectContaining({ file: SPEC_FILE, text: "getByTestId('add-user-button')" })]);
+  });
+
+  test('should follow a test id the DOM diff shows renamed', () => {
+    const { patches, skipped } = plan(
+      failure('renamed id', {
+        category: 'locator-not-found',
+        locator: "getByTestId('add-user-button')",
+        domDiff: {
+          route: 'dashboard',
+          baselineCapturedAt: '2026-01-01T00:00:00.000Z',
+          capturedAt: '2026-01-02T00:00:00.000Z',
+          aria: '',
+          changes: [{
+            kind: 'renamed',
+            from: 'add-user-button',
+            to: 'create-user-button',
+            node: { path: 'body > main > button', tag: 'button', testId: 'create-user-button', text: 'Add User', attributes: {} },
+          }],
+        },
+      }),
+      failure('renamed id', { category: 'locator-not-found', locator: "getByTestId('add-user-button')", project: 'webkit' }),
+    );
+
+    expect(skipped).toEqual([]);
+    expect(patches).toEqual([expect.objectContaining({ kind: 'rename-testid', summary: "Rename test id 'add-user-button' -> 'create-user-button'" })]);
+  });
+
+  test('should replace a header count with the header names', () => {
+    const { patches } = plan(failure('header count', {
+      category: 'count-mismatch',
+      matcher: 'toHaveCount',
+      locator: "locator('thead th')",
+      expected: '4',
+      received: '5',
+    }));
+
+    expect(patches).toEqual([expect.objectContaining({
+      kind: 'count-to-headers',
+      summary: 'Replace toHaveCount(4) with toContainText(EXPECTED_UI.tableHeaders)',
+    })]);
+  });
+
+  test('should skip empty received values and files that do not exist', () => {
+    const headers = { category: 'count-mismatch' as const, matcher: 'toEqual', expected: '["Name","Email","Role","Actions"]' };
+    const { patches, skipped } = plan(
+      failure('header names', { ...headers, received: '[]' }),
+      failure('button text', { matcher: 'toHaveText', expected: 'Sign In', received: ' ' }),
+      { ...failure('button text', {}), file: 'app.spec.ts' },
+    );
+
+    expect(patches).toEqual([]);
+    expect(skipped.map(heal => heal.reason)).toEqual([
+      'Received [] looks like nothing rendered, not like new UI text',
+      "Received ' ' looks like nothing rendered, not like new UI text",
+      expect.stringMatching(/^app\.spec\.ts does not exist under .*repo$/),
+    ]);
+  });
+});
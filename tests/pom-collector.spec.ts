@@ -0,0 +1,41 @@
+/**
+ * Page Object Collector Tests
+ *
+ * Collects test id elements from pages set with setContent and resolves the
+ * role strategies the generator would write for them with getByRole, so a
+ * role Playwright derives differently fails here instead of never matching
+ * as a fallback.
+ */
+
+import { test, expect } from '@playwright/test';
+import { collectTestIdElements } from '../healing/pom-generator';
+
+const TABLES = `
+  <table>
+    <thead><tr><th data-testid="header-name">Name</th><th data-testid="header-email" scope="col">Email</th></tr></thead>
+    <tbody><tr><th data-testid="row-header" scope="row">John Doe</th><td data-testid="email-cell">john.doe@example.com</td></tr></tbody>
+  </table>
+  <table role="grid"><tr><th data-testid="grid-header">Status</th></tr></table>
+  <button data-testid="save-button">Save</button>
+`;
+
+test.describe('Page Object Collector', () => {
+  test('should derive table cell roles the way Playwright does', async ({ page }) => {
+    await page.setContent(TABLES);
+    const elements = await page.evaluate(collectTestIdElements, null);
+
+    expect(elements.map(({ testId, role, name }) => ({ testId, role, name }))).toEqual([
+      { testId: 'header-name', role: 'cell', name: 'Name' },
+      { testId: 'header-email', role: 'columnheader', name: 'Email' },
+      { testId: 'row-header', role: 'rowheader', name: 'John Doe' },
+      { testId: 'email-cell', role: 'cell', name: 'john.doe@example.com' },
+      { testId: 'grid-header', role: 'gridcell', name: 'Status' },
+      { testId: 'save-button', role: 'button', name: 'Save' },
+    ]);
+
+    for (const { testId, role, name } of elements) {
+      const byRole = page.getByRole(role as Parameters<typeof page.getByRole>[0], { name, exact: true });
+      await expect(byRole, `${testId} as ${role}`).toHaveAttribute('data-testid', testId);
+    }
+  });
+});
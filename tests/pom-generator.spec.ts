@@ -0,0 +1,89 @@
+/**
+ * Page Object Generator Tests
+ *
+ * What the generator writes into a page object class: fields and
+ * constructor lines for collected test id elements, methods for dynamic id
+ * families, and nothing that hand-written code already covers.
+ */
+
+import { test, expect } from '@playwright/test';
+import {
+  CollectedElement, dynamicIdFamilies, handWrittenTestIds, memberName, POM_VIEWS, updatePageObject,
+} from '../healing/pom-generator';
+
+const DASHBOARD = POM_VIEWS.find(view => view.className === 'DashboardPage')!;
+
+const ELEMENTS: CollectedElement[] = [
+  { testId: 'dashboard-title', tag: 'h1', role: 'heading', name: 'User Dashboard' },
+  { testId: 'add-user-button', tag: 'button', role: 'button', name: 'Add User' },
+  { testId: 'user-table', tag: 'table', role: 'table', name: '' },
+  { testId: 'user-row-1', tag: 'tr', role: 'row', name: '' },
+  { testId: 'user-row-2', tag: 'tr', role: 'row', name: '' },
+  { testId: 'edit-user-1', tag: 'button', role: 'button', name: 'Edit' },
+  { testId: 'edit-user-2', tag: 'button', role: 'button', name: 'Edit' },
+];
+
+/** A page objects file with one hand-written field, one hand-written method and empty generated regions. */
+const SOURCE = [
+  'export class DashboardPage {',
+  '  readonly page: Page;',
+  '  readonly addUserButton: HealingLocator;',
+  '  // #region generated fields',
+  '  // #endregion generated fields',
+  '',
+  '  constructor(page: Page) {',
+  '    this.page = page;',
+  "    this.addUserButton = healingLocator(page, 'DashboardPage.addUserButton', [testId('add-user-button')]);",
+  '    // #region generated constructor',
+  '    // #endregion generated constructor',
+  '  }',
+  '',
+  '  async getUserRow(userId: number) {',
+  '    return this.page.getByTestId(`user-row-${userId}`);',
+  '  }',
+  '',
+  '  dashboardTitle() {}',
+  '',
+  '  // #region generated methods',
+  '  // #endregion generated methods',
+  '}',
+  '',
+].join('\n');
+
+test.describe('Page Object Generator', () => {
+  test('should group numbered test ids into dynamic id families', () => {
+    expect(dynamicIdFamilies(['user-row-1', 'user-row-12', 'apply-change-1', 'header-name'])).toEqual([
+      { template: 'user-row-${id}', examples: ['user-row-1', 'user-row-12'] },
+    ]);
+  });
+
+  test('should derive member names from test ids', () => {
+    expect(memberName('login-submit')).toBe('loginSubmit');
+    expect(memberName('user-row-${id}')).toBe('userRow');
+    expect(memberName('page')).toBe('pageElement');
+  });
+
+  test('should generate members for the test ids hand-written code does not cover', () => {
+    const source = updatePageObject(SOURCE, DASHBOARD, ELEMENTS);
+
+    expect(source).toContain('  readonly userTable: HealingLocator;\n  // #endregion generated fields');
+    expect(source).toContain("this.dashboardTitle2 = healingLocator(page, 'DashboardPage.dashboardTitle2', [");
+    expect(source).toContain("      testId('dashboard-title'),\n      by.role('heading', { name: 'User Dashboard' }),");
+    expect(source).toContain('  editUser(id: number | string): Locator {\n    return this.page.getByTestId(`edit-user-${id}`);');
+    expect(source.match(/addUserButton/g)).toHaveLength(3);
+    expect(source).not.toContain('userRow(id');
+    expect(source).not.toContain('userRow1');
+  });
+
+  test('should only rewrite the generated regions', () => {
+    const generated = updatePageObject(SOURCE, DASHBOARD, ELEMENTS);
+    const regenerated = updatePageObject(generated, DASHBOARD, ELEMENTS.slice(0, 3));
+
+    expect(updatePageObject(generated, DASHBOARD, ELEMENTS)).toBe(generated);
+    expect(regenerated).not.toContain('editUser(id');
+    expect(updatePageObject(regenerated, DASHBOARD, [])).toBe(SOURCE);
+    expect(handWrittenTestIds(generated).map(String)).toEqual(['/^add-user-button$/', '/^user-row-.+$/']);
+    expect(() => updatePageObject(SOURCE.replace(/.*generated methods\n/g, ''), DASHBOARD, ELEMENTS))
+      .toThrow('DashboardPage has no "// #region generated methods" region');
+  });
+});
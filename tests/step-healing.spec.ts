@@ -0,0 +1,131 @@
+/**
+ * Step Healing Tests
+ *
+ * Runs step bodies through a StepHealer with the offline strategy, without a
+ * page: the text drift cases need no DOM snapshot. Each healer gets a
+ * StepTestInfo of its own, so its `healed` annotations stay out of this run's
+ * report.
+ */
+
+import { test, expect } from '@playwright/test';
+import { OfflineStrategy } from '../healing/offline-strategy';
+import { HealingStrategy } from '../healing/strategy';
+import { StepHeal, StepHealer, StepTestInfo } from './helpers/step-healing';
+import { by, parseStrategy } from './helpers/healing-locator';
+import { UI_TEXT } from './helpers/test-data';
+import { EXPECTED_UI } from './helpers/ui-scenarios';
+
+const RENAMED_HEADERS = ['Full Name', 'Email', 'Role', 'Actions'];
+
+function stepTestInfo() {
+  const annotations: StepTestInfo['annotations'] = [];
+  const attachments: { name: string; body?: string }[] = [];
+  const testInfo: StepTestInfo = {
+    annotations,
+    titlePath: ['step-healing.spec.ts', 'Users', 'should show the table'],
+    file: __filename,
+    line: 1,
+    project: test.info().project,
+    attach: async (name, options = {}) => { attachments.push({ name, body: options.body?.toString() }); },
+  };
+  return { testInfo, annotations, attachments };
+}
+
+/** Fails while the table headers differ from EXPECTED_UI, like the specs asserting on them. */
+function assertHeaders() {
+  expect(RENAMED_HEADERS).toEqual(EXPECTED_UI.tableHeaders);
+}
+
+test.describe('Step Healing', () => {
+  test('should retry a drifted step with the top proposal and annotate it healed', async () => {
+    const { testInfo, annotations, attachments } = stepTestInfo();
+    const healer = new StepHealer(undefined, testInfo, 'retry', new OfflineStrategy());
+
+    try {
+      await healer.run('check the table headers', assertHeaders);
+      expect(EXPECTED_UI.tableHeaders).toEqual(RENAMED_HEADERS);
+    } finally {
+      await healer.dispose();
+    }
+
+    expect(EXPECTED_UI.tableHeaders).toEqual(['Name', 'Email', 'Role', 'Actions']);
+    expect(annotations).toEqual([{
+      type: 'healed',
+      description: expect.stringContaining('check the table headers: UI_TEXT.initial.tableHeaders: ["Name","Email","Role","Actions"] -> ["Full Name","Email","Role","Actions"]'),
+    }]);
+
+    const [heal] = JSON.parse(attachments.find(attachment => attachment.name === 'step-heals')!.body!) as StepHeal[];
+    expect(heal).toMatchObject({ step: 'check the table headers', passed: true, proposal: { kind: 'text', strategy: 'offline' } });
+  });
+
+  test('should fail in strict mode without re-running the step, with the proposal annotated', async () => {
+    const { testInfo, annotations } = stepTestInfo();
+    const healer = new StepHealer(undefined, testInfo, 'strict', new OfflineStrategy());
+    let attempts = 0;
+
+    try {
+      await expect(healer.run('check the table headers', () => {
+        attempts++;
+        assertHeaders();
+      })).rejects.toThrow(/toEqual/);
+    } finally {
+      await healer.dispose();
+    }
+
+    expect(attempts).toBe(1);
+    expect(UI_TEXT.initial.tableHeaders).toEqual(['Name', 'Email', 'Role', 'Actions']);
+    expect(annotations).toEqual([{
+      type: 'healing-proposal',
+      description: expect.stringMatching(/UI_TEXT\.initial\.tableHeaders: .* not tried in strict mode\)$/),
+    }]);
+    expect(healer.heals).toEqual([expect.not.objectContaining({ passed: expect.anything() })]);
+  });
+
+  test('should fail with the original error when the strategy fails', async () => {
+    const { testInfo, annotations } = stepTestInfo();
+    const strategy: HealingStrategy = {
+      name: 'http',
+      propose: async () => { throw new Error('connect ECONNREFUSED 127.0.0.1:4310'); },
+    };
+    const healer = new StepHealer(undefined, testInfo, 'retry', strategy);
+
+    await expect(healer.run('check the table headers', assertHeaders)).rejects.toThrow(/toEqual/);
+
+    expect(annotations).toEqual([{
+      type: 'healing-error',
+      description: 'check the table headers: http strategy failed: connect ECONNREFUSED 127.0.0.1:4310',
+    }]);
+    expect(healer.heals).toEqual([]);
+  });
+
+  test('should not retry failures that do not look like drift', async () => {
+    const { testInfo, annotations } = stepTestInfo();
+    const healer = new StepHealer(undefined, testInfo, 'retry', new OfflineStrategy());
+    let attempts = 0;
+
+    await expect(healer.run('save the user', () => {
+      attempts++;
+      throw new Error('Internal Server Error');
+    })).rejects.toThrow('Internal Server Error');
+
+    expect(attempts).toBe(1);
+    expect(annotations).toEqual([]);
+    expect(healer.heals).toEqual([]);
+  });
+
+  test('should parse proposal locators back into strategies', () => {
+    for (const strategy of [
+      by.testId('create-user-button'),
+      by.role('button', { name: 'Add User' }),
+      by.role('table'),
+      by.label('Email'),
+      by.text('Sign In'),
+      by.css('form button[type="submit"]'),
+    ]) {
+      expect(parseStrategy(strategy.description)).toMatchObject({ kind: strategy.kind, description: strategy.description });
+    }
+
+    expect(parseStrategy("getByText('It\\'s here')")?.description).toBe("getByText('It's here')");
+    expect(parseStrategy('getByRole(\'button\', { name: /save/i })')).toBeUndefined();
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Test Id Coverage Tests
+ *
+ * Test id references are scanned from the page objects; the coverage
+ * reports are built from hand-made crawl results.
+ */
+
+import path from 'path';
+import { test, expect } from '@playwright/test';
+import { buildCoverageReport, renderCoverageHtml, scanTestIdReferences, TestIdReference } from '../healing/testid-coverage';
+
+const ROOT_DIR = path.resolve(__dirname, '..');
+
+function reference(testId: string, pattern?: string): TestIdReference {
+  return { testId, pattern, source: 'spec', owner: 'example.spec.ts', file: 'tests/example.spec.ts', line: 1 };
+}
+
+test.describe('Test Id Coverage', () => {
+  test('should find page object locators, templates and row prefixes', () => {
+    const references = scanTestIdReferences(path.join(ROOT_DIR, 'tests', 'helpers', 'page-objects.ts'), 'pom', ROOT_DIR);
+
+    expect(references).toContainEqual(expect.objectContaining({
+      testId: 'login-submit', source: 'pom', owner: 'LoginPage', file: path.join('tests', 'helpers', 'page-objects.ts'),
+    }));
+    expect(references).toContainEqual(expect.objectContaining({
+      testId: 'edit-user-${userId}', pattern: '^edit-user-.+$', owner: 'DashboardPage',
+    }));
+    expect(references).toContainEqual(expect.objectContaining({ testId: 'user-row-*', pattern: '^user-row-' }));
+    // Generated fields exist for every rendered test id, so they are not counted.
+    expect(references.map(ref => ref.testId)).not.toContain('header-name');
+  });
+
+  test('should report untested test ids and coverage per page', () => {
+    const report = buildCoverageReport([
+      { name: 'DashboardPage', route: '/dashboard', testIds: ['dashboard-title', 'user-row-1', 'user-row-2', 'header-role'] },
+      { name: 'ProfilePage', route: '/profile', testIds: ['profile-title'] },
+    ], [reference('dashboard-title'), reference('user-row-${id}', '^user-row-.+$'), reference('profile-title')]);
+
+    expect(report.pages).toEqual([
+      { name: 'DashboardPage', route: '/dashboard', total: 4, covered: 3, percent: 75, untested: ['header-role'] },
+      { name: 'ProfilePage', route: '/profile', total: 1, covered: 1, percent: 100, untested: [] },
+    ]);
+    expect(report.summary).toEqual({ testIds: 5, covered: 4, percent: 80, deadLocators: 0 });
+  });
+
+  test('should list references to test ids no page renders as dead locators', () => {
+    const report = buildCoverageReport(
+      [{ name: 'LoginPage', route: '/login', testIds: ['login-submit-btn'] }],
+      [reference('login-submit'), reference('login-submit-btn')]
+    );
+
+    expect(report.deadLocators).toEqual([reference('login-submit')]);
+    expect(renderCoverageHtml(report)).toContain('<code>login-submit</code>');
+  });
+});
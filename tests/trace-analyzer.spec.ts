@@ -0,0 +1,153 @@
+/**
+ * Trace Analyzer Tests
+ *
+ * Trace archives are written in Playwright's format (a test step, browser
+ * calls, DOM snapshots with subtree references, console and network
+ * entries) and read back into a FailureContext.
+ */
+
+import AdmZip from 'adm-zip';
+import { test, expect } from '@playwright/test';
+import { OfflineStrategy } from '../healing/offline-strategy';
+import { analyzeTrace, describeSelector } from '../healing/trace-analyzer';
+
+const PAGE = { pageId: 'page@1', frameId: 'frame@1', isMainFrame: true };
+const SPEC = '/repo/tests/core-functionality.spec.ts';
+
+const TEXT_FAILURE = [
+  'Error: expect(locator).toHaveText(expected) failed',
+  '',
+  "Locator: getByTestId('login-submit')",
+  'Expected string: "Sign In"',
+  'Received string: "Log In Now"',
+  'Timeout: 5000ms',
+].join('\n');
+
+function writeTrace(file: string, entries: Record<string, object[]>): string {
+  const zip = new AdmZip();
+  for (const [name, events] of Object.entries(entries)) {
+    zip.addFile(name, Buffer.from(events.map(event => JSON.stringify(event)).join('\n')));
+  }
+  zip.writeZip(file);
+  return file;
+}
+
+function frameSnapshot(snapshotName: string, timestamp: number, html: unknown) {
+  return {
+    type: 'frame-snapshot',
+    snapshot: { ...PAGE, callId: snapshotName.split('@').slice(1).join('@'), snapshotName, frameUrl: 'http://localhost:4300/login', html, timestamp, wallTime: 1760000000000 + timestamp },
+  };
+}
+
+/** A toHaveText assertion on the login button that timed out on the new text. */
+function textMismatchTrace(file: string): string {
+  return writeTrace(file, {
+    'test.trace': [
+      { version: 8, type: 'context-options', origin: 'testRunner', browserName: '', options: {}, wallTime: 1760000000000, monotonicTime: 0 },
+      { type: 'before', callId: 'expect@4', stepId: 'expect@4', class: 'Test', method: 'expect', title: 'Expect "toHaveText"', params: { expected: 'Sign In' }, startTime: 190, stack: [{ file: SPEC, line: 42, column: 5 }] },
+      { type: 'after', callId: 'expect@4', endTime: 5300, error: { message: TEXT_FAILURE } },
+      { type: 'error', message: TEXT_FAILURE, stack: [] },
+    ],
+    '0-trace.trace': [
+      { version: 8, type: 'context-options', origin: 'library', browserName: 'chromium', options: {}, wallTime: 1760000000000, monotonicTime: 0 },
+      { type: 'before', callId: 'call@5', class: 'Frame', method: 'goto', title: 'Navigate to "/login"', params: { url: '/login' }, startTime: 50, stepId: 'pw:api@2', pageId: 'page@1' },
+      frameSnapshot('after@call@5', 100, ['HTML', {}, ['HEAD', {}],
+        ['BODY', {}, ['MAIN', {}, ['H1', {}, 'Sign in'], ['BUTTON', { 'data-testid': 'login-submit', type: 'submit' }, 'Sign In']]]]),
+      { type: 'after', callId: 'call@5', endTime: 150, afterSnapshot: 'after@call@5' },
+      { type: 'console', messageType: 'error', text: 'Failed to load resource: 500', location: { url: 'http://localhost:4300/app.js', lineNumber: 12 }, time: 160, pageId: 'page@1' },
+      { type: 'event', class: 'BrowserContext', method: 'pageError', params: { error: { error: { name: 'TypeError', message: "Cannot read properties of undefined (reading 'name')" } } }, time: 170, pageId: 'page@1' },
+      { type: 'before', callId: 'call@7', class: 'Frame', method: 'expect', title: 'Expect "toHaveText"', startTime: 200, stepId: 'expect@4', pageId: 'page@1',
+        params: { selector: 'internal:testid=[data-testid="login-submit"s]', expression: 'to.have.text', expectedText: [{ string: 'Sign In' }], isNot: false, timeout: 5000 } },
+      // Unchanged <head> and <h1> are references into the first snapshot: [[snapshots back, node index]].
+      frameSnapshot('after@call@7', 5100, ['HTML', {}, [[1, 0]],
+        ['BODY', {}, ['MAIN', {}, [[1, 2]], ['BUTTON', { 'data-testid': 'login-submit', type: 'submit', __playwright_target__: 'call@7' }, 'Log In Now']]]]),
+      { type: 'after', callId: 'call@7', endTime: 5200, afterSnapshot: 'after@call@7', error: { name: 'Expect', message: 'Expect failed' } },
+      frameSnapshot('before@call@9', 6000, ['HTML', {}, ['HEAD', {}], ['BODY', {}]]),
+    ],
+    '0-trace.network': [
+      { type: 'resource-snapshot', snapshot: { request: { method: 'GET', url: 'http://localhost:4300/login' }, response: { status: 200, statusText: 'OK' } } },
+      { type: 'resource-snapshot', snapshot: { request: { method: 'POST', url: 'http://localhost:4300/api/users' }, response: { status: 500, statusText: 'Internal Server Error' } } },
+      { type: 'resource-snapshot', snapshot: { request: { method: 'GET', url: 'http://localhost:4310/avatar.png' }, response: { status: -1, statusText: '', _failureText: 'net::ERR_CONNECTION_REFUSED' } } },
+    ],
+  });
+}
+
+test.describe('Trace Analyzer', () => {
+  test('should extract the failing assertion, its locator and expected value', () => {
+    const context = analyzeTrace(textMismatchTrace(test.info().outputPath('trace.zip')), { title: 'Login › should have correct button text' });
+
+    expect(context.test).toEqual({ title: 'Login › should have correct button text', file: SPEC, line: 42, project: 'chromium' });
+    expect(context.category).toBe('text-mismatch');
+    expect(context.locator.selector).toBe("getByTestId('login-submit')");
+    expect(context.expected).toEqual({ value: 'Sign In', source: 'UI_TEXT.initial.loginButton' });
+    expect(context.received).toBe('Log In Now');
+    expect(context.trace?.action).toEqual({
+      title: 'Expect "toHaveText"',
+      method: 'expect',
+      selector: 'internal:testid=[data-testid="login-submit"s]',
+      error: 'Expect failed',
+    });
+  });
+
+  test('should rebuild the last DOM snapshot before the failure', () => {
+    const context = analyzeTrace(textMismatchTrace(test.info().outputPath('trace.zip')));
+
+    expect(context.trace?.url).toBe('http://localhost:4300/login');
+    expect(context.trace?.html).toBe('<!DOCTYPE html><html><head></head><body><main><h1>Sign in</h1>'
+      + '<button data-testid="login-submit" type="submit">Log In Now</button></main></body></html>');
+    expect(context.trace?.target).toMatchObject({ tag: 'button', testId: 'login-submit', text: 'Log In Now' });
+    expect(context.snapshot?.route).toBe('login');
+    expect(context.snapshot?.nodes.map(node => `${node.path} ${node.text}`)).toEqual([
+      'body > main:nth-of-type(1) ',
+      'body > main:nth-of-type(1) > h1:nth-of-type(1) Sign in',
+      'body > main:nth-of-type(1) > button:nth-of-type(1) Log In Now',
+    ]);
+  });
+
+  test('should collect console errors and failed requests', async () => {
+    const context = analyzeTrace(textMismatchTrace(test.info().outputPath('trace.zip')));
+
+    expect(context.trace?.consoleErrors).toEqual([
+      { source: 'console', text: 'Failed to load resource: 500', location: 'http://localhost:4300/app.js:12' },
+      { source: 'page', text: "Cannot read properties of undefined (reading 'name')" },
+    ]);
+    expect(context.trace?.networkFailures).toEqual([
+      { method: 'POST', url: 'http://localhost:4300/api/users', status: 500 },
+      { method: 'GET', url: 'http://localhost:4310/avatar.png', status: -1, failure: 'net::ERR_CONNECTION_REFUSED' },
+    ]);
+
+    // The trace alone is enough evidence for a proposal.
+    const [proposal] = await new OfflineStrategy().propose(context);
+    expect(proposal).toMatchObject({ kind: 'text', target: 'UI_TEXT.initial.loginButton', after: '"Log In Now"' });
+  });
+
+  test('should describe selectors the way error messages print locators', () => {
+    expect(describeSelector('internal:testid=[data-testid="add-user-button"s]')).toBe("getByTestId('add-user-button')");
+    expect(describeSelector('internal:role=button[name="Sign In"i]')).toBe("getByRole('button', { name: 'Sign In' })");
+    expect(describeSelector('internal:role=heading[name="Add User"s]')).toBe("getByRole('heading', { name: 'Add User', exact: true })");
+    expect(describeSelector('internal:attr=[placeholder="Email"i]')).toBe("getByPlaceholder('Email')");
+    expect(describeSelector('internal:label="Password"s')).toBe("getByLabel('Password', { exact: true })");
+    expect(describeSelector('table >> internal:text="Department"i >> nth=0')).toBe("locator('table').getByText('Department').first()");
+  });
+
+  test('should fall back to the trace for locator actions and reject passing traces', () => {
+    const file = writeTrace(test.info().outputPath('click.zip'), {
+      '0-trace.trace': [
+        { version: 8, type: 'context-options', browserName: 'firefox', options: {}, wallTime: 0, monotonicTime: 0 },
+        { type: 'before', callId: 'call@3', class: 'Frame', method: 'click', title: 'Click', startTime: 10, pageId: 'page@1',
+          params: { selector: 'internal:role=button[name="Add User"i]', timeout: 5000 } },
+        { type: 'after', callId: 'call@3', endTime: 5010, error: { name: 'TimeoutError', message: 'Timeout 5000ms exceeded.' } },
+      ],
+    });
+
+    const context = analyzeTrace(file);
+    expect(context.test.project).toBe('firefox');
+    expect(context.locator.selector).toBe("getByRole('button', { name: 'Add User' })");
+    expect(context.snapshot).toBeUndefined();
+
+    const passing = writeTrace(test.info().outputPath('passing.zip'), {
+      'test.trace': [{ version: 8, type: 'context-options', origin: 'testRunner', browserName: '', options: {} }],
+    });
+    expect(() => analyzeTrace(passing)).toThrow(/no failed action or test error/);
+  });
+});
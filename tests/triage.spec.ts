@@ -0,0 +1,115 @@
+/**
+ * Failure Triage Tests
+ *
+ * Classifies Playwright error messages as the runner reports them: which
+ * matcher failed on which locator, expected against received, and failures
+ * that are neither the test's nor the app's fault.
+ */
+
+import { test, expect } from '@playwright/test';
+import { classifyFailure, parseArrayDiff } from '../healing/triage';
+
+function assertionError(matcher: string, locator: string, ...lines: string[]): string {
+  return [`Error: expect(locator).${matcher}(expected) failed`, '', `Locator: ${locator}`, ...lines, 'Timeout: 5000ms'].join('\n');
+}
+
+const HEADERS_DIFF = [
+  'Error: expect(received).toEqual(expected) // deep equality',
+  '',
+  '- Expected  - 0',
+  '+ Received  + 1',
+  '',
+  '  Array [',
+  '    "Name",',
+  '    "Email",',
+  '+   "Department",',
+  '    "Role",',
+  '  ]',
+].join('\n');
+
+test.describe('Failure Triage', () => {
+  test('should read matcher, locator, expected and received from assertion errors', () => {
+    const text = classifyFailure({
+      message: assertionError('toHaveText', "getByTestId('login-submit')", 'Expected string: "Sign In"', 'Received string: "Log In Now"'),
+    });
+
+    expect(text).toMatchObject({
+      category: 'text-mismatch',
+      needsHealing: true,
+      matcher: 'toHaveText',
+      locator: "getByTestId('login-submit')",
+      expected: 'Sign In',
+      received: 'Log In Now',
+    });
+
+    const shifted = classifyFailure({
+      message: assertionError('toHaveText', "getByRole('cell').nth(2)", 'Expected string: "user"', 'Received string: "Engineering"'),
+    });
+    expect(shifted.category).toBe('index-shift');
+
+    const counted = classifyFailure({ message: assertionError('toHaveCount', "locator('thead th')", 'Expected: 4', 'Received: 5') });
+    expect(counted).toMatchObject({ category: 'count-mismatch', expected: '4', received: '5' });
+  });
+
+  test('should rebuild arrays from deep-equality diffs', () => {
+    expect(parseArrayDiff(HEADERS_DIFF)).toEqual({ expected: ['Name', 'Email', 'Role'], received: ['Name', 'Email', 'Department', 'Role'] });
+    expect(classifyFailure({ message: HEADERS_DIFF })).toMatchObject({
+      category: 'count-mismatch',
+      reason: 'Expected 3 items, received 4',
+    });
+  });
+
+  test('should blame the locator of actions that timed out or stopped early for step healing', () => {
+    const timedOut = classifyFailure({
+      message: "locator.click: Timeout 5000ms exceeded.\nCall log:\n  - waiting for getByTestId('add-user-button')",
+    });
+    expect(timedOut).toMatchObject({ category: 'locator-not-found', matcher: 'click', locator: "getByTestId('add-user-button')" });
+
+    const stoppedEarly = classifyFailure({
+      message: 'locator.fill: no strategy of UserModal.nameInput matched within 2000ms (stopped early for step healing)\n'
+        + "  - waiting for getByTestId('name-input')",
+    });
+    expect(stoppedEarly).toMatchObject({
+      category: 'locator-not-found',
+      needsHealing: true,
+      matcher: 'fill',
+      locator: "getByTestId('name-input')",
+      reason: "Action fill found no element for getByTestId('name-input')",
+    });
+  });
+
+  test('should treat a test timeout as healable only when a baseline match was proposed', () => {
+    const message = 'Test timeout of 15000ms exceeded.';
+
+    expect(classifyFailure({ message })).toMatchObject({ category: 'timeout', needsHealing: false });
+    expect(classifyFailure({ message, annotations: [{ type: 'healing-proposal', description: 'DashboardPage.addUserButton' }] }))
+      .toMatchObject({ category: 'locator-not-found', needsHealing: true, reason: expect.stringContaining('a baseline match was proposed') });
+  });
+
+  test('should put setup and machine failures in the environment category', () => {
+    const missingDeps = classifyFailure({
+      message: 'browserType.launch: Host system is missing dependencies to run browsers.\nMissing libraries:\n    libgtk-4.so.1',
+    });
+    expect(missingDeps).toMatchObject({ category: 'environment', needsHealing: false });
+    expect(missingDeps.reason).toContain('npx playwright install-deps');
+
+    const notInstalled = classifyFailure({
+      message: "browserType.launch: Executable doesn't exist at /root/.cache/ms-playwright/chromium-1194/chrome-linux/chrome",
+    });
+    expect(notInstalled.reason).toBe('Browser is not installed (npx playwright install)');
+
+    const appDown = classifyFailure({ message: 'page.goto: net::ERR_CONNECTION_REFUSED at http://localhost:4300/login' });
+    expect(appDown).toMatchObject({ category: 'environment', reason: 'App is not reachable; is the server running?' });
+
+    // The escalation for proposed heals only applies to plain timeouts.
+    expect(classifyFailure({ message: 'page.goto: Target crashed', annotations: [{ type: 'healing-proposal' }] }).category)
+      .toBe('environment');
+  });
+
+  test('should call anything else an app bug', () => {
+    expect(classifyFailure({ message: "TypeError: Cannot read properties of undefined (reading 'name')" })).toMatchObject({
+      category: 'app-bug',
+      needsHealing: false,
+    });
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * User Management Service Tests
+ *
+ * The service reads users back from the table by column, so every flow that
+ * checks a user depends on these reads returning the seeded fields rather
+ * than empty ones.
+ */
+
+import { test, expect } from './helpers/fixtures';
+import { TEST_USERS } from './helpers/test-data';
+
+test.describe('User Management Service', () => {
+  test.use({ loggedIn: true });
+
+  test.beforeEach(async ({ userManagement }) => {
+    await userManagement.goto();
+  });
+
+  test('should read every listed field of the seeded users', async ({ userManagement }) => {
+    const [john, jane] = TEST_USERS.existing;
+
+    expect(await userManagement.getUser(john.id)).toMatchObject({ id: john.id, name: john.name, email: john.email, role: john.role });
+    expect(await userManagement.listUsers()).toContainEqual(expect.objectContaining({ id: jane.id, name: jane.name, email: jane.email }));
+  });
+
+  test('should fail for an id the table does not list', async ({ userManagement }) => {
+    await expect(userManagement.getUser(999)).rejects.toThrow('No user with id 999 in the user table');
+  });
+
+  test('should answer the delete dialog and report what it asked', async ({ userManagement }) => {
+    const [john] = TEST_USERS.existing;
+
+    expect(await userManagement.clickDelete(john.id, { confirm: false })).toEqual({
+      type: 'confirm',
+      message: expect.stringContaining(john.name),
+    });
+    expect(await userManagement.getUser(john.id)).toMatchObject({ name: john.name });
+  });
+});
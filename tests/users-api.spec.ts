@@ -0,0 +1,138 @@
+/**
+ * Users API Tests
+ *
+ * Runs the dashboard against the in-memory users API mock to cover save,
+ * load and delete failures and data that survives full page reloads. The
+ * Angular app keeps users in memory, so these run on the fixture app only.
+ */
+
+import { test, expect } from './helpers/fixtures';
+import { DashboardPage, UserModal } from './helpers/page-objects';
+import { TEST_USERS } from './helpers/test-data';
+
+test.skip(process.env.TEST_APP !== 'fixture', 'Only the fixture app uses the users API (run with TEST_APP=fixture)');
+
+test.describe('Users API: Save Failures', () => {
+  test.use({ loggedIn: true });
+
+  let dashboardPage: DashboardPage;
+  let userModal: UserModal;
+
+  test.beforeEach(async ({ authedPage, usersApi }) => {
+    dashboardPage = new DashboardPage(authedPage);
+    userModal = new UserModal(authedPage);
+    await dashboardPage.goto();
+    await expect.poll(() => usersApi.requests('GET').length).toBeGreaterThan(0);
+  });
+
+  test('should keep the modal open when the server fails', async ({ usersApi, testData }) => {
+    usersApi.fail('POST', { kind: 'error', status: 500 });
+
+    await dashboardPage.addUserButton.click();
+    await userModal.fillForm(testData.user());
+    await userModal.save();
+
+    await expect(userModal.formError).toContainText('HTTP 500');
+    await expect(userModal.modalBackdrop).toBeVisible();
+    expect(usersApi.users()).toEqual(TEST_USERS.existing);
+  });
+
+  test('should show validation errors from the server', async ({ usersApi, testData }) => {
+    usersApi.fail('POST', { kind: 'validation', errors: { email: 'Email is already taken' } });
+
+    await dashboardPage.addUserButton.click();
+    await userModal.fillForm(testData.user());
+    await userModal.save();
+
+    await expect(userModal.formError).toHaveText('Email is already taken');
+    await expect(userModal.modalBackdrop).toBeVisible();
+  });
+
+  test('should report a timed-out save and succeed on retry', async ({ usersApi, testData }) => {
+    const user = testData.user();
+    usersApi.fail('POST', { kind: 'timeout' });
+
+    await dashboardPage.addUserButton.click();
+    await userModal.fillForm(user);
+    await userModal.save();
+    await expect(userModal.formError).toContainText('network error');
+
+    await userModal.save();
+    await expect(userModal.modalBackdrop).not.toBeVisible();
+    expect(usersApi.requests('POST').map(request => request.status)).toEqual(['timeout', 201]);
+    expect(usersApi.users()).toContainEqual(expect.objectContaining({ name: user.name, email: user.email }));
+  });
+
+  test('should disable save while the request is pending', async ({ usersApi, testData }) => {
+    usersApi.latency(1000);
+
+    await dashboardPage.addUserButton.click();
+    await userModal.fillForm(testData.user());
+    await userModal.save();
+
+    await expect(userModal.saveButton).toBeDisabled();
+    await expect(userModal.modalBackdrop).not.toBeVisible();
+  });
+
+  test('should show an error when an edit fails', async ({ usersApi }) => {
+    const [john] = TEST_USERS.existing;
+    usersApi.fail('PUT', { kind: 'error', status: 503, message: 'Service Unavailable' });
+
+    await dashboardPage.clickEditUser(john.id);
+    await userModal.fillName('John Renamed');
+    await userModal.save();
+
+    await expect(userModal.formError).toHaveText('Service Unavailable');
+    expect(usersApi.requests('PUT')[0]).toMatchObject({ path: `/api/users/${john.id}`, body: { name: 'John Renamed' } });
+    expect(usersApi.users()[0].name).toBe(john.name);
+  });
+});
+
+test.describe('Users API: Persistence', () => {
+  test.use({ loggedIn: true });
+
+  test('should keep created users across a full reload', async ({ authedPage, usersApi, userManagement, testData }) => {
+    const user = testData.user();
+    await userManagement.goto();
+    const id = await userManagement.createUser(user);
+
+    await authedPage.reload();
+
+    expect(await userManagement.getUser(id)).toMatchObject({ name: user.name, email: user.email });
+    expect(usersApi.requests('POST')[0].body).toMatchObject(user);
+  });
+
+  test('should list the seeded users', async ({ usersApi, userManagement, testData }) => {
+    const seeded = [{ id: 42, ...testData.user() }];
+    usersApi.seed(seeded);
+
+    await userManagement.goto();
+
+    await expect.poll(() => userManagement.listUsers()).toEqual([
+      expect.objectContaining({ id: 42, name: seeded[0].name, email: seeded[0].email }),
+    ]);
+  });
+
+  test('should show an error when loading users fails', async ({ authedPage, usersApi }) => {
+    const dashboardPage = new DashboardPage(authedPage);
+    usersApi.fail('GET', { kind: 'error', status: 500 });
+
+    await dashboardPage.goto();
+
+    await expect(dashboardPage.usersError).toContainText('HTTP 500');
+    await expect(dashboardPage.table.rows()).toHaveCount(0);
+  });
+
+  test('should keep the user when the delete request fails', async ({ authedPage, usersApi, userManagement }) => {
+    const dashboardPage = new DashboardPage(authedPage);
+    const [john] = TEST_USERS.existing;
+    usersApi.fail('DELETE', { kind: 'error', status: 500 });
+
+    await dashboardPage.goto();
+    await userManagement.clickDelete(john.id);
+
+    await expect(dashboardPage.usersError).toContainText(`delete ${john.name}`);
+    await expect(await dashboardPage.getUserRow(john.id)).toBeVisible();
+    expect(usersApi.users()).toHaveLength(TEST_USERS.existing.length);
+  });
+});